@@ -1,9 +1,15 @@
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { useTaskSelector } from '@/hooks/use-task-store';
+import { selectCompletedCount, selectPendingCount } from '@/utils/task-store';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ScrollView, StyleSheet } from 'react-native';
+import { ScrollView, StyleSheet, View } from 'react-native';
 
 export default function TabTwoScreen() {
+  const totalCount = useTaskSelector(state => state.tasks.length);
+  const pendingCount = useTaskSelector(selectPendingCount);
+  const completedCount = useTaskSelector(selectCompletedCount);
+
   return (
     <LinearGradient
       colors={['#6366f1', '#8b5cf6', '#d946ef']}
@@ -15,6 +21,24 @@ export default function TabTwoScreen() {
         showsVerticalScrollIndicator={false}
       >
 
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.sectionTitle}>Your Tasks</ThemedText>
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <ThemedText style={styles.statValue}>{totalCount}</ThemedText>
+              <ThemedText style={styles.statLabel}>Total</ThemedText>
+            </View>
+            <View style={styles.stat}>
+              <ThemedText style={styles.statValue}>{pendingCount}</ThemedText>
+              <ThemedText style={styles.statLabel}>Pending</ThemedText>
+            </View>
+            <View style={styles.stat}>
+              <ThemedText style={styles.statValue}>{completedCount}</ThemedText>
+              <ThemedText style={styles.statLabel}>Completed</ThemedText>
+            </View>
+          </View>
+        </ThemedView>
+
         <ThemedView style={styles.card}>
           <ThemedText style={styles.sectionTitle}>Project Overview</ThemedText>
           <ThemedText style={styles.body}>
@@ -192,6 +216,26 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 24,
   },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontFamily: 'Montserrat_700Bold',
+    color: '#6366f1',
+  },
+  statLabel: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+  },
   featureTitle: {
     fontSize: 16,
     fontFamily: 'Montserrat_600SemiBold',
@@ -1,14 +1,13 @@
 import { Montserrat_400Regular, Montserrat_600SemiBold, Montserrat_700Bold, useFonts } from '@expo-google-fonts/montserrat';
-import * as Haptics from 'expo-haptics';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Accelerometer } from 'expo-sensors';
+import { useRouter } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Animated,
   Dimensions,
-  FlatList,
   KeyboardAvoidingView,
   Modal,
   Platform,
@@ -21,6 +20,53 @@ import {
   View,
 } from 'react-native';
 
+import { BatchActionBar } from '@/components/batch-action-bar';
+import { DraggableList, DragHandle } from '@/components/draggable-list';
+import { DueDatePicker } from '@/components/due-date-picker';
+import { HighlightedText } from '@/components/highlighted-text';
+import { ListEditorModal } from '@/components/list-editor-modal';
+import { ALL_LISTS, ListSwitcher } from '@/components/list-switcher';
+import { MemberAvatar } from '@/components/member-avatar';
+import { RecurrencePicker } from '@/components/recurrence-picker';
+import { ReminderPicker } from '@/components/reminder-picker';
+import { SubtaskList } from '@/components/subtask-list';
+import { SwipeableRow, type SwipeRowAction } from '@/components/swipeable-row';
+import { TagChip } from '@/components/tag-chip';
+import { TagEditor } from '@/components/tag-editor';
+import { TagFilterBar } from '@/components/tag-filter-bar';
+import { TaskTransferModal } from '@/components/task-transfer-modal';
+import { TaskViewPanel } from '@/components/task-view-panel';
+import { UndoToast } from '@/components/undo-toast';
+import { Collapsible } from '@/components/ui/collapsible';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { INBOX_LIST } from '@/constants/lists';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useHaptics } from '@/hooks/use-haptics';
+import { usePersistedState } from '@/hooks/use-persisted-state';
+import { useSettings } from '@/hooks/use-settings';
+import type { SyncStatus } from '@/hooks/use-sync';
+import { useTaskStore } from '@/hooks/use-task-store';
+import { useTeam } from '@/hooks/use-team';
+import { useUndoShortcuts } from '@/hooks/use-undo-shortcuts';
+import type { Priority, Recurrence, Reminder, Task, TaskList } from '@/types/task';
+import { formatDue, getDueStatus, snoozeDue, toDateKey, type DueStatus } from '@/utils/due-date';
+import { findMember, getAssignableMembers } from '@/utils/members';
+import { parseQuickAdd, type QuickAddTokenKind } from '@/utils/quick-add';
+import { REMINDERS_SUPPORTED, requestReminderPermission } from '@/utils/reminder-notifications';
+import { searchTasks, type SearchMatch } from '@/utils/search';
+import { getShakeThreshold, type SwipeAction } from '@/utils/settings';
+import { filterByTags, getTagColor, type TagMatchMode } from '@/utils/tags';
+import {
+  getSubtaskProgress,
+  selectPendingCount,
+  selectPendingCountByList,
+  selectTagSummaries,
+  taskActions,
+  type ImportedTask,
+  type ListDeletionMode,
+} from '@/utils/task-store';
+import { DEFAULT_VIEW_OPTIONS, filterTasks, getReorderBounds, isCustomView, sortTasks } from '@/utils/task-view';
+
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 SplashScreen.preventAutoHideAsync();
@@ -29,16 +75,6 @@ SplashScreen.preventAutoHideAsync();
 // Type Definitions
 // ============================================================================
 
-type Priority = 'low' | 'normal' | 'high' | 'urgent';
-
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  priority: Priority;
-}
-
 interface Particle {
   id: string;
   x: Animated.Value;
@@ -47,24 +83,14 @@ interface Particle {
   color: string;
 }
 
-interface Theme {
-  colors: [string, string, ...string[]];
-  accent: string;
-  text: string;
-  name: string;
-}
-
 // ============================================================================
 // Constants & Configuration
 // ============================================================================
 
-const PARTICLE_COUNT = 15;
 const PARTICLE_ANIMATION_DURATION = 600;
 const PARTICLE_VELOCITY_BASE = 50;
 const PARTICLE_VELOCITY_RANGE = 50;
-const SHAKE_THRESHOLD = 2.5;
 const SHAKE_COOLDOWN = 1000;
-const THEME_UPDATE_INTERVAL = 60000; // 1 minute
 
 const PARTICLE_COLORS = ['#FF6B9D', '#4ECDC4', '#FFE66D', '#A8E6CF', '#FF8B94'];
 
@@ -77,69 +103,57 @@ const PRIORITY_CONFIG = {
 
 const PRIORITIES: Priority[] = ['low', 'normal', 'high', 'urgent'];
 
+const QUICK_ADD_ICONS: Record<QuickAddTokenKind, string> = {
+  due: '📅',
+  priority: '!',
+  recurrence: '↻',
+};
+
+const DUE_STATUS_CONFIG: Record<DueStatus, { label: string; color: string }> = {
+  overdue: { label: 'Overdue', color: '#EF4444' },
+  today: { label: 'Today', color: '#F59E0B' },
+  upcoming: { label: 'Upcoming', color: '#3B82F6' },
+};
+
+const SYNC_STATUS_LABELS: Record<Exclude<SyncStatus, 'off'>, string> = {
+  synced: '✓ Synced',
+  pending: '↑ Sync pending',
+  error: '⚠ Sync failed',
+};
+
+const SWIPE_ACTION_CONFIG: Record<Exclude<SwipeAction, 'none'>, { label: string; icon: string; color: string }> = {
+  complete: { label: 'Done', icon: '✓', color: '#10B981' },
+  snooze: { label: 'Snooze', icon: '⏰', color: '#F59E0B' },
+  delete: { label: 'Delete', icon: '✕', color: '#EF4444' },
+};
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
 /**
- * Returns a theme configuration based on current time of day
+ * Validates a task title, alerting the user when it is empty
  */
-const getTimeBasedTheme = (): Theme => {
-  const hour = new Date().getHours();
-  
-  if (hour >= 6 && hour < 12) {
-    return {
-      colors: ['#FFE5E5', '#FFF0E5', '#E5F3FF'],
-      accent: '#FF6B9D',
-      text: '#2D3436',
-      name: 'Morning',
-    };
-  } else if (hour >= 12 && hour < 18) {
-    return {
-      colors: ['#A8E6CF', '#FFD3B6', '#FFAAA5'],
-      accent: '#FF8B94',
-      text: '#2D3436',
-      name: 'Afternoon',
-    };
-  } else if (hour >= 18 && hour < 22) {
-    return {
-      colors: ['#FF6B6B', '#FFA07A', '#FFD700'],
-      accent: '#FF4757',
-      text: '#2D3436',
-      name: 'Evening',
-    };
-  } else {
-    return {
-      colors: ['#1e3c72', '#2a5298', '#7474bf'],
-      accent: '#A29BFE',
-      text: '#FFFFFF',
-      name: 'Night',
-    };
+const isValidTaskTitle = (title: string): boolean => {
+  if (title.trim() === '') {
+    Alert.alert('Empty Task', 'Please enter a task title');
+    return false;
   }
+  return true;
 };
 
 /**
- * Triggers haptic feedback with fallback for web platform
+ * Stable across renders so the draggable list only re-keys on new data
  */
-const triggerHaptic = (type: 'light' | 'medium' | 'success' | 'warning' | 'error'): void => {
-  if (Platform.OS === 'web') return;
-  
-  const hapticMap = {
-    light: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light),
-    medium: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium),
-    success: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
-    warning: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning),
-    error: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error),
-  };
-  
-  hapticMap[type]();
-};
+const taskKeyExtractor = (task: Task): string => task.id;
 
 // ============================================================================
 // Main Component
 // ============================================================================
 
 export default function TaskManager() {
+  const router = useRouter();
+
   // Font loading
   const [fontsLoaded] = useFonts({
     Montserrat_400Regular,
@@ -148,16 +162,38 @@ export default function TaskManager() {
   });
 
   // Task state management
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const { state, dispatch, history, sync } = useTaskStore();
+  const team = useTeam();
+  const { tasks } = state;
+  const { settings } = useSettings();
+  const triggerHaptic = useHaptics();
+  useUndoShortcuts(history.undo, history.redo);
   const [taskTitle, setTaskTitle] = useState('');
   const [taskDescription, setTaskDescription] = useState('');
   const [selectedPriority, setSelectedPriority] = useState<Priority>('normal');
+  const [taskDueDate, setTaskDueDate] = useState<string | undefined>();
+  const [taskDueTime, setTaskDueTime] = useState<string | undefined>();
+  const [duePickerVisible, setDuePickerVisible] = useState(false);
+  const [activeListId, setActiveListId] = useState<string>(ALL_LISTS);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('any');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [viewOptions, setViewOptions] = usePersistedState('view', DEFAULT_VIEW_OPTIONS);
+  const [viewPanelVisible, setViewPanelVisible] = useState(false);
   
   // UI state
-  const [theme, setTheme] = useState<Theme>(getTimeBasedTheme());
+  const theme = useAppTheme();
   const [particles, setParticles] = useState<Particle[]>([]);
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [listEditorVisible, setListEditorVisible] = useState(false);
+  const [transferVisible, setTransferVisible] = useState(false);
+  const [editingList, setEditingList] = useState<TaskList | undefined>();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selecting = selectedIds.size > 0;
   
   // Animation references
   const inputScale = useRef(new Animated.Value(1)).current;
@@ -165,39 +201,36 @@ export default function TaskManager() {
   
   // Shake detection state
   const shakeDetection = useRef(false);
+  const shakeThreshold = getShakeThreshold(settings.shakeSensitivity);
+  const { particleCount } = settings;
 
   // ============================================================================
   // Effects
   // ============================================================================
 
   /**
-   * Update theme periodically and animate header on mount
+   * Animate header on mount
    */
   useEffect(() => {
-    const interval = setInterval(() => {
-      setTheme(getTimeBasedTheme());
-    }, THEME_UPDATE_INTERVAL);
-    
     Animated.timing(headerOpacity, {
       toValue: 1,
       duration: 800,
       useNativeDriver: true,
     }).start();
-
-    return () => clearInterval(interval);
   }, [headerOpacity]);
 
   /**
-   * Enable shake-to-shuffle functionality on mobile devices
+   * Enable shake-to-shuffle functionality on mobile devices, unless it is
+   * switched off in settings
    */
   useEffect(() => {
-    if (Platform.OS === 'web') return;
+    if (Platform.OS === 'web' || !settings.shakeToShuffle) return;
     
     Accelerometer.setUpdateInterval(100);
     const subscription = Accelerometer.addListener(({ x, y, z }) => {
       const acceleration = Math.sqrt(x * x + y * y + z * z);
       
-      if (acceleration > SHAKE_THRESHOLD && !shakeDetection.current) {
+      if (acceleration > shakeThreshold && !shakeDetection.current) {
         shakeDetection.current = true;
         shuffleTasks();
         setTimeout(() => {
@@ -207,7 +240,7 @@ export default function TaskManager() {
     });
 
     return () => subscription?.remove();
-  }, [tasks]);
+  }, [tasks, settings.shakeToShuffle, shakeThreshold]);
 
   /**
    * Hide splash screen once fonts are loaded
@@ -226,8 +259,10 @@ export default function TaskManager() {
    * Creates particle explosion effect at specified coordinates
    */
   const createParticles = useCallback((x: number, y: number) => {
-    const newParticles: Particle[] = Array.from({ length: PARTICLE_COUNT }, (_, i) => {
-      const angle = (Math.PI * 2 * i) / PARTICLE_COUNT;
+    if (particleCount === 0) return;
+
+    const newParticles: Particle[] = Array.from({ length: particleCount }, (_, i) => {
+      const angle = (Math.PI * 2 * i) / particleCount;
       const velocity = PARTICLE_VELOCITY_BASE + Math.random() * PARTICLE_VELOCITY_RANGE;
       
       const particle: Particle = {
@@ -261,40 +296,45 @@ export default function TaskManager() {
     
     setParticles(newParticles);
     setTimeout(() => setParticles([]), PARTICLE_ANIMATION_DURATION);
-  }, []);
+  }, [particleCount]);
 
   /**
    * Shuffles task order randomly
    */
   const shuffleTasks = useCallback(() => {
     triggerHaptic('medium');
-    setTasks(prev => [...prev].sort(() => Math.random() - 0.5));
-  }, []);
+    dispatch(taskActions.shuffle(tasks));
+  }, [tasks, dispatch, triggerHaptic]);
 
   /**
    * Adds a new task with validation
    */
   const addTask = useCallback(() => {
-    if (taskTitle.trim() === '') {
+    // Dates, `!priority`, `#tags` and repeat phrases in the title win over the pickers
+    const { title, tags, priority, dueDate, dueTime, recurrence } = parseQuickAdd(taskTitle);
+    if (!isValidTaskTitle(title)) {
       triggerHaptic('error');
-      Alert.alert('Empty Task', 'Please enter a task title');
       return;
     }
 
     triggerHaptic('light');
     
-    const newTask: Task = {
-      id: Date.now().toString(),
-      title: taskTitle.trim(),
+    dispatch(taskActions.add({
+      title,
+      tags,
       description: taskDescription.trim(),
-      completed: false,
-      priority: selectedPriority,
-    };
-
-    setTasks(prev => [newTask, ...prev]);
+      priority: priority ?? selectedPriority,
+      listId: activeListId === ALL_LISTS ? INBOX_LIST.id : activeListId,
+      dueDate: dueDate ?? taskDueDate,
+      dueTime: dueDate ? dueTime : taskDueTime,
+      recurrence,
+    }));
     setTaskTitle('');
     setTaskDescription('');
     setSelectedPriority('normal');
+    setTaskDueDate(undefined);
+    setTaskDueTime(undefined);
+    setDuePickerVisible(false);
     
     // Input feedback animation
     Animated.sequence([
@@ -309,41 +349,42 @@ export default function TaskManager() {
         useNativeDriver: true,
       }),
     ]).start();
-  }, [taskTitle, taskDescription, selectedPriority, inputScale]);
+  }, [taskTitle, taskDescription, selectedPriority, activeListId, taskDueDate, taskDueTime, inputScale, dispatch, triggerHaptic]);
 
   /**
    * Toggles task completion status with particle effect
    */
   const toggleTaskCompletion = useCallback((id: string, pageX: number, pageY: number) => {
     const task = tasks.find(t => t.id === id);
+    if (!task) return;
     
-    if (task && !task.completed) {
+    if (!task.completed) {
       triggerHaptic('success');
       createParticles(pageX, pageY);
     } else {
       triggerHaptic('light');
     }
     
-    setTasks(prev => 
-      prev.map(task => 
-        task.id === id ? { ...task, completed: !task.completed } : task
-      )
-    );
-  }, [tasks, createParticles]);
+    // Recurring tasks spawn their next occurrence when completed
+    dispatch(taskActions.toggle(task));
+  }, [tasks, createParticles, dispatch, triggerHaptic]);
 
   /**
-   * Deletes a task with confirmation dialog
+   * Deletes a task, with a confirmation dialog unless disabled in settings
    */
   const deleteTask = useCallback((id: string) => {
     triggerHaptic('warning');
     
     const handleDelete = () => {
       triggerHaptic('success');
-      setTasks(prev => prev.filter(task => task.id !== id));
+      dispatch(taskActions.remove(id));
     };
     
-    if (Platform.OS === 'web') {
-      if (window.confirm('Are you sure you want to delete this task?')) {
+    if (!settings.confirmDelete) {
+      // The undo toast offers a way back
+      handleDelete();
+    } else if (Platform.OS === 'web') {
+      if (window.confirm('Move this task to the trash?')) {
         handleDelete();
       } else {
         triggerHaptic('light');
@@ -351,7 +392,7 @@ export default function TaskManager() {
     } else {
       Alert.alert(
         'Delete Task',
-        'Are you sure you want to delete this task?',
+        'Move this task to the trash?',
         [
           {
             text: 'Cancel',
@@ -366,200 +407,891 @@ export default function TaskManager() {
         ]
       );
     }
-  }, []);
+  }, [settings.confirmDelete, dispatch, triggerHaptic]);
+
+  /**
+   * Reverts the latest change
+   */
+  const undoChange = useCallback(() => {
+    triggerHaptic('light');
+    history.undo();
+  }, [history, triggerHaptic]);
+
+  /**
+   * Pushes and pulls right away; a failed sync explains why
+   */
+  const syncNow = useCallback(() => {
+    triggerHaptic('light');
+    if (sync.status === 'error' && sync.error) {
+      Alert.alert('Sync failed', `${sync.error}. Retrying now.`);
+    }
+    sync.syncNow();
+  }, [sync, triggerHaptic]);
+
+  /**
+   * Adds a task to the multi-selection or takes it out; long-pressing a row
+   * starts selecting, and removing the last task ends it
+   */
+  const toggleSelected = useCallback((id: string) => {
+    triggerHaptic('light');
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, [triggerHaptic]);
+
+  const clearSelection = useCallback(() => setSelectedIds(new Set()), []);
+
+  /**
+   * Moves the given completed tasks out of the list and into the history
+   */
+  const archiveTasks = useCallback((ids: string[]) => {
+    triggerHaptic('success');
+    dispatch(taskActions.archive(ids));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Reapplies the latest undone change
+   */
+  const redoChange = useCallback(() => {
+    triggerHaptic('light');
+    history.redo();
+  }, [history, triggerHaptic]);
+
+  /**
+   * Pushes a task's deadline back by the snooze duration from settings
+   */
+  const snoozeTask = useCallback((task: Task) => {
+    triggerHaptic('light');
+    const { dueDate, dueTime } = snoozeDue(task, settings.snoozeBy);
+    dispatch(taskActions.changeDue(task.id, dueDate, dueTime));
+  }, [settings.snoozeBy, dispatch, triggerHaptic]);
 
   /**
    * Updates task priority
    */
   const changePriority = useCallback((id: string, priority: Priority) => {
     triggerHaptic('light');
-    setTasks(prev => 
-      prev.map(task => 
-        task.id === id ? { ...task, priority } : task
-      )
+    dispatch(taskActions.changePriority(id, priority));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Updates task due date and time
+   */
+  const changeDue = useCallback((id: string, dueDate?: string, dueTime?: string) => {
+    triggerHaptic('light');
+    dispatch(taskActions.changeDue(id, dueDate, dueTime));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Updates or clears a task's repeat rule
+   */
+  const changeRecurrence = useCallback((id: string, recurrence?: Recurrence) => {
+    triggerHaptic('light');
+    dispatch(taskActions.changeRecurrence(id, recurrence));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Updates or clears a task's reminder, asking for notification permission
+   * the first time one is set
+   */
+  const changeReminder = useCallback((id: string, reminder?: Reminder) => {
+    triggerHaptic('light');
+    dispatch(taskActions.changeReminder(id, reminder));
+    if (!reminder) return;
+
+    requestReminderPermission()
+      .then((granted) => {
+        if (!granted) {
+          Alert.alert('Notifications Off', 'Allow notifications for this app in Settings to get reminders.');
+        }
+      })
+      .catch((error) => console.warn('Failed to request notification permission', error));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Moves a task into another list
+   */
+  const moveTaskToList = useCallback((id: string, listId: string) => {
+    triggerHaptic('light');
+    dispatch(taskActions.moveToList(id, listId));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Hands a task to a teammate, or unassigns it
+   */
+  const assignTask = useCallback((id: string, assignee?: string) => {
+    triggerHaptic('light');
+    dispatch(taskActions.assign(id, assignee));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Replaces a task's tags
+   */
+  const changeTags = useCallback((id: string, tags: string[]) => {
+    triggerHaptic('light');
+    dispatch(taskActions.setTags(id, tags));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Adds or removes a tag from the list filter
+   */
+  const toggleTagFilter = useCallback((tag: string) => {
+    triggerHaptic('light');
+    setSelectedTags(current =>
+      current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]
     );
-  }, []);
+  }, [triggerHaptic]);
+
+  /**
+   * Adds a checklist item to a task
+   */
+  const addSubtask = useCallback((taskId: string, title: string) => {
+    triggerHaptic('light');
+    dispatch(taskActions.addSubtask(taskId, title));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Toggles a subtask, completing the parent when its last open step is checked
+   */
+  const toggleSubtask = useCallback((task: Task, subtaskId: string, pageX: number, pageY: number) => {
+    const subtask = task.subtasks.find(s => s.id === subtaskId);
+    if (!subtask) return;
+
+    // One action, so a single undo reopens both
+    const action = taskActions.toggleSubtask(task, subtaskId);
+    dispatch(action);
+
+    if (action.type === 'subtask/toggled' && action.completion) {
+      triggerHaptic('success');
+      createParticles(pageX, pageY);
+    } else {
+      triggerHaptic('light');
+    }
+  }, [dispatch, createParticles, triggerHaptic]);
+
+  /**
+   * Moves a subtask up or down the checklist
+   */
+  const moveSubtask = useCallback((taskId: string, subtaskId: string, offset: number) => {
+    triggerHaptic('light');
+    dispatch(taskActions.moveSubtask(taskId, subtaskId, offset));
+  }, [dispatch, triggerHaptic]);
+
+  /**
+   * Removes a subtask from its task
+   */
+  const removeSubtask = useCallback((taskId: string, subtaskId: string) => {
+    triggerHaptic('warning');
+    dispatch(taskActions.removeSubtask(taskId, subtaskId));
+  }, [dispatch, triggerHaptic]);
 
   /**
    * Opens task detail modal
    */
   const openTaskModal = useCallback((task: Task) => {
-    setSelectedTask(task);
+    setSelectedTaskId(task.id);
     setModalVisible(true);
     triggerHaptic('light');
-  }, []);
+  }, [triggerHaptic]);
 
   /**
-   * Closes task detail modal
+   * Closes task detail modal, discarding any unsaved edits
    */
   const closeModal = useCallback(() => {
     setModalVisible(false);
-    setSelectedTask(null);
+    setSelectedTaskId(null);
+    setIsEditing(false);
   }, []);
 
+  /**
+   * Enters edit mode seeded with the task's current details
+   */
+  const startEditing = useCallback((task: Task) => {
+    setEditTitle(task.title);
+    setEditDescription(task.description);
+    setIsEditing(true);
+    triggerHaptic('light');
+  }, [triggerHaptic]);
+
+  /**
+   * Leaves edit mode without saving
+   */
+  const cancelEditing = useCallback(() => {
+    setIsEditing(false);
+    triggerHaptic('light');
+  }, [triggerHaptic]);
+
+  /**
+   * Saves edited title and description with validation
+   */
+  const saveEdit = useCallback((id: string) => {
+    if (!isValidTaskTitle(editTitle)) {
+      triggerHaptic('error');
+      return;
+    }
+
+    triggerHaptic('success');
+    dispatch(taskActions.edit(id, {
+      title: editTitle.trim(),
+      description: editDescription.trim(),
+    }));
+    setIsEditing(false);
+  }, [editTitle, editDescription, dispatch, triggerHaptic]);
+
+  /**
+   * Opens the list editor, for a new list when none is given
+   */
+  const openListEditor = useCallback((list?: TaskList) => {
+    setEditingList(list);
+    setListEditorVisible(true);
+    triggerHaptic('light');
+  }, [triggerHaptic]);
+
+  /**
+   * Closes the list editor
+   */
+  const closeListEditor = useCallback(() => {
+    setListEditorVisible(false);
+    setEditingList(undefined);
+  }, []);
+
+  /**
+   * Creates a new list or saves changes to the one being edited
+   */
+  const saveList = useCallback((values: Omit<TaskList, 'id'>) => {
+    triggerHaptic('success');
+    if (editingList) {
+      // Unsharing leaves `memberIds` out of the values, so drop the old ones
+      const { memberIds, ...list } = editingList;
+      dispatch(taskActions.updateList({ ...list, ...values }));
+    } else {
+      const action = taskActions.addList(values);
+      dispatch(action);
+      if (action.type === 'list/added') setActiveListId(action.list.id);
+    }
+    closeListEditor();
+  }, [editingList, dispatch, closeListEditor, triggerHaptic]);
+
+  /**
+   * Deletes a list, asking whether its tasks should be deleted or moved to the inbox
+   */
+  const deleteList = useCallback((list: TaskList) => {
+    triggerHaptic('warning');
+    const taskCount = tasks.filter(task => task.listId === list.id).length;
+
+    const handleDelete = (mode: ListDeletionMode) => {
+      triggerHaptic('success');
+      dispatch(taskActions.removeList(list.id, mode));
+      setActiveListId(current => (current === list.id ? ALL_LISTS : current));
+      closeListEditor();
+    };
+
+    if (Platform.OS === 'web') {
+      if (!window.confirm(`Delete the list "${list.name}"?`)) {
+        triggerHaptic('light');
+        return;
+      }
+      const deleteTasks =
+        taskCount > 0 &&
+        window.confirm(`Also move its ${taskCount} task(s) to the trash? Cancel moves them to ${INBOX_LIST.name}.`);
+      handleDelete(deleteTasks ? 'delete' : 'move');
+    } else if (taskCount === 0) {
+      Alert.alert('Delete List', `Delete the list "${list.name}"?`, [
+        { text: 'Cancel', style: 'cancel', onPress: () => triggerHaptic('light') },
+        { text: 'Delete', style: 'destructive', onPress: () => handleDelete('move') },
+      ]);
+    } else {
+      Alert.alert(
+        'Delete List',
+        `"${list.name}" has ${taskCount} task(s). What should happen to them?`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => triggerHaptic('light') },
+          { text: `Move to ${INBOX_LIST.name}`, onPress: () => handleDelete('move') },
+          { text: 'Trash Tasks', style: 'destructive', onPress: () => handleDelete('delete') },
+        ]
+      );
+    }
+  }, [tasks, dispatch, closeListEditor, triggerHaptic]);
+
   // ============================================================================
   // Computed Values
   // ============================================================================
 
   /**
-   * Tasks sorted by priority (urgent → low)
+   * Tasks in the chosen sort order, narrowed by the status and priority filters
+   */
+  const sortedTasks = useMemo(
+    () => filterTasks(sortTasks(tasks, viewOptions.sortBy), viewOptions, team.me?.id),
+    [tasks, viewOptions, team.me]
+  );
+
+  /**
+   * What the title input will create, for the preview chips
+   */
+  const quickAdd = useMemo(() => parseQuickAdd(taskTitle), [taskTitle]);
+
+  /**
+   * Tags in use, with task counts
+   */
+  const tagSummaries = selectTagSummaries(state);
+
+  /**
+   * Selected filter tags that still exist after renames and merges
+   */
+  const activeTags = useMemo(
+    () => selectedTags.filter(tag => tagSummaries.some(summary => summary.name === tag)),
+    [selectedTags, tagSummaries]
+  );
+
+  /**
+   * Sorted tasks narrowed to the active list and tag filter
+   */
+  const filteredTasks = useMemo(() => {
+    const inList = activeListId === ALL_LISTS
+      ? sortedTasks
+      : sortedTasks.filter(task => task.listId === activeListId);
+    return filterByTags(inList, activeTags, tagMatchMode);
+  }, [sortedTasks, activeListId, activeTags, tagMatchMode]);
+
+  /**
+   * Ranked search results with match ranges, keyed by task id
+   */
+  const searchMatches = useMemo(() => {
+    if (searchQuery.trim() === '') return null;
+    return new Map<string, SearchMatch>(
+      searchTasks(filteredTasks, searchQuery).map(match => [match.task.id, match])
+    );
+  }, [filteredTasks, searchQuery]);
+
+  /**
+   * Tasks shown in the list: search results by relevance, or the filtered list
+   */
+  const visibleTasks = useMemo(
+    () => (searchMatches ? [...searchMatches.values()].map(match => match.task) : filteredTasks),
+    [searchMatches, filteredTasks]
+  );
+
+  /**
+   * Completed tasks moved into their own collapsible section, when enabled.
+   * Search results always stay in a single ranked list.
+   */
+  const collapseCompleted =
+    viewOptions.completed === 'collapse' && viewOptions.status === 'all' && !searchMatches;
+  const listedTasks = useMemo(
+    () => (collapseCompleted ? visibleTasks.filter(task => !task.completed) : visibleTasks),
+    [collapseCompleted, visibleTasks]
+  );
+  const collapsedTasks = useMemo(
+    () => (collapseCompleted ? visibleTasks.filter(task => task.completed) : []),
+    [collapseCompleted, visibleTasks]
+  );
+
+  /**
+   * Ids of the completed tasks on screen, which "Archive completed" takes away
+   */
+  const visibleCompletedIds = useMemo(
+    () => visibleTasks.filter(task => task.completed).map(task => task.id),
+    [visibleTasks]
+  );
+
+  /**
+   * Selected tasks that are still on screen; batch actions only touch these
+   */
+  const selectedTasks = useMemo(
+    () => visibleTasks.filter(task => selectedIds.has(task.id)),
+    [visibleTasks, selectedIds]
+  );
+
+  /**
+   * Completes or reopens every selected task as one undoable step, with a
+   * single haptic and particle burst
+   */
+  const setSelectedCompleted = useCallback((completed: boolean, pageX?: number, pageY?: number) => {
+    if (selectedTasks.some(task => task.completed !== completed)) {
+      if (completed) {
+        triggerHaptic('success');
+        if (pageX !== undefined && pageY !== undefined) createParticles(pageX, pageY);
+      } else {
+        triggerHaptic('light');
+      }
+      dispatch(taskActions.setCompleted(selectedTasks, completed));
+    }
+    clearSelection();
+  }, [selectedTasks, createParticles, dispatch, clearSelection, triggerHaptic]);
+
+  /**
+   * Moves every selected task to the trash, with one confirmation
    */
-  const sortedTasks = useMemo(() => {
-    const priorityOrder: Record<Priority, number> = { 
-      urgent: 0, 
-      high: 1, 
-      normal: 2, 
-      low: 3 
+  const deleteSelected = useCallback(() => {
+    const ids = selectedTasks.map(task => task.id);
+    const message = `Move ${ids.length} ${ids.length === 1 ? 'task' : 'tasks'} to the trash?`;
+    triggerHaptic('warning');
+
+    const handleDelete = () => {
+      triggerHaptic('success');
+      dispatch(taskActions.removeMany(ids));
+      clearSelection();
     };
-    return [...tasks].sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
-  }, [tasks]);
+
+    if (!settings.confirmDelete) {
+      handleDelete();
+    } else if (Platform.OS === 'web') {
+      if (window.confirm(message)) handleDelete();
+    } else {
+      Alert.alert('Delete Tasks', message, [
+        { text: 'Cancel', style: 'cancel', onPress: () => triggerHaptic('light') },
+        { text: 'Delete', style: 'destructive', onPress: handleDelete },
+      ]);
+    }
+  }, [selectedTasks, settings.confirmDelete, dispatch, clearSelection, triggerHaptic]);
+
+  /**
+   * Adds tasks confirmed in the import preview, as one undoable step
+   */
+  const importTasks = useCallback((imported: ImportedTask[]) => {
+    triggerHaptic('success');
+    dispatch(taskActions.importTasks(imported));
+    setTransferVisible(false);
+  }, [dispatch, triggerHaptic]);
+
+  const changeSelectedPriority = useCallback((priority: Priority) => {
+    triggerHaptic('light');
+    dispatch(taskActions.changePriorityMany(selectedTasks.map(task => task.id), priority));
+    clearSelection();
+  }, [selectedTasks, dispatch, clearSelection, triggerHaptic]);
+
+  /**
+   * Where each listed task may be dragged; search results keep their ranking
+   * and nothing moves while selecting
+   */
+  const getDragBounds = useCallback(
+    (index: number) =>
+      searchMatches || selecting ? null : getReorderBounds(listedTasks, index, viewOptions.sortBy),
+    [searchMatches, selecting, listedTasks, viewOptions.sortBy]
+  );
+
+  /**
+   * Moves a task to a new position in the displayed list
+   */
+  const reorderTasks = useCallback((from: number, to: number) => {
+    triggerHaptic('light');
+    dispatch(taskActions.reorder(listedTasks, from, to));
+  }, [listedTasks, dispatch, triggerHaptic]);
+
+  const onTaskDragStart = useCallback(() => triggerHaptic('medium'), [triggerHaptic]);
+
+  const onSwipeThresholdCross = useCallback(() => triggerHaptic('light'), [triggerHaptic]);
 
   /**
    * Count of pending (incomplete) tasks
    */
-  const pendingCount = useMemo(() => 
-    tasks.filter(t => !t.completed).length, 
-    [tasks]
+  const pendingCount = selectPendingCount(state);
+
+  /**
+   * Pending task count per list, for the list switcher
+   */
+  const pendingCountByList = selectPendingCountByList(state);
+
+  /**
+   * Lists keyed by id for quick lookup while rendering rows
+   */
+  const listsById = useMemo(
+    () => Object.fromEntries(state.lists.map(list => [list.id, list])),
+    [state.lists]
   );
 
+  /**
+   * Task shown in the detail modal, kept live as the store changes
+   */
+  const selectedTask = tasks.find(task => task.id === selectedTaskId) ?? null;
+
   // ============================================================================
   // Render Functions
   // ============================================================================
 
+  /**
+   * Row action for a configured swipe, or undefined when it doesn't apply
+   */
+  const toSwipeAction = useCallback((action: SwipeAction, task: Task): SwipeRowAction | undefined => {
+    if (action === 'none' || (action === 'snooze' && task.completed)) return undefined;
+
+    const config = SWIPE_ACTION_CONFIG[action];
+    return {
+      key: action,
+      color: config.color,
+      icon: config.icon,
+      label: action === 'complete' && task.completed ? 'Reopen' : config.label,
+      onPress: ({ pageX, pageY }) => {
+        if (action === 'complete') toggleTaskCompletion(task.id, pageX, pageY);
+        if (action === 'snooze') snoozeTask(task);
+        if (action === 'delete') deleteTask(task.id);
+      },
+    };
+  }, [toggleTaskCompletion, snoozeTask, deleteTask]);
+
   /**
    * Renders individual task item
    */
   const renderTask = useCallback(({ item }: { item: Task }) => {
     const config = PRIORITY_CONFIG[item.priority];
+    const dueStatus = getDueStatus(item);
+    const progress = getSubtaskProgress(item);
+    const list = listsById[item.listId];
+    const match = searchMatches?.get(item.id);
+    const selected = selectedIds.has(item.id);
 
     return (
-      <View
-        style={[
-          styles.taskContainer,
-          { borderLeftWidth: 4, borderLeftColor: config.color },
-          config.glow && styles.urgentGlow,
-        ]}
+      <SwipeableRow
+        style={styles.taskRow}
+        enabled={settings.swipeEnabled && !selecting}
+        rightAction={toSwipeAction(settings.swipeRight, item)}
+        leftActions={settings.swipeLeft.flatMap(action => toSwipeAction(action, item) ?? [])}
+        fullSwipe={settings.fullSwipe}
+        onThresholdCross={onSwipeThresholdCross}
       >
-        {/* Completion checkbox */}
-        <TouchableOpacity
-          onPress={(e) => {
-            const { pageX, pageY } = e.nativeEvent;
-            toggleTaskCompletion(item.id, pageX, pageY);
-          }}
+        <View
           style={[
-            styles.taskCheckbox,
-            { borderColor: config.color },
-            item.completed && { backgroundColor: config.color },
+            styles.taskContainer,
+            { backgroundColor: theme.card, borderLeftWidth: 4, borderLeftColor: config.color },
+            config.glow && styles.urgentGlow,
+            selected && { backgroundColor: '#EEF2FF' },
           ]}
         >
-          {item.completed && <Text style={styles.checkmark}>✓</Text>}
-        </TouchableOpacity>
-
-        {/* Task content */}
-        <TouchableOpacity 
-          style={styles.taskContent}
-          onPress={() => openTaskModal(item)}
-          activeOpacity={0.7}
-        >
-          <Text
+          {selecting ? (
+            <View
+              style={[
+                styles.selectionCircle,
+                selected && { backgroundColor: theme.accent, borderColor: theme.accent },
+              ]}
+            >
+              {selected && <Text style={[styles.checkmark, { color: theme.onAccent }]}>✓</Text>}
+            </View>
+          ) : (
+            <DragHandle color={config.color} />
+          )}
+
+          {/* Completion checkbox; selects the row while selecting */}
+          <TouchableOpacity
+            onPress={(e) => {
+              if (selecting) {
+                toggleSelected(item.id);
+                return;
+              }
+              const { pageX, pageY } = e.nativeEvent;
+              toggleTaskCompletion(item.id, pageX, pageY);
+            }}
             style={[
-              styles.taskTitle,
-              { color: theme.text },
-              item.completed && styles.taskTextCompleted,
+              styles.taskCheckbox,
+              { borderColor: config.color },
+              item.completed && { backgroundColor: config.color },
             ]}
-            numberOfLines={1}
           >
-            {item.title}
-          </Text>
-          
-          {item.description !== '' && (
-            <Text
+            {item.completed && <Text style={styles.checkmark}>✓</Text>}
+          </TouchableOpacity>
+
+          {/* Task content */}
+          <TouchableOpacity 
+            style={styles.taskContent}
+            onPress={() => (selecting ? toggleSelected(item.id) : openTaskModal(item))}
+            onLongPress={() => toggleSelected(item.id)}
+            activeOpacity={0.7}
+          >
+            <HighlightedText
+              text={item.title}
+              ranges={match?.titleRanges ?? []}
+              highlightStyle={styles.searchHighlight}
               style={[
-                styles.taskDescription,
+                styles.taskTitle,
                 { color: theme.text },
                 item.completed && styles.taskTextCompleted,
               ]}
               numberOfLines={1}
-            >
-              {item.description}
-            </Text>
-          )}
+            />
           
-          {/* Priority indicators */}
-          <View style={styles.priorityContainer}>
-            {PRIORITIES.map((priority) => (
-              <TouchableOpacity
-                key={priority}
-                onPress={(e) => {
-                  e.stopPropagation();
-                  changePriority(item.id, priority);
-                }}
+            {item.description !== '' && (
+              <HighlightedText
+                text={item.description}
+                ranges={match?.descriptionRanges ?? []}
+                highlightStyle={styles.searchHighlight}
                 style={[
-                  styles.priorityDot,
-                  { 
-                    backgroundColor: PRIORITY_CONFIG[priority].color,
-                    opacity: item.priority === priority ? 1 : 0.3,
-                  },
+                  styles.taskDescription,
+                  { color: theme.text },
+                  item.completed && styles.taskTextCompleted,
                 ]}
+                numberOfLines={1}
               />
-            ))}
-          </View>
-        </TouchableOpacity>
-
-        {/* Delete button */}
-        <TouchableOpacity
-          style={styles.deleteButton}
-          onPress={(e) => {
-            e.stopPropagation();
-            deleteTask(item.id);
-          }}
-        >
-          <Text style={styles.deleteButtonText}>✕</Text>
-        </TouchableOpacity>
-      </View>
+            )}
+          
+            {/* Tags */}
+            {item.tags.length > 0 && (
+              <View style={styles.tagRow}>
+                {item.tags.map((tag) => (
+                  <TagChip key={tag} tag={tag} size="small" color={getTagColor(tag, state.tagColors)} />
+                ))}
+              </View>
+            )}
+
+            {/* Priority indicators */}
+            <View style={styles.priorityContainer}>
+              {PRIORITIES.map((priority) => (
+                <TouchableOpacity
+                  key={priority}
+                  disabled={selecting}
+                  onPress={(e) => {
+                    e.stopPropagation();
+                    changePriority(item.id, priority);
+                  }}
+                  style={[
+                    styles.priorityDot,
+                    { 
+                      backgroundColor: PRIORITY_CONFIG[priority].color,
+                      opacity: item.priority === priority ? 1 : 0.3,
+                    },
+                  ]}
+                />
+              ))}
+
+              {/* Due date badge */}
+              {item.dueDate && (
+                <View
+                  style={[
+                    styles.dueBadge,
+                    { backgroundColor: dueStatus ? DUE_STATUS_CONFIG[dueStatus].color : '#A4B0BE' },
+                  ]}
+                >
+                  <Text style={styles.dueBadgeText}>
+                    {dueStatus ? `${DUE_STATUS_CONFIG[dueStatus].label} · ` : ''}{formatDue(item)}
+                  </Text>
+                </View>
+              )}
+
+              {/* List indicator, only needed when lists are mixed */}
+              {activeListId === ALL_LISTS && list && list.id !== INBOX_LIST.id && (
+                <View style={styles.listIndicator}>
+                  <IconSymbol name={list.icon as IconSymbolName} size={12} color={list.color} />
+                  <Text style={[styles.listIndicatorText, { color: list.color }]} numberOfLines={1}>
+                    {list.name}
+                  </Text>
+                </View>
+              )}
+
+              {/* Repeat indicator */}
+              {item.recurrence && (
+                <Text style={[styles.recurrenceIndicator, { color: theme.text }]}>↻</Text>
+              )}
+
+              {/* Subtask progress */}
+              {progress.total > 0 && (
+                <Text style={[styles.subtaskProgress, { color: theme.text }]}>
+                  ☑ {progress.done}/{progress.total}
+                </Text>
+              )}
+
+              {/* Assignee */}
+              {item.assignee && (
+                <MemberAvatar
+                  member={findMember(team.members, item.assignee)}
+                  size={20}
+                  style={styles.assigneeAvatar}
+                />
+              )}
+            </View>
+          </TouchableOpacity>
+
+          {/* Delete button */}
+          {!selecting && (
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                deleteTask(item.id);
+              }}
+            >
+              <Text style={styles.deleteButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </SwipeableRow>
     );
-  }, [theme.text, toggleTaskCompletion, openTaskModal, changePriority, deleteTask]);
+  }, [theme.text, theme.accent, theme.onAccent, theme.card, listsById, activeListId, state.tagColors, team.members, searchMatches, settings, selecting, selectedIds, toSwipeAction, toggleTaskCompletion, toggleSelected, openTaskModal, changePriority, deleteTask, onSwipeThresholdCross]);
+
+  /**
+   * Particle animation overlay, shared by the list and the detail modal
+   */
+  const particleOverlay = particles.map((particle) => (
+    <Animated.View
+      key={particle.id}
+      pointerEvents="none"
+      style={[
+        styles.particle,
+        {
+          backgroundColor: particle.color,
+          transform: [
+            { translateX: particle.x },
+            { translateY: particle.y },
+          ],
+          opacity: particle.opacity,
+        },
+      ]}
+    />
+  ));
 
   // ============================================================================
   // Main Render
   // ============================================================================
 
-  if (!fontsLoaded) {
-    return null;
-  }
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient colors={theme.colors} style={styles.container}>
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.container}
+        >
+          {/* Header */}
+          <Animated.View style={[styles.header, { opacity: headerOpacity }]}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: theme.text }]}>
+                Task Manager
+              </Text>
+              <View style={styles.subtitleRow}>
+                <Text style={[styles.subtitle, { color: theme.text, opacity: 0.7 }]}>
+                  {theme.name} • {pendingCount} pending
+                </Text>
+                {sync.status !== 'off' && (
+                  <TouchableOpacity
+                    onPress={syncNow}
+                    accessibilityLabel={sync.error ? `Sync failed: ${sync.error}` : 'Sync now'}
+                  >
+                    <Text style={[styles.subtitle, { color: theme.text, opacity: sync.syncing ? 0.4 : 0.7 }]}>
+                      • {sync.syncing ? '⟳ Syncing' : SYNC_STATUS_LABELS[sync.status]}
+                      {sync.status === 'pending' && !sync.syncing && ` (${sync.pendingCount})`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
+            {/* Undo / redo */}
+            <View style={styles.historyButtons}>
+              <TouchableOpacity
+                onPress={undoChange}
+                disabled={!history.undoLabel}
+                accessibilityLabel={history.undoLabel ? `Undo ${history.undoLabel}` : 'Nothing to undo'}
+                style={[styles.historyButton, !history.undoLabel && styles.historyButtonDisabled]}
+              >
+                <Text style={[styles.historyButtonText, { color: theme.text }]}>↶</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={redoChange}
+                disabled={!history.redoLabel}
+                accessibilityLabel={history.redoLabel ? `Redo ${history.redoLabel}` : 'Nothing to redo'}
+                style={[styles.historyButton, !history.redoLabel && styles.historyButtonDisabled]}
+              >
+                <Text style={[styles.historyButtonText, { color: theme.text }]}>↷</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => router.push('/history')}
+                accessibilityLabel="Completed history"
+                style={styles.historyButton}
+              >
+                <IconSymbol name="clock.fill" size={18} color={theme.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => router.push('/trash')}
+                accessibilityLabel={`Trash, ${state.trash.length} tasks`}
+                style={styles.historyButton}
+              >
+                <IconSymbol name="trash.fill" size={18} color={theme.text} />
+                {state.trash.length > 0 && (
+                  <View style={[styles.trashBadge, { backgroundColor: theme.accent }]}>
+                    <Text style={[styles.trashBadgeText, { color: theme.onAccent }]}>{state.trash.length}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Animated.View>
+
+          {/* List switcher */}
+          <ListSwitcher
+            lists={state.lists}
+            activeListId={activeListId}
+            pendingCounts={pendingCountByList}
+            totalPending={pendingCount}
+            onSelect={(listId) => {
+              setActiveListId(listId);
+              triggerHaptic('light');
+            }}
+            onEdit={openListEditor}
+            onCreate={() => openListEditor()}
+            textColor={theme.text}
+            accentColor={theme.accent}
+          />
 
-  return (
-    <LinearGradient colors={theme.colors} style={styles.container}>
-      <SafeAreaView style={styles.container}>
-        <KeyboardAvoidingView
-          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-          style={styles.container}
-        >
-          {/* Header */}
-          <Animated.View style={[styles.header, { opacity: headerOpacity }]}>
-            <Text style={[styles.title, { color: theme.text }]}>
-              Task Manager
-            </Text>
-            <Text style={[styles.subtitle, { color: theme.text, opacity: 0.7 }]}>
-              {theme.name} • {pendingCount} pending
-            </Text>
-          </Animated.View>
+          {/* Tag filter */}
+          <TagFilterBar
+            tags={tagSummaries}
+            tagColors={state.tagColors}
+            selected={activeTags}
+            mode={tagMatchMode}
+            onToggle={toggleTagFilter}
+            onModeChange={(mode) => {
+              setTagMatchMode(mode);
+              triggerHaptic('light');
+            }}
+            onClear={() => setSelectedTags([])}
+            onManage={() => router.push('/tags')}
+            textColor={theme.text}
+          />
 
           {/* Task input section */}
-          <Animated.View style={[styles.inputContainer, { transform: [{ scale: inputScale }] }]}>
+          <Animated.View
+            style={[styles.inputContainer, { backgroundColor: theme.input, transform: [{ scale: inputScale }] }]}
+          >
             <View style={styles.inputSection}>
               <TextInput
                 style={[styles.input, { color: theme.text }]}
-                placeholder="Task title..."
-                placeholderTextColor={theme.text === '#FFFFFF' ? '#999' : '#666'}
+                placeholder="Task title... (try: tomorrow 9am !high #home)"
+                placeholderTextColor={theme.placeholder}
                 value={taskTitle}
                 onChangeText={setTaskTitle}
                 returnKeyType="next"
               />
+              {(quickAdd.tokens.length > 0 || quickAdd.tags.length > 0) && (
+                <View style={styles.quickAddPreview}>
+                  {quickAdd.tokens.map(token => (
+                    <View
+                      key={token.kind}
+                      style={[
+                        styles.quickAddChip,
+                        token.kind === 'priority' && quickAdd.priority && {
+                          backgroundColor: PRIORITY_CONFIG[quickAdd.priority].color,
+                        },
+                      ]}
+                    >
+                      <Text style={[styles.quickAddChipText, { color: token.kind === 'priority' ? '#fff' : theme.text }]}>
+                        {QUICK_ADD_ICONS[token.kind]} {token.label}
+                      </Text>
+                    </View>
+                  ))}
+                  {quickAdd.tags.map(tag => (
+                    <TagChip key={tag} tag={tag} size="small" color={getTagColor(tag, state.tagColors)} />
+                  ))}
+                </View>
+              )}
               <TextInput
                 style={[styles.inputDescription, { color: theme.text }]}
                 placeholder="Description (optional)..."
-                placeholderTextColor={theme.text === '#FFFFFF' ? '#999' : '#666'}
+                placeholderTextColor={theme.placeholder}
                 value={taskDescription}
                 onChangeText={setTaskDescription}
                 onSubmitEditing={addTask}
@@ -589,21 +1321,120 @@ export default function TaskManager() {
                 ))}
               </View>
 
-              {/* Add button */}
+              <View style={styles.inputButtons}>
+                {/* Due date toggle */}
+                <TouchableOpacity
+                  style={[
+                    styles.dueToggle,
+                    { borderColor: theme.accent },
+                    (duePickerVisible || taskDueDate) && { backgroundColor: 'rgba(255, 255, 255, 0.4)' },
+                  ]}
+                  onPress={() => {
+                    setDuePickerVisible(visible => !visible);
+                    triggerHaptic('light');
+                  }}
+                >
+                  <Text style={[styles.dueToggleText, { color: theme.text }]}>
+                    {taskDueDate ? formatDue({ dueDate: taskDueDate, dueTime: taskDueTime }) : '📅 Due'}
+                  </Text>
+                </TouchableOpacity>
+
+                {/* Add button */}
+                <TouchableOpacity
+                  style={[styles.addButton, { backgroundColor: theme.accent }]}
+                  onPress={addTask}
+                >
+                  <Text style={[styles.addButtonText, { color: theme.onAccent }]}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {duePickerVisible && (
+              <View style={styles.duePicker}>
+                <DueDatePicker
+                  dueDate={taskDueDate}
+                  dueTime={taskDueTime}
+                  onChange={(dueDate, dueTime) => {
+                    setTaskDueDate(dueDate);
+                    setTaskDueTime(dueTime);
+                    triggerHaptic('light');
+                  }}
+                  textColor={theme.text}
+                  accentColor={theme.accent}
+                />
+              </View>
+            )}
+          </Animated.View>
+
+          {/* Search */}
+          {tasks.length > 0 && (
+            <View style={styles.searchRow}>
+              <View style={[styles.searchContainer, { backgroundColor: theme.input }]}>
+                <Text style={[styles.searchIcon, { color: theme.text }]}>⌕</Text>
+                <TextInput
+                  style={[styles.searchInput, { color: theme.text }]}
+                  placeholder="Search tasks..."
+                  placeholderTextColor={theme.placeholder}
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  autoCorrect={false}
+                  returnKeyType="search"
+                />
+                {searchQuery !== '' && (
+                  <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.searchClear}>
+                    <Text style={[styles.searchClearText, { color: theme.text }]}>✕</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
               <TouchableOpacity
-                style={[styles.addButton, { backgroundColor: theme.accent }]}
-                onPress={addTask}
+                onPress={() => setViewPanelVisible(visible => !visible)}
+                style={[
+                  styles.viewToggle,
+                  { backgroundColor: theme.input },
+                  viewPanelVisible && { backgroundColor: theme.accent },
+                ]}
               >
-                <Text style={styles.addButtonText}>+</Text>
+                <Text style={[styles.viewToggleText, { color: theme.text }]}>⇅</Text>
+                {isCustomView(viewOptions) && <View style={[styles.viewToggleDot, { backgroundColor: theme.text }]} />}
               </TouchableOpacity>
             </View>
-          </Animated.View>
+          )}
+
+          {/* Sort & filter */}
+          {tasks.length > 0 && viewPanelVisible && (
+            <TaskViewPanel
+              options={viewOptions}
+              onChange={setViewOptions}
+              priorityColors={PRIORITY_CONFIG}
+              textColor={theme.text}
+              accentColor={theme.accent}
+              onImportExport={() => setTransferVisible(true)}
+            />
+          )}
 
           {/* Task list or empty state */}
-          {tasks.length === 0 ? (
+          {searchMatches && visibleTasks.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyStateText, { color: theme.text }]}>
+                No matches
+              </Text>
+              <Text style={[styles.emptyStateSubtext, { color: theme.text, opacity: 0.6 }]}>
+                Nothing matches &ldquo;{searchQuery.trim()}&rdquo;
+              </Text>
+            </View>
+          ) : visibleTasks.length === 0 && isCustomView(viewOptions) && filteredTasks.length < tasks.length ? (
             <View style={styles.emptyState}>
               <Text style={[styles.emptyStateText, { color: theme.text }]}>
-                No tasks yet!
+                Nothing to show
+              </Text>
+              <Text style={[styles.emptyStateSubtext, { color: theme.text, opacity: 0.6 }]}>
+                No tasks match the current sort &amp; filter settings
+              </Text>
+            </View>
+          ) : visibleTasks.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyStateText, { color: theme.text }]}>
+                {activeListId === ALL_LISTS ? 'No tasks yet!' : `No tasks in ${listsById[activeListId]?.name ?? 'this list'}`}
               </Text>
               <Text style={[styles.emptyStateSubtext, { color: theme.text, opacity: 0.6 }]}>
                 Add your first task to get started
@@ -615,32 +1446,65 @@ export default function TaskManager() {
               )}
             </View>
           ) : (
-            <FlatList
-              data={sortedTasks}
+            <DraggableList
+              data={listedTasks}
               renderItem={renderTask}
-              keyExtractor={(item) => item.id}
-              contentContainerStyle={styles.listContent}
+              keyExtractor={taskKeyExtractor}
+              getDragBounds={getDragBounds}
+              onReorder={reorderTasks}
+              onDragStart={onTaskDragStart}
+              contentContainerStyle={[styles.listContent, selecting && styles.listContentSelecting]}
               showsVerticalScrollIndicator={false}
+              ListFooterComponent={
+                <>
+                  {collapsedTasks.length > 0 && (
+                    <Collapsible
+                      title={`Completed (${collapsedTasks.length})`}
+                      backgroundColor="transparent"
+                      iconColor={theme.text}
+                      titleStyle={[styles.completedSectionTitle, { color: theme.text }]}
+                      contentStyle={styles.completedSectionContent}
+                    >
+                      {collapsedTasks.map(task => (
+                        <React.Fragment key={task.id}>{renderTask({ item: task })}</React.Fragment>
+                      ))}
+                    </Collapsible>
+                  )}
+                  {visibleCompletedIds.length > 0 && (
+                    <TouchableOpacity
+                      style={[styles.archiveButton, { borderColor: theme.text }]}
+                      onPress={() => archiveTasks(visibleCompletedIds)}
+                    >
+                      <Text style={[styles.archiveButtonText, { color: theme.text }]}>
+                        Archive {visibleCompletedIds.length} completed
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              }
             />
           )}
 
-          {/* Particle animation overlay */}
-          {particles.map((particle) => (
-            <Animated.View
-              key={particle.id}
-              style={[
-                styles.particle,
-                {
-                  backgroundColor: particle.color,
-                  transform: [
-                    { translateX: particle.x },
-                    { translateY: particle.y },
-                  ],
-                  opacity: particle.opacity,
-                },
-              ]}
+          {/* Batch actions replace the undo toast while selecting */}
+          {selecting ? (
+            <BatchActionBar
+              selectedCount={selectedTasks.length}
+              totalCount={visibleTasks.length}
+              onSelectAll={() => setSelectedIds(new Set(visibleTasks.map(task => task.id)))}
+              onCancel={clearSelection}
+              onComplete={(e) => setSelectedCompleted(true, e.nativeEvent.pageX, e.nativeEvent.pageY)}
+              onReopen={() => setSelectedCompleted(false)}
+              onDelete={deleteSelected}
+              onPriority={changeSelectedPriority}
+              priorityColors={PRIORITY_CONFIG}
+              accentColor={theme.accent}
             />
-          ))}
+          ) : (
+            <UndoToast notice={history.notice} onUndo={undoChange} accentColor={theme.accent} />
+          )}
+
+          {/* Particle animation overlay */}
+          {!modalVisible && particleOverlay}
 
           {/* Task detail modal */}
           <Modal
@@ -649,17 +1513,65 @@ export default function TaskManager() {
             visible={modalVisible}
             onRequestClose={closeModal}
           >
-            <View style={styles.modalOverlay}>
-              <View style={styles.modalContent}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>Task Details</Text>
-                  <TouchableOpacity onPress={closeModal} style={styles.closeButton}>
-                    <Text style={styles.closeButtonText}>✕</Text>
-                  </TouchableOpacity>
+            <View style={[styles.modalOverlay, { backgroundColor: theme.modal.overlay }]}>
+              <View style={[styles.modalContent, { backgroundColor: theme.modal.background }]}>
+                <View style={[styles.modalHeader, { borderBottomColor: theme.modal.border }]}>
+                  <Text style={[styles.modalTitle, { color: theme.modal.text }]}>{isEditing ? 'Edit Task' : 'Task Details'}</Text>
+                  <View style={styles.modalHeaderActions}>
+                    {selectedTask && !isEditing && (
+                      <TouchableOpacity onPress={() => startEditing(selectedTask)} style={[styles.editButton, { backgroundColor: theme.modal.surface }]}>
+                        <Text style={[styles.editButtonText, { color: theme.modal.accent }]}>Edit</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity onPress={closeModal} style={[styles.closeButton, { backgroundColor: theme.modal.surface }]}>
+                      <Text style={[styles.closeButtonText, { color: theme.modal.secondaryText }]}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
 
                 <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
-                  {selectedTask && (
+                  {selectedTask && isEditing && (
+                    <>
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Title</Text>
+                      <TextInput
+                        style={[styles.modalInput, { color: theme.modal.text, borderColor: theme.modal.border }]}
+                        value={editTitle}
+                        onChangeText={setEditTitle}
+                        placeholder="Task title..."
+                        placeholderTextColor={theme.modal.mutedText}
+                        autoFocus
+                        returnKeyType="next"
+                      />
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Description</Text>
+                      <TextInput
+                        style={[styles.modalInput, styles.modalInputMultiline, { color: theme.modal.text, borderColor: theme.modal.border }]}
+                        value={editDescription}
+                        onChangeText={setEditDescription}
+                        placeholder="Description (optional)..."
+                        placeholderTextColor={theme.modal.mutedText}
+                        multiline
+                      />
+
+                      <View style={styles.modalFooter}>
+                        <TouchableOpacity
+                          style={[styles.modalButton, { backgroundColor: '#10B981' }]}
+                          onPress={() => saveEdit(selectedTask.id)}
+                        >
+                          <Text style={styles.modalButtonText}>Save Changes</Text>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                          style={[styles.modalButton, { backgroundColor: '#A4B0BE' }]}
+                          onPress={cancelEditing}
+                        >
+                          <Text style={styles.modalButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </>
+                  )}
+
+                  {selectedTask && !isEditing && (
                     <>
                       <View style={[
                         styles.modalPriorityBadge, 
@@ -670,17 +1582,156 @@ export default function TaskManager() {
                         </Text>
                       </View>
 
-                      <Text style={styles.modalTaskTitle}>{selectedTask.title}</Text>
+                      <Text style={[styles.modalTaskTitle, { color: theme.modal.text }]}>{selectedTask.title}</Text>
+                      {selectedTask.updatedAt !== undefined && (
+                        <Text style={[styles.modalMeta, { color: theme.modal.mutedText }]}>
+                          Edited {new Date(selectedTask.updatedAt).toLocaleString()}
+                        </Text>
+                      )}
                       
                       {selectedTask.description !== '' ? (
                         <>
-                          <Text style={styles.modalSectionTitle}>Description</Text>
-                          <Text style={styles.modalDescription}>{selectedTask.description}</Text>
+                          <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Description</Text>
+                          <Text style={[styles.modalDescription, { color: theme.modal.text }]}>{selectedTask.description}</Text>
                         </>
                       ) : (
-                        <Text style={styles.modalNoDescription}>No description provided</Text>
+                        <Text style={[styles.modalNoDescription, { color: theme.modal.mutedText }]}>No description provided</Text>
+                      )}
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Due</Text>
+                      <View style={styles.modalDuePicker}>
+                        <DueDatePicker
+                          dueDate={selectedTask.dueDate}
+                          dueTime={selectedTask.dueTime}
+                          onChange={(dueDate, dueTime) => changeDue(selectedTask.id, dueDate, dueTime)}
+                          textColor={theme.modal.text}
+                          accentColor={theme.modal.accent}
+                        />
+                      </View>
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>List</Text>
+                      <View style={styles.modalLists}>
+                        {state.lists.map((list) => {
+                          const active = selectedTask.listId === list.id;
+                          return (
+                            <TouchableOpacity
+                              key={list.id}
+                              onPress={() => moveTaskToList(selectedTask.id, list.id)}
+                              style={[
+                                styles.modalListChip,
+                                { borderColor: list.color },
+                                active && { backgroundColor: list.color },
+                              ]}
+                            >
+                              <IconSymbol
+                                name={list.icon as IconSymbolName}
+                                size={14}
+                                color={active ? '#fff' : list.color}
+                              />
+                              <Text style={[styles.modalListChipText, { color: active ? '#fff' : theme.modal.text }]}>
+                                {list.name}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Assigned To</Text>
+                      <View style={styles.modalLists}>
+                        {[
+                          undefined,
+                          ...getAssignableMembers(team.members, team.me?.id ?? '', listsById[selectedTask.listId]),
+                        ].map((member) => {
+                          const active = selectedTask.assignee === member?.id;
+                          return (
+                            <TouchableOpacity
+                              key={member?.id ?? 'nobody'}
+                              onPress={() => assignTask(selectedTask.id, member?.id)}
+                              style={[
+                                styles.modalListChip,
+                                { borderColor: theme.modal.accent },
+                                active && { backgroundColor: theme.modal.accent },
+                              ]}
+                            >
+                              {member && <MemberAvatar member={member} size={18} />}
+                              <Text style={[styles.modalListChipText, { color: active ? '#fff' : theme.modal.text }]}>
+                                {member ? member.name : 'Nobody'}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                      {listsById[selectedTask.listId]?.memberIds === undefined && (
+                        <Text style={[styles.modalHint, { color: theme.modal.mutedText }]}>Share this list with teammates to assign them tasks.</Text>
                       )}
 
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Tags</Text>
+                      <View style={styles.modalTags}>
+                        <TagEditor
+                          tags={selectedTask.tags}
+                          knownTags={tagSummaries.map(summary => summary.name)}
+                          tagColors={state.tagColors}
+                          onChange={(tags) => changeTags(selectedTask.id, tags)}
+                          accentColor={theme.modal.accent}
+                        />
+                      </View>
+
+                      {/* Imported todo.txt data with no field of its own */}
+                      {(selectedTask.contexts || selectedTask.extensions) && (
+                        <>
+                          <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>todo.txt</Text>
+                          <Text style={[styles.modalDescription, { color: theme.modal.text }]}>
+                            {[
+                              ...(selectedTask.contexts ?? []).map(context => `@${context}`),
+                              ...Object.entries(selectedTask.extensions ?? {}).map(([key, value]) => `${key}:${value}`),
+                            ].join('  ')}
+                          </Text>
+                        </>
+                      )}
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Repeat</Text>
+                      <View style={styles.modalRecurrence}>
+                        <RecurrencePicker
+                          key={selectedTask.id}
+                          recurrence={selectedTask.recurrence}
+                          referenceDate={selectedTask.dueDate ?? toDateKey(new Date())}
+                          onChange={(recurrence) => changeRecurrence(selectedTask.id, recurrence)}
+                          accentColor={theme.modal.accent}
+                        />
+                      </View>
+
+                      {REMINDERS_SUPPORTED && (
+                        <>
+                          <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>Reminder</Text>
+                          <View style={styles.modalRecurrence}>
+                            <ReminderPicker
+                              reminder={selectedTask.reminder}
+                              dueDate={selectedTask.dueDate}
+                              dueTime={selectedTask.dueTime}
+                              onChange={(reminder) => changeReminder(selectedTask.id, reminder)}
+                              accentColor={theme.modal.accent}
+                            />
+                          </View>
+                        </>
+                      )}
+
+                      <Text style={[styles.modalSectionTitle, { color: theme.modal.secondaryText }]}>
+                        Checklist{selectedTask.subtasks.length > 0 &&
+                          ` (${getSubtaskProgress(selectedTask).done}/${selectedTask.subtasks.length})`}
+                      </Text>
+                      <View style={styles.modalSubtasks}>
+                        <SubtaskList
+                          subtasks={selectedTask.subtasks}
+                          accentColor={theme.modal.accent}
+                          onAdd={(title) => addSubtask(selectedTask.id, title)}
+                          onToggle={(subtaskId, e) =>
+                            toggleSubtask(selectedTask, subtaskId, e.nativeEvent.pageX, e.nativeEvent.pageY)
+                          }
+                          onMove={(subtaskId, offset) => moveSubtask(selectedTask.id, subtaskId, offset)}
+                          onDelete={(subtaskId) => removeSubtask(selectedTask.id, subtaskId)}
+                        />
+                      </View>
+
                       <View style={styles.modalFooter}>
                         <TouchableOpacity
                           style={[
@@ -711,8 +1762,34 @@ export default function TaskManager() {
                   )}
                 </ScrollView>
               </View>
+
+              {particleOverlay}
             </View>
           </Modal>
+
+          {/* List create/edit sheet */}
+          <ListEditorModal
+            visible={listEditorVisible}
+            list={editingList}
+            teammates={team.members.filter(member => member.id !== team.me?.id)}
+            onSave={saveList}
+            onDelete={deleteList}
+            onClose={closeListEditor}
+          />
+
+          {/* Import / export sheet */}
+          <TaskTransferModal
+            visible={transferVisible}
+            allTasks={tasks}
+            viewTasks={visibleTasks}
+            archivedTasks={state.archive}
+            trashedTasks={state.trash}
+            lists={state.lists}
+            defaultListId={activeListId === ALL_LISTS ? INBOX_LIST.id : activeListId}
+            colors={theme.modal}
+            onImport={importTasks}
+            onClose={() => setTransferVisible(false)}
+          />
         </KeyboardAvoidingView>
       </SafeAreaView>
     </LinearGradient>
@@ -728,22 +1805,65 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 20,
     paddingTop: 10,
   },
+  headerText: {
+    flex: 1,
+  },
+  historyButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  historyButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  historyButtonDisabled: {
+    opacity: 0.35,
+  },
+  historyButtonText: {
+    fontSize: 20,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  trashBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  trashBadgeText: {
+    fontSize: 10,
+    fontFamily: 'Montserrat_700Bold',
+  },
   title: {
     fontSize: 32,
     fontWeight: 'bold',
     marginBottom: 5,
     fontFamily: 'Montserrat_700Bold',
   },
+  subtitleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
   subtitle: {
     fontSize: 14,
     fontFamily: 'Montserrat_400Regular',
   },
   inputContainer: {
     padding: 15,
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
     marginHorizontal: 15,
     borderRadius: 15,
     marginBottom: 10,
@@ -757,6 +1877,22 @@ const styles = StyleSheet.create({
     fontFamily: 'Montserrat_600SemiBold',
     marginBottom: 6,
   },
+  quickAddPreview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 6,
+  },
+  quickAddChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  quickAddChipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
   inputDescription: {
     fontSize: 14,
     paddingVertical: 6,
@@ -777,6 +1913,24 @@ const styles = StyleSheet.create({
     height: 14,
     borderRadius: 7,
   },
+  inputButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  dueToggle: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  dueToggleText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  duePicker: {
+    marginTop: 12,
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -785,21 +1939,109 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   addButtonText: {
-    color: '#fff',
     fontSize: 24,
     fontWeight: '300',
     fontFamily: 'Montserrat_600SemiBold',
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 15,
+    gap: 8,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  viewToggle: {
+    width: 38,
+    height: 38,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  viewToggleText: {
+    fontSize: 18,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  viewToggleDot: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  completedSectionTitle: {
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  completedSectionContent: {
+    marginLeft: 0,
+    marginTop: 10,
+  },
+  archiveButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    opacity: 0.8,
+  },
+  archiveButtonText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  searchIcon: {
+    fontSize: 18,
+    marginRight: 6,
+    opacity: 0.6,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 8,
+    fontFamily: 'Montserrat_400Regular',
+  },
+  searchClear: {
+    padding: 4,
+  },
+  searchClearText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  searchHighlight: {
+    backgroundColor: 'rgba(255, 230, 109, 0.8)',
+    color: '#2D3436',
+  },
   listContent: {
     padding: 15,
   },
+  listContentSelecting: {
+    // Room to scroll the last rows above the batch action bar
+    paddingBottom: 140,
+  },
+  selectionCircle: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#A4B0BE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  taskRow: {
+    marginBottom: 10,
+  },
   taskContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.6)',
     padding: 15,
     borderRadius: 12,
-    marginBottom: 10,
     color: "#000",
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
@@ -847,8 +2089,15 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     opacity: 0.5,
   },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginBottom: 6,
+  },
   priorityContainer: {
     flexDirection: 'row',
+    alignItems: 'center',
     gap: 5,
   },
   priorityDot: {
@@ -856,6 +2105,43 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  dueBadge: {
+    marginLeft: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  listIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginLeft: 6,
+    maxWidth: 100,
+  },
+  listIndicatorText: {
+    fontSize: 11,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  recurrenceIndicator: {
+    marginLeft: 6,
+    fontSize: 12,
+    fontFamily: 'Montserrat_700Bold',
+    opacity: 0.7,
+  },
+  subtaskProgress: {
+    marginLeft: 6,
+    fontSize: 11,
+    fontFamily: 'Montserrat_600SemiBold',
+    opacity: 0.7,
+  },
+  assigneeAvatar: {
+    marginLeft: 'auto',
+  },
+  dueBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
   deleteButton: {
     width: 32,
     height: 32,
@@ -895,11 +2181,9 @@ const styles = StyleSheet.create({
   },
   modalOverlay: {
     flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
     justifyContent: 'flex-end',
   },
   modalContent: {
-    backgroundColor: '#fff',
     borderTopLeftRadius: 20,
     borderTopRightRadius: 20,
     maxHeight: '80%',
@@ -915,24 +2199,35 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
     borderBottomWidth: 1,
-    borderBottomColor: '#E5E7EB',
   },
   modalTitle: {
     fontSize: 20,
     fontFamily: 'Montserrat_700Bold',
-    color: '#1F2937',
+  },
+  modalHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  editButton: {
+    paddingHorizontal: 12,
+    height: 32,
+    justifyContent: 'center',
+    borderRadius: 16,
+  },
+  editButtonText: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
   },
   closeButton: {
     width: 32,
     height: 32,
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#F3F4F6',
     borderRadius: 16,
   },
   closeButtonText: {
     fontSize: 20,
-    color: '#6B7280',
     fontFamily: 'Montserrat_700Bold',
   },
   modalBody: {
@@ -953,30 +2248,82 @@ const styles = StyleSheet.create({
   modalTaskTitle: {
     fontSize: 24,
     fontFamily: 'Montserrat_700Bold',
-    color: '#1F2937',
     marginBottom: 16,
   },
+  modalMeta: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_400Regular',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  modalHint: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_400Regular',
+    marginTop: -16,
+    marginBottom: 24,
+  },
   modalSectionTitle: {
     fontSize: 14,
     fontFamily: 'Montserrat_600SemiBold',
-    color: '#6B7280',
     marginBottom: 8,
     textTransform: 'uppercase',
   },
   modalDescription: {
     fontSize: 16,
     fontFamily: 'Montserrat_400Regular',
-    color: '#374151',
     lineHeight: 24,
     marginBottom: 24,
   },
   modalNoDescription: {
     fontSize: 14,
     fontFamily: 'Montserrat_400Regular',
-    color: '#9CA3AF',
     fontStyle: 'italic',
     marginBottom: 24,
   },
+  modalInput: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_400Regular',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  modalInputMultiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  modalDuePicker: {
+    marginBottom: 24,
+  },
+  modalLists: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  modalListChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  modalListChipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  modalTags: {
+    marginBottom: 24,
+  },
+  modalRecurrence: {
+    marginBottom: 24,
+  },
+  modalSubtasks: {
+    marginBottom: 24,
+  },
   modalFooter: {
     gap: 12,
   },
@@ -0,0 +1,598 @@
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import {
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { MemberAvatar } from '@/components/member-avatar';
+import { ThemePreview } from '@/components/theme-preview';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useSettings } from '@/hooks/use-settings';
+import type { SyncControls } from '@/hooks/use-sync';
+import { useTaskSelector, useTaskStore } from '@/hooks/use-task-store';
+import { useTeam } from '@/hooks/use-team';
+import type { Member } from '@/types/task';
+import {
+  AUTO_ARCHIVE_OPTIONS,
+  PARTICLE_OPTIONS,
+  SHAKE_SENSITIVITY_OPTIONS,
+  SNOOZE_OPTIONS,
+  SWIPE_ACTION_OPTIONS,
+  TRASH_RETENTION_OPTIONS,
+  type AppSettings,
+} from '@/utils/settings';
+import { getSunPosition, getSunTimes, resolveSunLocation, type SunLocation } from '@/utils/solar';
+import { taskActions } from '@/utils/task-store';
+import { DEFAULT_THEME_KEY, getThemeDefinition, getThemes } from '@/utils/themes';
+
+const ACCENT = '#6366F1';
+
+type LeftSwipeAction = AppSettings['swipeLeft'][number];
+
+interface ChipOption<T extends string> {
+  key: T;
+  label: string;
+}
+
+/**
+ * Row of mutually exclusive chips
+ */
+function ChipGroup<T extends string>({
+  options,
+  isSelected,
+  onSelect,
+}: {
+  options: ChipOption<T>[];
+  isSelected: (key: T) => boolean;
+  onSelect: (key: T) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map(({ key, label }) => (
+        <TouchableOpacity
+          key={key}
+          onPress={() => onSelect(key)}
+          style={[styles.chip, isSelected(key) && styles.chipSelected]}
+        >
+          <Text style={[styles.chipText, isSelected(key) && styles.chipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Labelled switch row
+ */
+function SwitchRow({ label, value, onChange }: { label: string; value: boolean; onChange: (value: boolean) => void }) {
+  return (
+    <View style={styles.switchRow}>
+      <Text style={styles.label}>{label}</Text>
+      <Switch value={value} onValueChange={onChange} trackColor={{ true: ACCENT }} />
+    </View>
+  );
+}
+
+/**
+ * Asks before removing a teammate, which unassigns their tasks
+ */
+const confirmRemoval = (member: Member, onConfirm: () => void) => {
+  const message = `${member.name}'s tasks will be unassigned and lists stop being shared with them.`;
+  if (Platform.OS === 'web') {
+    if (window.confirm(message)) onConfirm();
+    return;
+  }
+
+  Alert.alert(`Remove ${member.name}?`, message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Remove', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+const formatClock = (date: Date): string => date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Plain-language sync state, e.g. "Synced 14:02" or "3 changes waiting"
+ */
+const describeSync = ({ status, syncing, pendingCount, lastSyncedAt, error }: SyncControls): string => {
+  if (syncing) return 'Syncing…';
+  switch (status) {
+    case 'off':
+      return 'Off: tasks stay on this device';
+    case 'error':
+      return `Couldn't sync: ${error}`;
+    case 'pending':
+      return `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to upload`;
+    case 'synced':
+      return lastSyncedAt
+        ? `Synced ${formatClock(new Date(lastSyncedAt))}`
+        : 'Up to date';
+  }
+};
+
+/**
+ * Today's sunrise and sunset at `location`, e.g. "Sunrise 07:12 · Sunset 18:03 in Berlin"
+ */
+const describeSun = (location: SunLocation): string => {
+  const { solarNoon, sunrise, sunset } = getSunTimes(new Date(), location);
+  if (sunrise && sunset) return `Sunrise ${formatClock(sunrise)} · Sunset ${formatClock(sunset)} in ${location.label}`;
+  return getSunPosition(solarNoon, location).altitude > 0
+    ? `The sun doesn't set today in ${location.label}`
+    : `The sun doesn't rise today in ${location.label}`;
+};
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+  const trashCount = useTaskSelector((state) => state.trash.length);
+  const archiveCount = useTaskSelector((state) => state.archive.length);
+  const { dispatch, sync } = useTaskStore();
+  const team = useTeam();
+  const colorScheme = useColorScheme() === 'dark' ? 'dark' : 'light';
+  const selectedTheme = getThemeDefinition(settings.theme);
+  const sunLocation = resolveSunLocation(settings.sunLocation);
+  const [inviteName, setInviteName] = useState('');
+  const [teamError, setTeamError] = useState<string>();
+  // Edited as drafts so sync doesn't restart on every keystroke
+  const [serverDraft, setServerDraft] = useState<string>();
+  const [tokenDraft, setTokenDraft] = useState<string>();
+  const serverUrl = serverDraft ?? settings.syncServerUrl;
+  const token = tokenDraft ?? settings.syncToken;
+  const [locationDraft, setLocationDraft] = useState<string>();
+  const syncEdited = serverUrl.trim() !== settings.syncServerUrl || token.trim() !== settings.syncToken;
+
+  const inviteMember = () => {
+    team
+      .invite(inviteName)
+      .then(() => {
+        setInviteName('');
+        setTeamError(undefined);
+      })
+      .catch((error) => setTeamError(error instanceof Error ? error.message : String(error)));
+  };
+
+  const removeMember = (member: Member) =>
+    confirmRemoval(member, () =>
+      team
+        .remove(member.id)
+        .then(() => dispatch(taskActions.removeMember(member.id)))
+        .catch((error) => setTeamError(error instanceof Error ? error.message : String(error)))
+    );
+
+  const saveSunLocation = () => {
+    if (locationDraft === undefined) return;
+    updateSettings({ sunLocation: locationDraft.trim() });
+    setLocationDraft(undefined);
+  };
+
+  const saveSyncServer = () => {
+    updateSettings({ syncServerUrl: serverUrl.trim(), syncToken: token.trim() });
+    setServerDraft(undefined);
+    setTokenDraft(undefined);
+  };
+
+  // Buttons keep the order they were switched on in, so the last one is outermost
+  const toggleLeftAction = (action: LeftSwipeAction) =>
+    updateSettings({
+      swipeLeft: settings.swipeLeft.includes(action)
+        ? settings.swipeLeft.filter((a) => a !== action)
+        : [...settings.swipeLeft, action],
+    });
+
+  const outermost = SWIPE_ACTION_OPTIONS.find(
+    (option) => option.key === settings.swipeLeft[settings.swipeLeft.length - 1]
+  );
+
+  return (
+    <LinearGradient colors={['#6366f1', '#8b5cf6', '#d946ef']} style={styles.container}>
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={styles.title}>Settings</Text>
+
+          {/* Appearance */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Appearance</Text>
+            <View style={styles.themes}>
+              {getThemes().map((definition) => (
+                <ThemePreview
+                  key={definition.key}
+                  theme={definition.resolve({ now: new Date(), colorScheme, location: sunLocation, smooth: settings.smoothThemes })}
+                  label={definition.label}
+                  selected={definition.key === selectedTheme.key}
+                  onPress={() => updateSettings({ theme: definition.key })}
+                />
+              ))}
+            </View>
+            <Text style={styles.hint}>{selectedTheme.description}</Text>
+            {selectedTheme.key === DEFAULT_THEME_KEY && (
+              <>
+                <Text style={styles.label}>Location</Text>
+                <TextInput
+                  style={styles.input}
+                  value={locationDraft ?? settings.sunLocation}
+                  onChangeText={setLocationDraft}
+                  onEndEditing={saveSunLocation}
+                  onSubmitEditing={saveSunLocation}
+                  placeholder="Device time zone"
+                  placeholderTextColor="#9CA3AF"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                />
+                {locationDraft === undefined && (
+                  <Text style={[styles.hint, !sunLocation && styles.error]}>
+                    {sunLocation
+                      ? describeSun(sunLocation)
+                      : settings.sunLocation
+                        ? `Couldn't find ${settings.sunLocation}; palettes change at 6, 12, 18 and 22.`
+                        : 'Enter a location; until then palettes change at 6, 12, 18 and 22.'}
+                  </Text>
+                )}
+                <Text style={styles.hint}>
+                  A city, a time zone like Europe/Berlin, or coordinates like 52.5, 13.4. Worked out on the device.
+                </Text>
+                <SwitchRow
+                  label="Blend palettes gradually"
+                  value={settings.smoothThemes}
+                  onChange={(smoothThemes) => updateSettings({ smoothThemes })}
+                />
+              </>
+            )}
+          </View>
+
+          {/* Effects */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Effects</Text>
+            <SwitchRow
+              label="Haptic feedback"
+              value={settings.haptics}
+              onChange={(haptics) => updateSettings({ haptics })}
+            />
+
+            <Text style={styles.label}>Particles on completion</Text>
+            <ChipGroup
+              options={PARTICLE_OPTIONS}
+              isSelected={(key) =>
+                PARTICLE_OPTIONS.find((option) => option.key === key)?.count === settings.particleCount
+              }
+              onSelect={(key) =>
+                updateSettings({
+                  particleCount:
+                    PARTICLE_OPTIONS.find((option) => option.key === key)?.count ?? settings.particleCount,
+                })
+              }
+            />
+
+            <SwitchRow
+              label="Shake to shuffle"
+              value={settings.shakeToShuffle}
+              onChange={(shakeToShuffle) => updateSettings({ shakeToShuffle })}
+            />
+            {settings.shakeToShuffle && (
+              <>
+                <Text style={styles.label}>Shake sensitivity</Text>
+                <ChipGroup
+                  options={SHAKE_SENSITIVITY_OPTIONS}
+                  isSelected={(key) => settings.shakeSensitivity === key}
+                  onSelect={(shakeSensitivity) => updateSettings({ shakeSensitivity })}
+                />
+              </>
+            )}
+            <Text style={styles.hint}>Haptics and shaking only work on phones and tablets.</Text>
+          </View>
+
+          {/* Swipe gestures */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Swipe Gestures</Text>
+            <SwitchRow
+              label="Swipe task rows"
+              value={settings.swipeEnabled}
+              onChange={(swipeEnabled) => updateSettings({ swipeEnabled })}
+            />
+
+            {settings.swipeEnabled && (
+              <>
+                <Text style={styles.label}>Swipe right</Text>
+                <ChipGroup
+                  options={SWIPE_ACTION_OPTIONS}
+                  isSelected={(key) => settings.swipeRight === key}
+                  onSelect={(swipeRight) => updateSettings({ swipeRight })}
+                />
+
+                <Text style={styles.label}>Swipe left reveals</Text>
+                <ChipGroup
+                  options={SWIPE_ACTION_OPTIONS.filter(
+                    (option): option is ChipOption<LeftSwipeAction> => option.key !== 'none'
+                  )}
+                  isSelected={(key) => settings.swipeLeft.includes(key)}
+                  onSelect={toggleLeftAction}
+                />
+
+                <SwitchRow
+                  label="Full swipe left"
+                  value={settings.fullSwipe}
+                  onChange={(fullSwipe) => updateSettings({ fullSwipe })}
+                />
+                {settings.fullSwipe && outermost && (
+                  <Text style={styles.hint}>Swiping most of the way across runs {outermost.label}.</Text>
+                )}
+              </>
+            )}
+          </View>
+
+          {/* Tasks */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Tasks</Text>
+            <SwitchRow
+              label="Confirm before deleting"
+              value={settings.confirmDelete}
+              onChange={(confirmDelete) => updateSettings({ confirmDelete })}
+            />
+            {!settings.confirmDelete && (
+              <Text style={styles.hint}>Deleted tasks can be restored with Undo or from the Trash.</Text>
+            )}
+
+            <Text style={styles.label}>Empty trash automatically after</Text>
+            <ChipGroup
+              options={TRASH_RETENTION_OPTIONS}
+              isSelected={(key) =>
+                TRASH_RETENTION_OPTIONS.find((option) => option.key === key)?.days === settings.trashRetentionDays
+              }
+              onSelect={(key) =>
+                updateSettings({
+                  trashRetentionDays:
+                    TRASH_RETENTION_OPTIONS.find((option) => option.key === key)?.days ?? settings.trashRetentionDays,
+                })
+              }
+            />
+            <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/trash')}>
+              <Text style={styles.label}>Open Trash</Text>
+              <Text style={styles.hint}>{trashCount} ›</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.label}>Archive completed tasks after</Text>
+            <ChipGroup
+              options={AUTO_ARCHIVE_OPTIONS}
+              isSelected={(key) =>
+                AUTO_ARCHIVE_OPTIONS.find((option) => option.key === key)?.days === settings.autoArchiveDays
+              }
+              onSelect={(key) =>
+                updateSettings({
+                  autoArchiveDays:
+                    AUTO_ARCHIVE_OPTIONS.find((option) => option.key === key)?.days ?? settings.autoArchiveDays,
+                })
+              }
+            />
+            <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/history')}>
+              <Text style={styles.label}>Completed History</Text>
+              <Text style={styles.hint}>{archiveCount} archived ›</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Snooze */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Snooze</Text>
+            <Text style={styles.label}>Push the due date back by</Text>
+            <ChipGroup
+              options={SNOOZE_OPTIONS}
+              isSelected={(key) => settings.snoozeBy === key}
+              onSelect={(snoozeBy) => updateSettings({ snoozeBy })}
+            />
+          </View>
+
+          {/* Team */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Team</Text>
+            {!team.loaded && <Text style={styles.hint}>Loading team…</Text>}
+            {team.members.map((member) => (
+              <View key={member.id} style={styles.memberRow}>
+                <MemberAvatar member={member} size={28} />
+                <Text style={[styles.label, styles.memberName]}>{member.name}</Text>
+                {member.id !== team.me?.id && (
+                  <TouchableOpacity onPress={() => removeMember(member)} accessibilityLabel={`Remove ${member.name}`}>
+                    <Text style={styles.hint}>Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            <View style={styles.memberRow}>
+              <TextInput
+                style={[styles.input, styles.memberName]}
+                value={inviteName}
+                onChangeText={setInviteName}
+                onSubmitEditing={inviteMember}
+                placeholder="Teammate's name"
+                placeholderTextColor="#9CA3AF"
+                returnKeyType="done"
+              />
+              <TouchableOpacity
+                style={[styles.button, styles.inviteButton, !inviteName.trim() && styles.buttonDisabled]}
+                onPress={inviteMember}
+                disabled={!inviteName.trim()}
+              >
+                <Text style={styles.buttonText}>Invite</Text>
+              </TouchableOpacity>
+            </View>
+            {teamError && <Text style={[styles.hint, styles.error]}>{teamError}</Text>}
+            <Text style={styles.hint}>Share a list with teammates from its editor to assign them tasks.</Text>
+          </View>
+
+          {/* Sync */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Sync</Text>
+            <Text style={styles.label}>Server URL</Text>
+            <TextInput
+              style={styles.input}
+              value={serverUrl}
+              onChangeText={setServerDraft}
+              placeholder="http://192.168.1.20:8787"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Text style={styles.label}>Access token</Text>
+            <TextInput
+              style={styles.input}
+              value={token}
+              onChangeText={setTokenDraft}
+              placeholder="Optional"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            {syncEdited ? (
+              <TouchableOpacity style={styles.button} onPress={saveSyncServer}>
+                <Text style={styles.buttonText}>{serverUrl.trim() ? 'Connect' : 'Turn Off Sync'}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={sync.syncNow}
+                disabled={sync.status === 'off' || sync.syncing}
+              >
+                <Text style={[styles.hint, sync.status === 'error' && styles.error]}>{describeSync(sync)}</Text>
+                {sync.status !== 'off' && <Text style={styles.label}>Sync Now</Text>}
+              </TouchableOpacity>
+            )}
+            <Text style={styles.hint}>
+              Start a server with npm run sync-server on any machine your devices can reach. Changes made offline
+              upload once it&apos;s reachable again.
+            </Text>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Montserrat_700Bold',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Montserrat_700Bold',
+    color: '#1F2937',
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#1F2937',
+  },
+  hint: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  error: {
+    color: '#EF4444',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+  },
+  button: {
+    backgroundColor: ACCENT,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  inviteButton: {
+    paddingHorizontal: 16,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  memberName: {
+    flex: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#fff',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  themes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipSelected: {
+    backgroundColor: ACCENT,
+    borderColor: ACCENT,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#6B7280',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
@@ -1,9 +1,14 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { SettingsProvider } from '@/hooks/use-settings';
+import { TaskStoreProvider } from '@/hooks/use-task-store';
+import { TeamProvider } from '@/hooks/use-team';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -13,12 +18,29 @@ export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={styles.root}>
+      <SettingsProvider>
+        <TaskStoreProvider>
+          <TeamProvider>
+            <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+              <Stack>
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+                <Stack.Screen name="tags" options={{ title: 'Tags' }} />
+                <Stack.Screen name="trash" options={{ title: 'Trash' }} />
+                <Stack.Screen name="history" options={{ title: 'Completed' }} />
+              </Stack>
+              <StatusBar style="auto" />
+            </ThemeProvider>
+          </TeamProvider>
+        </TaskStoreProvider>
+      </SettingsProvider>
+    </GestureHandlerRootView>
   );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,189 @@
+import { useMemo } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { usePersistedState } from '@/hooks/use-persisted-state';
+import { useTaskStore } from '@/hooks/use-task-store';
+import { groupCompletedTasks, HISTORY_PERIOD_OPTIONS, type HistoryPeriod } from '@/utils/completion-history';
+import { toTimeKey } from '@/utils/due-date';
+import { taskActions } from '@/utils/task-store';
+
+const ACCENT = '#6366F1';
+
+/**
+ * When a task was completed: the time for daily groups, plus the weekday for weekly ones
+ */
+const formatCompletedAt = (completedAt: number, period: HistoryPeriod): string => {
+  const date = new Date(completedAt);
+  const time = toTimeKey(date);
+  return period === 'day' ? time : `${date.toLocaleDateString(undefined, { weekday: 'short' })} ${time}`;
+};
+
+export default function HistoryScreen() {
+  const { state, dispatch } = useTaskStore();
+  const [{ period }, setHistoryView] = usePersistedState<{ period: HistoryPeriod }>('history', { period: 'day' });
+
+  // Completed tasks still in the list count too, not just archived ones
+  const groups = useMemo(
+    () => groupCompletedTasks([...state.tasks, ...state.archive], period),
+    [state.tasks, state.archive, period]
+  );
+
+  const listName = (listId: string) => state.lists.find((list) => list.id === listId)?.name;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.chips}>
+        {HISTORY_PERIOD_OPTIONS.map(({ key, label }) => (
+          <TouchableOpacity
+            key={key}
+            onPress={() => setHistoryView({ period: key })}
+            style={[styles.chip, period === key && styles.chipSelected]}
+          >
+            <Text style={[styles.chipText, period === key && styles.chipTextSelected]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {groups.length === 0 && (
+        <Text style={styles.empty}>Nothing completed yet. Finished tasks show up here, grouped by when you did them.</Text>
+      )}
+
+      {groups.map((group) => (
+        <View key={group.key} style={styles.group}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>{group.label}</Text>
+            <Text style={styles.groupCount}>
+              {group.tasks.length} {group.tasks.length === 1 ? 'task' : 'tasks'}
+            </Text>
+          </View>
+
+          {group.tasks.map((task) => (
+            <View key={task.id} style={styles.card}>
+              <View style={styles.cardText}>
+                <Text style={styles.title} numberOfLines={2}>
+                  {task.title}
+                </Text>
+                <Text style={styles.meta}>
+                  {[
+                    listName(task.listId),
+                    task.completedAt !== undefined && formatCompletedAt(task.completedAt, period),
+                    task.archivedAt !== undefined && 'Archived',
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Text>
+              </View>
+
+              {task.archivedAt !== undefined && (
+                <TouchableOpacity style={styles.restoreButton} onPress={() => dispatch(taskActions.unarchive(task.id))}>
+                  <Text style={styles.restoreButtonText}>Restore</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: ACCENT,
+    borderColor: ACCENT,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#6B7280',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  empty: {
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    fontSize: 18,
+    fontFamily: 'Montserrat_700Bold',
+    color: '#1F2937',
+  },
+  groupCount: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  cardText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#1F2937',
+  },
+  meta: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  restoreButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+    backgroundColor: '#10B981',
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
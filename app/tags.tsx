@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Alert, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { TagChip } from '@/components/tag-chip';
+import { TAG_COLORS } from '@/constants/tags';
+import { useTaskStore } from '@/hooks/use-task-store';
+import { getTagColor, normalizeTag } from '@/utils/tags';
+import { selectTagSummaries, taskActions } from '@/utils/task-store';
+
+/**
+ * Asks before an action that folds one tag into another
+ */
+const confirmMerge = (source: string, target: string, onConfirm: () => void) => {
+  const message = `Merge #${source} into #${target}? Every task tagged #${source} will be retagged.`;
+
+  if (Platform.OS === 'web') {
+    if (window.confirm(message)) onConfirm();
+    return;
+  }
+
+  Alert.alert('Merge Tags', message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Merge', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+export default function TagManagerScreen() {
+  const { state, dispatch } = useTaskStore();
+  const tags = selectTagSummaries(state);
+
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [mergingTag, setMergingTag] = useState<string | null>(null);
+
+  const rename = (tag: string) => {
+    const target = normalizeTag(names[tag] ?? tag);
+    if (target === '' || target === tag) return;
+
+    const apply = () => {
+      dispatch(taskActions.renameTag(tag, target));
+      setNames(({ [tag]: _, ...rest }) => rest);
+    };
+
+    // Renaming onto an existing tag is a merge
+    if (tags.some((summary) => summary.name === target)) {
+      confirmMerge(tag, target, apply);
+    } else {
+      apply();
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {tags.length === 0 && (
+        <Text style={styles.empty}>No tags yet. Add #tags to a task title or in the task details.</Text>
+      )}
+
+      {tags.map(({ name, count }) => {
+        const color = getTagColor(name, state.tagColors);
+        const draft = names[name] ?? name;
+
+        return (
+          <View key={name} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <TagChip tag={name} color={color} />
+              <Text style={styles.count}>
+                {count} {count === 1 ? 'task' : 'tasks'}
+              </Text>
+            </View>
+
+            {/* Rename */}
+            <View style={styles.row}>
+              <TextInput
+                style={styles.input}
+                value={draft}
+                onChangeText={(value) => setNames((current) => ({ ...current, [name]: value }))}
+                onSubmitEditing={() => rename(name)}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: color, opacity: normalizeTag(draft) === name ? 0.4 : 1 }]}
+                disabled={normalizeTag(draft) === name}
+                onPress={() => rename(name)}
+              >
+                <Text style={styles.buttonText}>Rename</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Recolour */}
+            <View style={styles.swatches}>
+              {TAG_COLORS.map((swatch) => (
+                <TouchableOpacity
+                  key={swatch}
+                  onPress={() => dispatch(taskActions.recolourTag(name, swatch))}
+                  style={[styles.swatch, { backgroundColor: swatch }, color === swatch && styles.swatchSelected]}
+                />
+              ))}
+            </View>
+
+            {/* Merge */}
+            {tags.length > 1 && (
+              <TouchableOpacity onPress={() => setMergingTag(mergingTag === name ? null : name)}>
+                <Text style={[styles.mergeToggle, { color }]}>
+                  {mergingTag === name ? 'Cancel merge' : 'Merge into another tag…'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {mergingTag === name && (
+              <View style={styles.swatches}>
+                {tags
+                  .filter((other) => other.name !== name)
+                  .map((other) => (
+                    <TagChip
+                      key={other.name}
+                      tag={other.name}
+                      color={getTagColor(other.name, state.tagColors)}
+                      filled={false}
+                      onPress={() =>
+                        confirmMerge(name, other.name, () => {
+                          dispatch(taskActions.mergeTags([name], other.name));
+                          setMergingTag(null);
+                        })
+                      }
+                    />
+                  ))}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  empty: {
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  count: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#1F2937',
+  },
+  mergeToggle: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,169 @@
+import { Alert, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useSettings } from '@/hooks/use-settings';
+import { useTaskStore } from '@/hooks/use-task-store';
+import { taskActions } from '@/utils/task-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Asks before an irreversible purge
+ */
+const confirmPurge = (title: string, message: string, onConfirm: () => void) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(message)) onConfirm();
+    return;
+  }
+
+  Alert.alert(title, message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Delete', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+/**
+ * "Deleted today", "Deleted 3 days ago", plus when it will be purged
+ */
+const describeDeletion = (deletedAt: number, retentionDays: number, now: number): string => {
+  const days = Math.floor((now - deletedAt) / DAY_MS);
+  const age = days === 0 ? 'Deleted today' : days === 1 ? 'Deleted yesterday' : `Deleted ${days} days ago`;
+  if (retentionDays === 0) return age;
+
+  const left = Math.max(retentionDays - days, 0);
+  return `${age} · purged ${left <= 1 ? 'within a day' : `in ${left} days`}`;
+};
+
+export default function TrashScreen() {
+  const { state, dispatch } = useTaskStore();
+  const { settings } = useSettings();
+  const { trash } = state;
+  const now = Date.now();
+
+  const listName = (listId: string) => state.lists.find((list) => list.id === listId)?.name;
+
+  const emptyTrash = () =>
+    confirmPurge(
+      'Empty Trash',
+      `Permanently delete ${trash.length} ${trash.length === 1 ? 'task' : 'tasks'}?`,
+      () => dispatch(taskActions.purge(trash.map((task) => task.id)))
+    );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {trash.length === 0 ? (
+        <Text style={styles.empty}>Trash is empty. Deleted tasks stay here until restored or purged.</Text>
+      ) : (
+        <TouchableOpacity style={styles.emptyButton} onPress={emptyTrash}>
+          <Text style={styles.emptyButtonText}>Empty Trash</Text>
+        </TouchableOpacity>
+      )}
+
+      {trash.map((task) => (
+        <View key={task.id} style={styles.card}>
+          <Text style={styles.title} numberOfLines={2}>
+            {task.title}
+          </Text>
+          <Text style={styles.meta}>
+            {[listName(task.listId), describeDeletion(task.deletedAt ?? now, settings.trashRetentionDays, now)]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.restoreButton]}
+              onPress={() => dispatch(taskActions.restore(task.id))}
+            >
+              <Text style={styles.buttonText}>Restore</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.purgeButton]}
+              onPress={() =>
+                confirmPurge('Delete Forever', `Permanently delete "${task.title}"?`, () =>
+                  dispatch(taskActions.purge([task.id]))
+                )
+              }
+            >
+              <Text style={styles.buttonText}>Delete Forever</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  empty: {
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  emptyButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    marginBottom: 12,
+  },
+  emptyButtonText: {
+    color: '#EF4444',
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    gap: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#1F2937',
+  },
+  meta: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+  },
+  restoreButton: {
+    backgroundColor: '#10B981',
+  },
+  purgeButton: {
+    backgroundColor: '#EF4444',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,142 @@
+import { StyleSheet, Text, TouchableOpacity, View, type GestureResponderEvent } from 'react-native';
+
+import type { Priority } from '@/types/task';
+
+const PRIORITY_OPTIONS: Priority[] = ['low', 'normal', 'high', 'urgent'];
+
+interface BatchActionBarProps {
+  selectedCount: number;
+  /** Number of tasks that could be selected */
+  totalCount: number;
+  onSelectAll: () => void;
+  onCancel: () => void;
+  onComplete: (event: GestureResponderEvent) => void;
+  onReopen: () => void;
+  onDelete: () => void;
+  onPriority: (priority: Priority) => void;
+  priorityColors: Record<Priority, { color: string }>;
+  accentColor: string;
+}
+
+/**
+ * Actions applied to every selected task at once
+ */
+export function BatchActionBar({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onCancel,
+  onComplete,
+  onReopen,
+  onDelete,
+  onPriority,
+  priorityColors,
+  accentColor,
+}: BatchActionBarProps) {
+  const disabled = selectedCount === 0;
+
+  return (
+    <View style={styles.bar}>
+      <View style={styles.row}>
+        <Text style={styles.count}>{selectedCount} selected</Text>
+        {selectedCount < totalCount && (
+          <TouchableOpacity onPress={onSelectAll} hitSlop={8}>
+            <Text style={[styles.link, { color: accentColor }]}>Select all</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onCancel} hitSlop={8} accessibilityLabel="Cancel selection">
+          <Text style={styles.cancel}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.row, disabled && styles.disabled]} pointerEvents={disabled ? 'none' : 'auto'}>
+        <TouchableOpacity style={[styles.action, { backgroundColor: accentColor }]} onPress={onComplete}>
+          <Text style={styles.actionText}>✓ Complete</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={onReopen}>
+          <Text style={styles.actionText}>↺ Reopen</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.action, styles.deleteAction]} onPress={onDelete}>
+          <Text style={styles.actionText}>Delete</Text>
+        </TouchableOpacity>
+
+        <View style={styles.priorities}>
+          {PRIORITY_OPTIONS.map((priority) => (
+            <TouchableOpacity
+              key={priority}
+              onPress={() => onPriority(priority)}
+              accessibilityLabel={`Set priority to ${priority}`}
+              hitSlop={4}
+              style={[styles.priorityDot, { backgroundColor: priorityColors[priority].color }]}
+            />
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    gap: 10,
+    backgroundColor: '#1F2937',
+    borderRadius: 16,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  count: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  link: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  cancel: {
+    color: '#fff',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  action: {
+    paddingHorizontal: 10,
+    paddingVertical: 7,
+    borderRadius: 10,
+    backgroundColor: '#374151',
+  },
+  deleteAction: {
+    backgroundColor: '#EF4444',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  priorities: {
+    flexDirection: 'row',
+    gap: 6,
+    marginLeft: 'auto',
+  },
+  priorityDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+});
@@ -0,0 +1,258 @@
+import { createContext, useCallback, useContext, useLayoutEffect, useMemo, useState, type ReactElement } from 'react';
+import {
+  FlatList,
+  StyleSheet,
+  Text,
+  View,
+  type CellRendererProps,
+  type FlatListProps,
+  type LayoutChangeEvent,
+} from 'react-native';
+import { Gesture, GestureDetector, type GestureType } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming, type SharedValue } from 'react-native-reanimated';
+import { scheduleOnRN } from 'react-native-worklets';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Inclusive index range a row may be dropped within
+ */
+export type DragBounds = [number, number];
+
+type DraggableListProps<T> = Omit<FlatListProps<T>, 'CellRendererComponent' | 'keyExtractor'> & {
+  keyExtractor: (item: T) => string;
+  onReorder: (from: number, to: number) => void;
+  /** Where the row at `index` may move, or null when it can't be dragged */
+  getDragBounds?: (index: number) => DragBounds | null;
+  onDragStart?: () => void;
+};
+
+interface DragState {
+  keys: SharedValue<string[]>;
+  heights: SharedValue<Record<string, number>>;
+  /** Index of the dragged row, -1 when idle */
+  activeIndex: SharedValue<number>;
+  targetIndex: SharedValue<number>;
+  dragY: SharedValue<number>;
+  getDragBounds?: (index: number) => DragBounds | null;
+  onDragStart: () => void;
+  onDrop: (from: number, to: number) => void;
+}
+
+const DROP_DURATION = 150;
+
+const DragStateContext = createContext<DragState | null>(null);
+
+/** Gesture for the handle of the row being rendered, if it can be dragged */
+const DragGestureContext = createContext<GestureType | null>(null);
+
+// ============================================================================
+// Cell
+// ============================================================================
+
+/**
+ * Wraps each FlatList cell so the whole row moves and stays above its
+ * neighbours while dragged
+ */
+function DraggableCell<T>({ cellKey, index, children, style, onLayout, ...rest }: CellRendererProps<T>) {
+  const drag = useContext(DragStateContext);
+  if (!drag) throw new Error('DraggableCell must be rendered by DraggableList');
+
+  const { keys, heights, activeIndex, targetIndex, dragY, getDragBounds, onDragStart, onDrop } = drag;
+  const [min, max] = getDragBounds?.(index) ?? [-1, -1];
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    onLayout?.(event);
+    const { height } = event.nativeEvent.layout;
+    heights.value = { ...heights.value, [cellKey]: height };
+  };
+
+  const gesture = useMemo(() => {
+    if (min === -1) return null;
+
+    return Gesture.Pan()
+      .activateAfterLongPress(250)
+      .onStart(() => {
+        activeIndex.value = index;
+        targetIndex.value = index;
+        dragY.value = 0;
+        scheduleOnRN(onDragStart);
+      })
+      .onUpdate((event) => {
+        dragY.value = event.translationY;
+
+        // The row lands where its centre crosses its neighbours' centres
+        const rowKeys = keys.value;
+        let top = 0;
+        let draggedCenter = 0;
+        const centers: number[] = [];
+        for (let i = 0; i < rowKeys.length; i++) {
+          const height = heights.value[rowKeys[i]] ?? 0;
+          if (i === index) draggedCenter = top + height / 2 + event.translationY;
+          centers.push(top + height / 2);
+          top += height;
+        }
+
+        let target = 0;
+        for (let i = 0; i < centers.length; i++) {
+          if (i !== index && centers[i] < draggedCenter) target++;
+        }
+        targetIndex.value = Math.min(Math.max(target, min), max);
+      })
+      .onEnd(() => {
+        // Settle onto the target slot before handing the new order to React
+        const from = activeIndex.value;
+        const to = targetIndex.value;
+        const rowKeys = keys.value;
+        let offset = 0;
+        for (let i = Math.min(from, to); i <= Math.max(from, to); i++) {
+          if (i !== from) offset += heights.value[rowKeys[i]] ?? 0;
+        }
+
+        dragY.value = withTiming(to > from ? offset : -offset, { duration: DROP_DURATION }, (finished) => {
+          if (finished) scheduleOnRN(onDrop, from, to);
+        });
+      })
+      .onFinalize((_event, success) => {
+        // Cancelled before activating or interrupted mid-drag
+        if (!success && activeIndex.value === index) {
+          scheduleOnRN(onDrop, index, index);
+        }
+      });
+  }, [min, max, index, keys, heights, activeIndex, targetIndex, dragY, onDragStart, onDrop]);
+
+  const animatedStyle = useAnimatedStyle(() => {
+    const active = activeIndex.value;
+    if (active === -1) {
+      return { zIndex: 0, transform: [{ translateY: 0 }, { scale: 1 }] };
+    }
+    if (active === index) {
+      return { zIndex: 1, transform: [{ translateY: dragY.value }, { scale: 1.02 }] };
+    }
+
+    // Neighbours between the start and the target make room for the dragged row
+    const target = targetIndex.value;
+    const draggedHeight = heights.value[keys.value[active]] ?? 0;
+    let shift = 0;
+    if (active < target && index > active && index <= target) shift = -draggedHeight;
+    if (active > target && index >= target && index < active) shift = draggedHeight;
+
+    return {
+      zIndex: 0,
+      transform: [{ translateY: withTiming(shift, { duration: DROP_DURATION }) }, { scale: 1 }],
+    };
+  });
+
+  return (
+    <Animated.View {...rest} style={[style, animatedStyle]} onLayout={handleLayout}>
+      <DragGestureContext.Provider value={gesture}>{children}</DragGestureContext.Provider>
+    </Animated.View>
+  );
+}
+
+// ============================================================================
+// Public components
+// ============================================================================
+
+/**
+ * FlatList whose rows can be rearranged by long-pressing their `DragHandle`
+ */
+export function DraggableList<T>({
+  data,
+  keyExtractor,
+  onReorder,
+  getDragBounds,
+  onDragStart,
+  ...rest
+}: DraggableListProps<T>) {
+  const [dragging, setDragging] = useState(false);
+
+  const keys = useSharedValue<string[]>([]);
+  const heights = useSharedValue<Record<string, number>>({});
+  const activeIndex = useSharedValue(-1);
+  const targetIndex = useSharedValue(-1);
+  const dragY = useSharedValue(0);
+
+  // New data means any drop has been applied, so rows can return to rest
+  useLayoutEffect(() => {
+    keys.value = Array.from(data ?? [], (item) => keyExtractor(item));
+    activeIndex.value = -1;
+    dragY.value = 0;
+  }, [data, keyExtractor, keys, activeIndex, dragY]);
+
+  const handleDragStart = useCallback(() => {
+    setDragging(true);
+    onDragStart?.();
+  }, [onDragStart]);
+
+  const handleDrop = useCallback(
+    (from: number, to: number) => {
+      setDragging(false);
+      if (from === to) {
+        activeIndex.value = -1;
+        dragY.value = 0;
+        return;
+      }
+      onReorder(from, to);
+    },
+    [onReorder, activeIndex, dragY]
+  );
+
+  const dragState = useMemo<DragState>(
+    () => ({
+      keys,
+      heights,
+      activeIndex,
+      targetIndex,
+      dragY,
+      getDragBounds,
+      onDragStart: handleDragStart,
+      onDrop: handleDrop,
+    }),
+    [keys, heights, activeIndex, targetIndex, dragY, getDragBounds, handleDragStart, handleDrop]
+  );
+
+  return (
+    <DragStateContext.Provider value={dragState}>
+      <FlatList
+        {...rest}
+        data={data}
+        keyExtractor={keyExtractor}
+        CellRendererComponent={DraggableCell}
+        scrollEnabled={!dragging && rest.scrollEnabled !== false}
+      />
+    </DragStateContext.Provider>
+  );
+}
+
+/**
+ * Grip that starts a drag on long press; renders nothing outside a
+ * `DraggableList` or when the row can't be moved
+ */
+export function DragHandle({ color }: { color: string }): ReactElement | null {
+  const gesture = useContext(DragGestureContext);
+  if (!gesture) return null;
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={styles.handle} accessibilityLabel="Drag to reorder" hitSlop={8}>
+        <Text style={[styles.handleText, { color }]}>⋮⋮</Text>
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingHorizontal: 4,
+    paddingVertical: 6,
+    marginRight: 6,
+  },
+  handleText: {
+    fontSize: 16,
+    letterSpacing: -4,
+    opacity: 0.4,
+  },
+});
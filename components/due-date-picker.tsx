@@ -0,0 +1,136 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { addDays, addMinutes, formatDue, toDateKey } from '@/utils/due-date';
+
+const TIME_STEP_MINUTES = 15;
+const DEFAULT_DUE_TIME = '09:00';
+
+interface DueDatePickerProps {
+  dueDate?: string;
+  dueTime?: string;
+  onChange: (dueDate?: string, dueTime?: string) => void;
+  textColor: string;
+  accentColor: string;
+}
+
+/**
+ * Lightweight due date/time picker built from presets and steppers, so it
+ * behaves the same on iOS, Android and web.
+ */
+export function DueDatePicker({ dueDate, dueTime, onChange, textColor, accentColor }: DueDatePickerProps) {
+  const today = toDateKey(new Date());
+
+  const presets = [
+    { label: 'Today', value: today },
+    { label: 'Tomorrow', value: addDays(today, 1) },
+    { label: 'Next week', value: addDays(today, 7) },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {presets.map((preset) => {
+          const active = dueDate === preset.value;
+          return (
+            <TouchableOpacity
+              key={preset.label}
+              onPress={() => onChange(preset.value, dueTime)}
+              style={[styles.chip, { borderColor: accentColor }, active && { backgroundColor: accentColor }]}
+            >
+              <Text style={[styles.chipText, { color: active ? '#fff' : textColor }]}>{preset.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {dueDate && (
+          <TouchableOpacity onPress={() => onChange(undefined, undefined)} style={styles.chip}>
+            <Text style={[styles.chipText, { color: textColor, opacity: 0.6 }]}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {dueDate && (
+        <View style={styles.row}>
+          {/* Date stepper */}
+          <View style={styles.stepper}>
+            <TouchableOpacity onPress={() => onChange(addDays(dueDate, -1), dueTime)} style={styles.stepButton}>
+              <Text style={[styles.stepText, { color: accentColor }]}>‹</Text>
+            </TouchableOpacity>
+            <Text style={[styles.value, { color: textColor }]}>{formatDue({ dueDate })}</Text>
+            <TouchableOpacity onPress={() => onChange(addDays(dueDate, 1), dueTime)} style={styles.stepButton}>
+              <Text style={[styles.stepText, { color: accentColor }]}>›</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Time stepper */}
+          {dueTime ? (
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => onChange(dueDate, addMinutes(dueTime, -TIME_STEP_MINUTES))}
+                style={styles.stepButton}
+              >
+                <Text style={[styles.stepText, { color: accentColor }]}>‹</Text>
+              </TouchableOpacity>
+              <Text style={[styles.value, { color: textColor }]}>{dueTime}</Text>
+              <TouchableOpacity
+                onPress={() => onChange(dueDate, addMinutes(dueTime, TIME_STEP_MINUTES))}
+                style={styles.stepButton}
+              >
+                <Text style={[styles.stepText, { color: accentColor }]}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onChange(dueDate, undefined)} style={styles.stepButton}>
+                <Text style={[styles.stepText, { color: textColor, opacity: 0.5 }]}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity onPress={() => onChange(dueDate, DEFAULT_DUE_TIME)} style={styles.chip}>
+              <Text style={[styles.chipText, { color: textColor }]}>+ Time</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: 12,
+  },
+  stepButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  stepText: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  value: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+});
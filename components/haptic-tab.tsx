@@ -1,15 +1,18 @@
 import { BottomTabBarButtonProps } from '@react-navigation/bottom-tabs';
 import { PlatformPressable } from '@react-navigation/elements';
-import * as Haptics from 'expo-haptics';
+
+import { useHaptics } from '@/hooks/use-haptics';
 
 export function HapticTab(props: BottomTabBarButtonProps) {
+  const triggerHaptic = useHaptics();
+
   return (
     <PlatformPressable
       {...props}
       onPressIn={(ev) => {
         if (process.env.EXPO_OS === 'ios') {
           // Add a soft haptic feedback when pressing down on the tabs.
-          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          triggerHaptic('light');
         }
         props.onPressIn?.(ev);
       }}
@@ -0,0 +1,35 @@
+import type { ReactNode } from 'react';
+import { Text, type StyleProp, type TextProps, type TextStyle } from 'react-native';
+
+import type { MatchRange } from '@/utils/search';
+
+type HighlightedTextProps = TextProps & {
+  text: string;
+  ranges: MatchRange[];
+  highlightStyle: StyleProp<TextStyle>;
+};
+
+/**
+ * Renders text with the given character ranges emphasised
+ */
+export function HighlightedText({ text, ranges, highlightStyle, ...rest }: HighlightedTextProps) {
+  if (ranges.length === 0) {
+    return <Text {...rest}>{text}</Text>;
+  }
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  ranges.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <Text key={index} style={highlightStyle}>
+        {text.slice(start, end)}
+      </Text>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <Text {...rest}>{parts}</Text>;
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { MemberAvatar } from '@/components/member-avatar';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { INBOX_LIST, LIST_COLORS, LIST_ICONS } from '@/constants/lists';
+import type { Member, TaskList } from '@/types/task';
+
+interface ListEditorModalProps {
+  visible: boolean;
+  /** List being edited, or undefined to create a new one */
+  list?: TaskList;
+  /** Team members other than the current user, who the list can be shared with */
+  teammates: Member[];
+  onSave: (values: Omit<TaskList, 'id'>) => void;
+  onDelete: (list: TaskList) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for creating, renaming, restyling, sharing and deleting lists
+ */
+export function ListEditorModal({ visible, list, teammates, onSave, onDelete, onClose }: ListEditorModalProps) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LIST_COLORS[0]);
+  const [icon, setIcon] = useState<IconSymbolName>(LIST_ICONS[0]);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  // Reset the form each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setName(list?.name ?? '');
+    setColor(list?.color ?? LIST_COLORS[0]);
+    setIcon((list?.icon as IconSymbolName) ?? LIST_ICONS[0]);
+    setMemberIds(list?.memberIds ?? []);
+  }, [visible, list]);
+
+  const toggleMember = (id: string) =>
+    setMemberIds((current) => (current.includes(id) ? current.filter((m) => m !== id) : [...current, id]));
+
+  const canDelete = list !== undefined && list.id !== INBOX_LIST.id;
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{list ? 'Edit List' : 'New List'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Text style={styles.sectionTitle}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="List name..."
+              placeholderTextColor="#9CA3AF"
+              autoFocus={!list}
+            />
+
+            <Text style={styles.sectionTitle}>Colour</Text>
+            <View style={styles.swatches}>
+              {LIST_COLORS.map((swatch) => (
+                <TouchableOpacity
+                  key={swatch}
+                  onPress={() => setColor(swatch)}
+                  style={[styles.swatch, { backgroundColor: swatch }, color === swatch && styles.swatchSelected]}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Icon</Text>
+            <View style={styles.swatches}>
+              {LIST_ICONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setIcon(option)}
+                  style={[styles.iconOption, icon === option && { backgroundColor: color }]}
+                >
+                  <IconSymbol name={option} size={20} color={icon === option ? '#fff' : '#6B7280'} />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {teammates.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Share With</Text>
+                <View style={styles.swatches}>
+                  {teammates.map((member) => {
+                    const shared = memberIds.includes(member.id);
+                    return (
+                      <TouchableOpacity
+                        key={member.id}
+                        onPress={() => toggleMember(member.id)}
+                        style={[styles.memberOption, shared && { borderColor: color, backgroundColor: `${color}1A` }]}
+                      >
+                        <MemberAvatar member={member} size={20} />
+                        <Text style={styles.memberName}>{member.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <View style={styles.footer}>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: color, opacity: name.trim() === '' ? 0.5 : 1 }]}
+                disabled={name.trim() === ''}
+                onPress={() => {
+                  // Teammates who left the team are dropped on save
+                  const shared = memberIds.filter((id) => teammates.some((member) => member.id === id));
+                  onSave({ name: name.trim(), color, icon, ...(shared.length > 0 && { memberIds: shared }) });
+                }}
+              >
+                <Text style={styles.buttonText}>{list ? 'Save List' : 'Create List'}</Text>
+              </TouchableOpacity>
+
+              {canDelete && (
+                <TouchableOpacity style={[styles.button, { backgroundColor: '#EF4444' }]} onPress={() => onDelete(list)}>
+                  <Text style={styles.buttonText}>Delete List</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Montserrat_700Bold',
+    color: '#1F2937',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 16,
+  },
+  closeButtonText: {
+    fontSize: 20,
+    color: '#6B7280',
+    fontFamily: 'Montserrat_700Bold',
+  },
+  body: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#6B7280',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  input: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 16,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#1F2937',
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  memberOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingLeft: 4,
+    paddingRight: 10,
+    paddingVertical: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  memberName: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#374151',
+  },
+  footer: {
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,103 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import type { TaskList } from '@/types/task';
+
+export const ALL_LISTS = 'all';
+
+interface ListSwitcherProps {
+  lists: TaskList[];
+  /** A list id, or `ALL_LISTS` for every task */
+  activeListId: string;
+  pendingCounts: Record<string, number>;
+  totalPending: number;
+  onSelect: (listId: string) => void;
+  onEdit: (list: TaskList) => void;
+  onCreate: () => void;
+  textColor: string;
+  accentColor: string;
+}
+
+/**
+ * Horizontal row of list chips; long-press a list to edit it
+ */
+export function ListSwitcher({
+  lists,
+  activeListId,
+  pendingCounts,
+  totalPending,
+  onSelect,
+  onEdit,
+  onCreate,
+  textColor,
+  accentColor,
+}: ListSwitcherProps) {
+  const allActive = activeListId === ALL_LISTS;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scroll}
+      contentContainerStyle={styles.container}
+    >
+      <TouchableOpacity
+        onPress={() => onSelect(ALL_LISTS)}
+        style={[styles.chip, allActive && { backgroundColor: accentColor }]}
+      >
+        <IconSymbol name="list.bullet" size={16} color={allActive ? '#fff' : textColor} />
+        <Text style={[styles.chipText, { color: allActive ? '#fff' : textColor }]}>All · {totalPending}</Text>
+      </TouchableOpacity>
+
+      {lists.map((list) => {
+        const active = activeListId === list.id;
+        return (
+          <TouchableOpacity
+            key={list.id}
+            onPress={() => onSelect(list.id)}
+            onLongPress={() => onEdit(list)}
+            style={[styles.chip, active && { backgroundColor: list.color }]}
+          >
+            <IconSymbol name={list.icon as IconSymbolName} size={16} color={active ? '#fff' : list.color} />
+            <Text style={[styles.chipText, { color: active ? '#fff' : textColor }]}>
+              {list.name} · {pendingCounts[list.id] ?? 0}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity onPress={onCreate} style={[styles.chip, styles.addChip, { borderColor: textColor }]}>
+        <Text style={[styles.chipText, { color: textColor }]}>+ List</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  container: {
+    paddingHorizontal: 15,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  addChip: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,42 @@
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import type { Member } from '@/types/task';
+import { getInitials } from '@/utils/members';
+
+interface MemberAvatarProps {
+  /** Undefined for an assignee who has left the team */
+  member?: Member;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Round initials badge standing in for a teammate's photo
+ */
+export function MemberAvatar({ member, size = 22, style }: MemberAvatarProps) {
+  return (
+    <View
+      accessibilityLabel={member ? `Assigned to ${member.name}` : 'Assigned to a former teammate'}
+      style={[
+        styles.avatar,
+        { width: size, height: size, borderRadius: size / 2, backgroundColor: member?.color ?? '#9CA3AF' },
+        style,
+      ]}
+    >
+      <Text style={[styles.initials, { fontSize: size * 0.42 }]} numberOfLines={1}>
+        {member ? getInitials(member.name) : '?'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  avatar: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  initials: {
+    color: '#fff',
+    fontFamily: 'Montserrat_700Bold',
+  },
+});
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { Recurrence, RecurrenceFrequency } from '@/types/task';
+import { fromDateKey } from '@/utils/due-date';
+import { describeRecurrence, parseRRule, toRRule, WEEKDAY_NAMES } from '@/utils/recurrence';
+
+type PresetMode = Exclude<RecurrenceFrequency, 'yearly'>;
+
+const PRESETS: { mode: PresetMode; label: string; unit: string }[] = [
+  { mode: 'daily', label: 'Daily', unit: 'day' },
+  { mode: 'weekly', label: 'Weekly', unit: 'week' },
+  { mode: 'monthly', label: 'Monthly', unit: 'month' },
+];
+
+interface RecurrencePickerProps {
+  recurrence?: Recurrence;
+  /** Date (`YYYY-MM-DD`) used to seed weekday and day-of-month defaults */
+  referenceDate: string;
+  onChange: (recurrence?: Recurrence) => void;
+  accentColor: string;
+}
+
+/**
+ * Repeat rule editor with presets for daily/weekly/monthly rules and a raw
+ * RRULE field for anything else we support
+ */
+export function RecurrencePicker({ recurrence, referenceDate, onChange, accentColor }: RecurrencePickerProps) {
+  const [customMode, setCustomMode] = useState(recurrence?.frequency === 'yearly');
+  const [rruleText, setRRuleText] = useState(recurrence ? toRRule(recurrence) : '');
+  const [rruleError, setRRuleError] = useState<string | null>(null);
+
+  const reference = fromDateKey(referenceDate);
+  const activePreset = customMode ? undefined : PRESETS.find((preset) => preset.mode === recurrence?.frequency);
+
+  const selectPreset = (mode: PresetMode) => {
+    setCustomMode(false);
+    onChange({
+      frequency: mode,
+      interval: 1,
+      ...(mode === 'weekly' && { weekdays: [reference.getDay()] }),
+      ...(mode === 'monthly' && { monthDay: reference.getDate() }),
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!recurrence) return;
+    const current = recurrence.weekdays ?? [];
+    const weekdays = current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort((a, b) => a - b);
+    // Keep at least one weekday selected
+    if (weekdays.length === 0) return;
+    onChange({ ...recurrence, weekdays });
+  };
+
+  const applyRRule = () => {
+    try {
+      const rule = parseRRule(rruleText);
+      setRRuleError(null);
+      onChange(rule);
+    } catch (error) {
+      setRRuleError(error instanceof Error ? error.message : 'Invalid RRULE');
+    }
+  };
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[styles.chip, { borderColor: accentColor }, active && { backgroundColor: accentColor }]}
+    >
+      <Text style={[styles.chipText, { color: active ? '#fff' : '#374151' }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {chip('Never', !recurrence && !customMode, () => {
+          setCustomMode(false);
+          onChange(undefined);
+        })}
+        {PRESETS.map((preset) => chip(preset.label, activePreset?.mode === preset.mode, () => selectPreset(preset.mode)))}
+        {chip('Custom', customMode, () => {
+          setCustomMode(true);
+          setRRuleText(recurrence ? toRRule(recurrence) : 'FREQ=WEEKLY;INTERVAL=2');
+        })}
+      </View>
+
+      {/* Interval stepper */}
+      {recurrence && activePreset && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Every</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              onPress={() => onChange({ ...recurrence, interval: Math.max(1, recurrence.interval - 1) })}
+              style={styles.stepButton}
+            >
+              <Text style={[styles.stepText, { color: accentColor }]}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.value}>{recurrence.interval}</Text>
+            <TouchableOpacity
+              onPress={() => onChange({ ...recurrence, interval: recurrence.interval + 1 })}
+              style={styles.stepButton}
+            >
+              <Text style={[styles.stepText, { color: accentColor }]}>+</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.label}>
+            {activePreset.unit}{recurrence.interval === 1 ? '' : 's'}
+          </Text>
+        </View>
+      )}
+
+      {/* Weekday toggles */}
+      {recurrence && activePreset?.mode === 'weekly' && (
+        <View style={styles.row}>
+          {WEEKDAY_NAMES.map((name, day) =>
+            chip(name.charAt(0) + name.charAt(1), recurrence.weekdays?.includes(day) ?? false, () => toggleWeekday(day))
+          )}
+        </View>
+      )}
+
+      {/* Day of month stepper */}
+      {recurrence && activePreset?.mode === 'monthly' && (
+        <View style={styles.row}>
+          <Text style={styles.label}>On day</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              onPress={() =>
+                onChange({ ...recurrence, monthDay: ((recurrence.monthDay ?? reference.getDate()) + 29) % 31 + 1 })
+              }
+              style={styles.stepButton}
+            >
+              <Text style={[styles.stepText, { color: accentColor }]}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.value}>{recurrence.monthDay ?? reference.getDate()}</Text>
+            <TouchableOpacity
+              onPress={() =>
+                onChange({ ...recurrence, monthDay: (recurrence.monthDay ?? reference.getDate()) % 31 + 1 })
+              }
+              style={styles.stepButton}
+            >
+              <Text style={[styles.stepText, { color: accentColor }]}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Raw RRULE entry */}
+      {customMode && (
+        <View style={styles.customRow}>
+          <TextInput
+            style={styles.input}
+            value={rruleText}
+            onChangeText={setRRuleText}
+            onSubmitEditing={applyRRule}
+            placeholder="FREQ=WEEKLY;BYDAY=MO,FR"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={[styles.applyButton, { backgroundColor: accentColor }]} onPress={applyRRule}>
+            <Text style={styles.applyButtonText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {customMode && rruleError && <Text style={styles.error}>{rruleError}</Text>}
+
+      {recurrence && <Text style={styles.summary}>↻ {describeRecurrence(recurrence)}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#374151',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+  },
+  stepButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+  },
+  stepText: {
+    fontSize: 16,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  value: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#1F2937',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  applyButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  error: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#EF4444',
+  },
+  summary: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#374151',
+  },
+});
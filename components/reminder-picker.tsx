@@ -0,0 +1,124 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { DueDatePicker } from '@/components/due-date-picker';
+import type { Reminder } from '@/types/task';
+import { fromDateKey, toDateKey, toTimeKey } from '@/utils/due-date';
+import { ALL_DAY_REMINDER_TIME, describeReminder, getReminderTime, REMINDER_PRESETS } from '@/utils/reminders';
+
+interface ReminderPickerProps {
+  reminder?: Reminder;
+  /** Due-relative presets need a due date */
+  dueDate?: string;
+  dueTime?: string;
+  onChange: (reminder?: Reminder) => void;
+  accentColor: string;
+}
+
+/**
+ * Reminder editor: off, one of the due-relative presets, or a custom date
+ * and time picked with the due date steppers
+ */
+export function ReminderPicker({ reminder, dueDate, dueTime, onChange, accentColor }: ReminderPickerProps) {
+  const activePreset = REMINDER_PRESETS.find(
+    (preset) =>
+      preset.reminder.timing === reminder?.timing && preset.reminder.minutesBefore === reminder?.minutesBefore
+  );
+  const fireAt = reminder ? getReminderTime({ reminder, dueDate, dueTime, completed: false }) : null;
+
+  const chip = (label: string, active: boolean, onPress: () => void, disabled = false) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      disabled={disabled}
+      style={[
+        styles.chip,
+        { borderColor: accentColor },
+        active && { backgroundColor: accentColor },
+        disabled && styles.chipDisabled,
+      ]}
+    >
+      <Text style={[styles.chipText, { color: active ? '#fff' : '#374151' }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const customDate = reminder?.timing === 'custom' && reminder.at !== undefined ? new Date(reminder.at) : undefined;
+
+  const pickCustom = (date?: string, time?: string) => {
+    if (!date) {
+      onChange(undefined);
+      return;
+    }
+    onChange({ timing: 'custom', at: fromDateKey(date, time ?? ALL_DAY_REMINDER_TIME).getTime() });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {chip('None', !reminder, () => onChange(undefined))}
+        {REMINDER_PRESETS.map((preset) =>
+          chip(preset.label, activePreset?.key === preset.key, () => onChange(preset.reminder), !dueDate)
+        )}
+        {chip('Custom', reminder?.timing === 'custom', () =>
+          pickCustom(dueDate ?? toDateKey(new Date()), dueTime ?? ALL_DAY_REMINDER_TIME)
+        )}
+      </View>
+
+      {!dueDate && reminder?.timing !== 'custom' && (
+        <Text style={styles.hint}>Set a due date to be reminded relative to it, or pick a custom time.</Text>
+      )}
+
+      {customDate && (
+        <DueDatePicker
+          dueDate={toDateKey(customDate)}
+          dueTime={toTimeKey(customDate)}
+          onChange={pickCustom}
+          textColor="#1F2937"
+          accentColor={accentColor}
+        />
+      )}
+
+      {reminder && (
+        <Text style={styles.summary}>
+          🔔 {describeReminder(reminder)}
+          {reminder.timing !== 'custom' && fireAt !== null && ` · ${describeReminder({ timing: 'custom', at: fireAt })}`}
+          {fireAt !== null && fireAt <= Date.now() && ' (passed)'}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#6B7280',
+  },
+  summary: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#374151',
+  },
+});
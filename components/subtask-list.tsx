@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View, type GestureResponderEvent } from 'react-native';
+
+import type { Subtask } from '@/types/task';
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  accentColor: string;
+  onAdd: (title: string) => void;
+  onToggle: (subtaskId: string, event: GestureResponderEvent) => void;
+  onMove: (subtaskId: string, offset: number) => void;
+  onDelete: (subtaskId: string) => void;
+}
+
+/**
+ * Editable checklist of subtasks shown in the task detail modal
+ */
+export function SubtaskList({ subtasks, accentColor, onAdd, onToggle, onMove, onDelete }: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState('');
+
+  const submit = () => {
+    if (newTitle.trim() === '') return;
+    onAdd(newTitle.trim());
+    setNewTitle('');
+  };
+
+  return (
+    <View style={styles.container}>
+      {subtasks.map((subtask, index) => (
+        <View key={subtask.id} style={styles.row}>
+          {/* Completion checkbox */}
+          <TouchableOpacity
+            onPress={(e) => onToggle(subtask.id, e)}
+            style={[
+              styles.checkbox,
+              { borderColor: accentColor },
+              subtask.completed && { backgroundColor: accentColor },
+            ]}
+          >
+            {subtask.completed && <Text style={styles.checkmark}>✓</Text>}
+          </TouchableOpacity>
+
+          <Text style={[styles.title, subtask.completed && styles.titleCompleted]} numberOfLines={2}>
+            {subtask.title}
+          </Text>
+
+          {/* Reorder and delete controls */}
+          <TouchableOpacity
+            onPress={() => onMove(subtask.id, -1)}
+            disabled={index === 0}
+            style={[styles.control, index === 0 && styles.controlDisabled]}
+          >
+            <Text style={styles.controlText}>↑</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onMove(subtask.id, 1)}
+            disabled={index === subtasks.length - 1}
+            style={[styles.control, index === subtasks.length - 1 && styles.controlDisabled]}
+          >
+            <Text style={styles.controlText}>↓</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onDelete(subtask.id)} style={styles.control}>
+            <Text style={[styles.controlText, styles.deleteText]}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {/* New subtask input */}
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.input}
+          value={newTitle}
+          onChangeText={setNewTitle}
+          onSubmitEditing={submit}
+          placeholder="Add a step..."
+          placeholderTextColor="#9CA3AF"
+          returnKeyType="done"
+        />
+        <TouchableOpacity style={[styles.addButton, { backgroundColor: accentColor }]} onPress={submit}>
+          <Text style={styles.addButtonText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 2,
+    marginRight: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 12,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#374151',
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: '#9CA3AF',
+  },
+  control: {
+    width: 28,
+    height: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+  },
+  controlDisabled: {
+    opacity: 0.3,
+  },
+  controlText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontFamily: 'Montserrat_700Bold',
+  },
+  deleteText: {
+    color: '#EF4444',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  addButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,233 @@
+import { type PropsWithChildren } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, type LayoutChangeEvent, type StyleProp, type ViewStyle } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { interpolate, useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { scheduleOnRN } from 'react-native-worklets';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * Screen point where the swipe ended, e.g. to anchor a particle burst
+ */
+export interface SwipePoint {
+  pageX: number;
+  pageY: number;
+}
+
+export interface SwipeRowAction {
+  key: string;
+  label: string;
+  icon: string;
+  color: string;
+  onPress: (point: SwipePoint) => void;
+}
+
+type SwipeableRowProps = PropsWithChildren & {
+  /** Runs when the row is swiped right past the threshold */
+  rightAction?: SwipeRowAction;
+  /** Buttons revealed by swiping left, from the inside out */
+  leftActions?: SwipeRowAction[];
+  /** Swiping left past the full-swipe threshold runs the outermost action */
+  fullSwipe?: boolean;
+  enabled?: boolean;
+  /** Fires once each time a swipe crosses a threshold that will trigger an action */
+  onThresholdCross?: () => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+const ACTION_WIDTH = 72;
+/** Fraction of the row width a right swipe must travel to trigger */
+const SWIPE_THRESHOLD = 0.3;
+/** Fraction of the row width a left swipe must travel to run the outermost action */
+const FULL_SWIPE_THRESHOLD = 0.6;
+const SNAP_DURATION = 180;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Row that can be swiped right for a quick action or left to reveal buttons
+ */
+export function SwipeableRow({
+  children,
+  rightAction,
+  leftActions = [],
+  fullSwipe = false,
+  enabled = true,
+  onThresholdCross,
+  style,
+}: SwipeableRowProps) {
+  const width = useSharedValue(0);
+  const translateX = useSharedValue(0);
+  const startX = useSharedValue(0);
+  const armed = useSharedValue(false);
+
+  const actionCount = leftActions.length;
+  const revealWidth = actionCount * ACTION_WIDTH;
+  const outermost = leftActions[actionCount - 1];
+  const canSwipeRight = !!rightAction;
+  const canFullSwipe = fullSwipe && !!outermost;
+
+  // Plain JS callbacks for the gesture worklets to schedule
+  const runRightAction = (point: SwipePoint) => rightAction?.onPress(point);
+  const runOutermostAction = (point: SwipePoint) => outermost?.onPress(point);
+  const crossThreshold = () => onThresholdCross?.();
+
+  const close = () => {
+    translateX.value = withTiming(0, { duration: SNAP_DURATION });
+  };
+
+  const gesture = Gesture.Pan()
+    .enabled(enabled && (canSwipeRight || revealWidth > 0))
+    .activeOffsetX([-15, 15])
+    .failOffsetY([-10, 10])
+    .onBegin(() => {
+      startX.value = translateX.value;
+      armed.value = false;
+    })
+    .onUpdate((event) => {
+      const minX = revealWidth > 0 ? -width.value : 0;
+      const maxX = canSwipeRight ? width.value : 0;
+      const x = Math.min(Math.max(startX.value + event.translationX, minX), maxX);
+      translateX.value = x;
+
+      const willTrigger =
+        (canSwipeRight && x > width.value * SWIPE_THRESHOLD) ||
+        (canFullSwipe && x < -width.value * FULL_SWIPE_THRESHOLD);
+      if (willTrigger !== armed.value) {
+        armed.value = willTrigger;
+        if (willTrigger) scheduleOnRN(crossThreshold);
+      }
+    })
+    .onEnd((event) => {
+      const x = translateX.value;
+      const point = { pageX: event.absoluteX, pageY: event.absoluteY };
+
+      if (canSwipeRight && x > width.value * SWIPE_THRESHOLD) {
+        translateX.value = withTiming(0, { duration: SNAP_DURATION });
+        scheduleOnRN(runRightAction, point);
+      } else if (canFullSwipe && x < -width.value * FULL_SWIPE_THRESHOLD) {
+        // Slide the row away, then bring it back in case the action is cancelled
+        translateX.value = withTiming(-width.value, { duration: SNAP_DURATION }, () => {
+          translateX.value = withTiming(0, { duration: SNAP_DURATION });
+        });
+        scheduleOnRN(runOutermostAction, point);
+      } else if (revealWidth > 0 && x < -revealWidth / 2) {
+        translateX.value = withTiming(-revealWidth, { duration: SNAP_DURATION });
+      } else {
+        translateX.value = withTiming(0, { duration: SNAP_DURATION });
+      }
+    });
+
+  const rowStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }],
+  }));
+
+  const rightBackgroundStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(translateX.value, [0, width.value * SWIPE_THRESHOLD || 1], [0, 1], 'clamp'),
+  }));
+
+  const leftBackgroundStyle = useAnimatedStyle(() => ({
+    opacity: translateX.value < 0 ? 1 : 0,
+  }));
+
+  // The outermost button stretches to fill the gap during a full swipe
+  const outermostStyle = useAnimatedStyle(() => ({
+    width: Math.max(ACTION_WIDTH, -translateX.value - (actionCount - 1) * ACTION_WIDTH),
+  }));
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    width.value = event.nativeEvent.layout.width;
+  };
+
+  return (
+    <View style={style} onLayout={handleLayout}>
+      {rightAction && (
+        <Animated.View
+          style={[styles.background, styles.rightBackground, { backgroundColor: rightAction.color }, rightBackgroundStyle]}
+          pointerEvents="none"
+        >
+          <Text style={styles.actionIcon}>{rightAction.icon}</Text>
+          <Text style={styles.actionLabel}>{rightAction.label}</Text>
+        </Animated.View>
+      )}
+
+      {leftActions.length > 0 && (
+        <Animated.View style={[styles.background, styles.leftBackground, leftBackgroundStyle]}>
+          {leftActions.map((action, index) => {
+            const isOutermost = index === actionCount - 1;
+            return (
+              <Animated.View
+                key={action.key}
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: action.color },
+                  isOutermost && styles.outermostButton,
+                  isOutermost && outermostStyle,
+                ]}
+              >
+                <TouchableOpacity
+                  style={styles.actionTouchable}
+                  onPress={(e) => {
+                    close();
+                    action.onPress({ pageX: e.nativeEvent.pageX, pageY: e.nativeEvent.pageY });
+                  }}
+                >
+                  <Text style={styles.actionIcon}>{action.icon}</Text>
+                  <Text style={styles.actionLabel}>{action.label}</Text>
+                </TouchableOpacity>
+              </Animated.View>
+            );
+          })}
+        </Animated.View>
+      )}
+
+      <GestureDetector gesture={gesture}>
+        <Animated.View style={rowStyle}>{children}</Animated.View>
+      </GestureDetector>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  background: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  rightBackground: {
+    paddingLeft: 20,
+    gap: 8,
+  },
+  leftBackground: {
+    justifyContent: 'flex-end',
+  },
+  actionButton: {
+    width: ACTION_WIDTH,
+    height: '100%',
+  },
+  outermostButton: {
+    borderTopRightRadius: 12,
+    borderBottomRightRadius: 12,
+  },
+  actionTouchable: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 2,
+  },
+  actionIcon: {
+    fontSize: 18,
+    color: '#fff',
+  },
+  actionLabel: {
+    fontSize: 11,
+    color: '#fff',
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
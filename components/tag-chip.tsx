@@ -0,0 +1,59 @@
+import { StyleSheet, Text, TouchableOpacity, type StyleProp, type ViewStyle } from 'react-native';
+
+interface TagChipProps {
+  tag: string;
+  color: string;
+  /** Filled chips are selected; outlined chips are not */
+  filled?: boolean;
+  size?: 'small' | 'regular';
+  onPress?: () => void;
+  onLongPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * `#tag` pill used in task rows, filters and editors
+ */
+export function TagChip({ tag, color, filled = true, size = 'regular', onPress, onLongPress, style }: TagChipProps) {
+  const small = size === 'small';
+
+  return (
+    <TouchableOpacity
+      disabled={!onPress && !onLongPress}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={[
+        styles.chip,
+        small && styles.chipSmall,
+        { borderColor: color },
+        filled && { backgroundColor: color },
+        style,
+      ]}
+    >
+      <Text style={[styles.text, small && styles.textSmall, { color: filled ? '#fff' : color }]} numberOfLines={1}>
+        #{tag}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipSmall: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+  },
+  text: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  textSmall: {
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { TagChip } from '@/components/tag-chip';
+import { getTagColor, normalizeTag } from '@/utils/tags';
+
+interface TagEditorProps {
+  tags: string[];
+  /** Every tag in use, offered as suggestions */
+  knownTags: string[];
+  tagColors: Record<string, string>;
+  onChange: (tags: string[]) => void;
+  accentColor: string;
+}
+
+/**
+ * Picks a task's tags from existing ones or adds new ones by name
+ */
+export function TagEditor({ tags, knownTags, tagColors, onChange, accentColor }: TagEditorProps) {
+  const [newTag, setNewTag] = useState('');
+  const suggestions = knownTags.filter((tag) => !tags.includes(tag));
+
+  const submit = () => {
+    const tag = normalizeTag(newTag);
+    if (tag === '') return;
+    if (!tags.includes(tag)) onChange([...tags, tag]);
+    setNewTag('');
+  };
+
+  return (
+    <View style={styles.container}>
+      {tags.length > 0 ? (
+        <View style={styles.row}>
+          {tags.map((tag) => (
+            <TagChip
+              key={tag}
+              tag={`${tag} ✕`}
+              color={getTagColor(tag, tagColors)}
+              onPress={() => onChange(tags.filter((t) => t !== tag))}
+            />
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.empty}>No tags</Text>
+      )}
+
+      {suggestions.length > 0 && (
+        <View style={styles.row}>
+          {suggestions.map((tag) => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              color={getTagColor(tag, tagColors)}
+              filled={false}
+              onPress={() => onChange([...tags, tag])}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.input}
+          value={newTag}
+          onChangeText={setNewTag}
+          onSubmitEditing={submit}
+          placeholder="New tag..."
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+        />
+        <TouchableOpacity style={[styles.addButton, { backgroundColor: accentColor }]} onPress={submit}>
+          <Text style={styles.addButtonText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  empty: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#9CA3AF',
+    fontStyle: 'italic',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  addButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
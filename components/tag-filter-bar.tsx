@@ -0,0 +1,95 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { TagChip } from '@/components/tag-chip';
+import { getTagColor, type TagMatchMode, type TagSummary } from '@/utils/tags';
+
+interface TagFilterBarProps {
+  tags: TagSummary[];
+  tagColors: Record<string, string>;
+  selected: string[];
+  mode: TagMatchMode;
+  onToggle: (tag: string) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+  onManage: () => void;
+  textColor: string;
+}
+
+/**
+ * Narrows the task list to one or more tags, matched with AND or OR
+ */
+export function TagFilterBar({
+  tags,
+  tagColors,
+  selected,
+  mode,
+  onToggle,
+  onModeChange,
+  onClear,
+  onManage,
+  textColor,
+}: TagFilterBarProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scroll}
+      contentContainerStyle={styles.container}
+    >
+      {/* Match mode only matters with more than one tag selected */}
+      {selected.length > 1 && (
+        <TouchableOpacity
+          onPress={() => onModeChange(mode === 'any' ? 'all' : 'any')}
+          style={[styles.control, { borderColor: textColor }]}
+        >
+          <Text style={[styles.controlText, { color: textColor }]}>{mode === 'any' ? 'ANY' : 'ALL'}</Text>
+        </TouchableOpacity>
+      )}
+
+      {tags.map(({ name, count }) => (
+        <TagChip
+          key={name}
+          tag={`${name} ${count}`}
+          color={getTagColor(name, tagColors)}
+          filled={selected.includes(name)}
+          onPress={() => onToggle(name)}
+        />
+      ))}
+
+      {selected.length > 0 && (
+        <TouchableOpacity onPress={onClear} style={[styles.control, { borderColor: textColor }]}>
+          <Text style={[styles.controlText, { color: textColor }]}>Clear</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity onPress={onManage} style={[styles.control, { borderColor: textColor }]}>
+        <Text style={[styles.controlText, { color: textColor }]}>Manage</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  container: {
+    paddingHorizontal: 15,
+    gap: 6,
+    alignItems: 'center',
+  },
+  control: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  controlText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Modal, ScrollView, Share, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { Task, TaskList } from '@/types/task';
+import type { ModalColors } from '@/types/theme';
+import type { ImportedTask } from '@/utils/task-store';
+import {
+  detectFormat,
+  parseTasks,
+  planImport,
+  serializeTasks,
+  TRANSFER_FORMATS,
+  type TransferFormat,
+} from '@/utils/task-transfer';
+
+/** How many errors and titles the import preview lists before summarising */
+const PREVIEW_LIMIT = 5;
+
+type TransferMode = 'export' | 'import';
+type ExportScope = 'all' | 'view';
+
+interface TaskTransferModalProps {
+  visible: boolean;
+  allTasks: Task[];
+  /** Tasks in the current filtered view */
+  viewTasks: Task[];
+  /** Checked for duplicates alongside `allTasks` */
+  archivedTasks: Task[];
+  /** Also checked, so restoring a trashed task can't clash with an import */
+  trashedTasks: Task[];
+  lists: TaskList[];
+  /** List for imported tasks that don't name one */
+  defaultListId: string;
+  /** Sheet colours of the current theme */
+  colors: ModalColors;
+  onImport: (tasks: ImportedTask[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for sharing tasks in any `TRANSFER_FORMATS` format and for
+ * pasting them back in, with a preview of what an import will create
+ */
+export function TaskTransferModal({
+  visible,
+  allTasks,
+  viewTasks,
+  archivedTasks,
+  trashedTasks,
+  lists,
+  defaultListId,
+  colors,
+  onImport,
+  onClose,
+}: TaskTransferModalProps) {
+  const [mode, setMode] = useState<TransferMode>('export');
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [exportFormat, setExportFormat] = useState<TransferFormat>('json');
+  const [importText, setImportText] = useState('');
+  /** Chosen import format; detected from the text until picked */
+  const [importFormat, setImportFormat] = useState<TransferFormat | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  // Start each visit with an empty import
+  useEffect(() => {
+    if (!visible) return;
+    setImportText('');
+    setImportFormat(null);
+    setIncludeDuplicates(false);
+  }, [visible]);
+
+  const exportText = useMemo(
+    () => (visible && mode === 'export' ? serializeTasks(scope === 'all' ? allTasks : viewTasks, exportFormat, lists) : ''),
+    [visible, mode, scope, allTasks, viewTasks, exportFormat, lists]
+  );
+
+  const format = importFormat ?? detectFormat(importText);
+  const parsed = useMemo(
+    () => parseTasks(importText, format, { lists, defaultListId }),
+    [importText, format, lists, defaultListId]
+  );
+  const plan = useMemo(
+    () => planImport(parsed.tasks, [...allTasks, ...archivedTasks, ...trashedTasks]),
+    [parsed.tasks, allTasks, archivedTasks, trashedTasks]
+  );
+  const toCreate = includeDuplicates ? [...plan.fresh, ...plan.duplicates.map(({ task }) => task)] : plan.fresh;
+
+  const shareExport = () => {
+    Share.share({ message: exportText, title: 'Tasks' }).catch((error) => console.warn('Failed to share tasks', error));
+  };
+
+  const renderChips = <T extends string>(options: { key: T; label: string }[], selected: T, onSelect: (key: T) => void) => (
+    <View style={styles.chips}>
+      {options.map(({ key, label }) => (
+        <TouchableOpacity
+          key={key}
+          onPress={() => onSelect(key)}
+          style={[
+            styles.chip,
+            { borderColor: colors.border },
+            selected === key && { backgroundColor: colors.accent, borderColor: colors.accent },
+          ]}
+        >
+          <Text style={[styles.chipText, { color: selected === key ? '#fff' : colors.secondaryText }]}>{label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={[styles.overlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.content, { backgroundColor: colors.background }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <Text style={[styles.title, { color: colors.text }]}>Import & Export</Text>
+            <TouchableOpacity onPress={onClose} style={[styles.closeButton, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.closeButtonText, { color: colors.secondaryText }]}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent} keyboardShouldPersistTaps="handled">
+            {renderChips(
+              [
+                { key: 'export', label: 'Export' },
+                { key: 'import', label: 'Import' },
+              ],
+              mode,
+              setMode
+            )}
+
+            {mode === 'export' ? (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>Tasks</Text>
+                {renderChips(
+                  [
+                    { key: 'all', label: `All tasks (${allTasks.length})` },
+                    { key: 'view', label: `Current view (${viewTasks.length})` },
+                  ],
+                  scope,
+                  setScope
+                )}
+
+                <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>Format</Text>
+                {renderChips(TRANSFER_FORMATS, exportFormat, setExportFormat)}
+
+                <TextInput
+                  style={[styles.input, styles.textArea, { color: colors.text, borderColor: colors.border }]}
+                  value={exportText}
+                  multiline
+                  editable={false}
+                />
+
+                <TouchableOpacity style={[styles.button, { backgroundColor: colors.accent }]} onPress={shareExport}>
+                  <Text style={styles.buttonText}>Share</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.secondaryText }]}>Format</Text>
+                {renderChips(TRANSFER_FORMATS, format, setImportFormat)}
+
+                <TextInput
+                  style={[styles.input, styles.textArea, { color: colors.text, borderColor: colors.border }]}
+                  value={importText}
+                  onChangeText={setImportText}
+                  placeholder="Paste JSON, CSV, todo.txt or a Markdown checklist..."
+                  placeholderTextColor={colors.mutedText}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+
+                {parsed.errors.length > 0 && (
+                  <View style={[styles.previewBox, { backgroundColor: colors.surface }]}>
+                    {parsed.errors.slice(0, PREVIEW_LIMIT).map((error) => (
+                      <Text key={error} style={styles.errorText}>
+                        {error}
+                      </Text>
+                    ))}
+                    {parsed.errors.length > PREVIEW_LIMIT && (
+                      <Text style={styles.errorText}>…and {parsed.errors.length - PREVIEW_LIMIT} more problems</Text>
+                    )}
+                  </View>
+                )}
+
+                {parsed.tasks.length > 0 && (
+                  <View style={[styles.previewBox, { backgroundColor: colors.surface }]}>
+                    <Text style={[styles.previewTitle, { color: colors.text }]}>
+                      {toCreate.length} {toCreate.length === 1 ? 'task' : 'tasks'} will be created
+                    </Text>
+                    {toCreate.slice(0, PREVIEW_LIMIT).map((task, index) => (
+                      <Text key={index} style={[styles.previewText, { color: colors.secondaryText }]} numberOfLines={1}>
+                        {task.completed ? '☑' : '☐'} {task.title}
+                      </Text>
+                    ))}
+                    {toCreate.length > PREVIEW_LIMIT && (
+                      <Text style={[styles.previewText, { color: colors.secondaryText }]}>
+                        …and {toCreate.length - PREVIEW_LIMIT} more
+                      </Text>
+                    )}
+                  </View>
+                )}
+
+                {plan.duplicates.length > 0 && (
+                  <View style={styles.switchRow}>
+                    <Text style={[styles.previewText, { color: colors.secondaryText }]}>
+                      {plan.duplicates.length} already {plan.duplicates.length === 1 ? 'exists' : 'exist'} (same id
+                      or title). Import anyway
+                    </Text>
+                    <Switch value={includeDuplicates} onValueChange={setIncludeDuplicates} trackColor={{ true: colors.accent }} />
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: colors.accent }, toCreate.length === 0 && styles.buttonDisabled]}
+                  disabled={toCreate.length === 0}
+                  onPress={() => onImport(toCreate)}
+                >
+                  <Text style={styles.buttonText}>
+                    Import {toCreate.length} {toCreate.length === 1 ? 'Task' : 'Tasks'}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  content: {
+    maxHeight: '90%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 16,
+  },
+  closeButtonText: {
+    fontSize: 20,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+    textTransform: 'uppercase',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  input: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  textArea: {
+    height: 200,
+    textAlignVertical: 'top',
+  },
+  previewBox: {
+    borderRadius: 10,
+    padding: 12,
+    gap: 4,
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  previewText: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: 'Montserrat_400Regular',
+    color: '#EF4444',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+});
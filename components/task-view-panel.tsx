@@ -0,0 +1,162 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { Priority } from '@/types/task';
+import {
+  COMPLETED_OPTIONS,
+  DEFAULT_VIEW_OPTIONS,
+  isCustomView,
+  SORT_OPTIONS,
+  STATUS_OPTIONS,
+  type TaskViewOptions,
+} from '@/utils/task-view';
+
+const PRIORITY_OPTIONS: { key: Priority; label: string }[] = [
+  { key: 'urgent', label: 'Urgent' },
+  { key: 'high', label: 'High' },
+  { key: 'normal', label: 'Normal' },
+  { key: 'low', label: 'Low' },
+];
+
+interface TaskViewPanelProps {
+  options: TaskViewOptions;
+  onChange: (options: TaskViewOptions) => void;
+  priorityColors: Record<Priority, { color: string }>;
+  textColor: string;
+  accentColor: string;
+  onImportExport?: () => void;
+}
+
+/**
+ * Sort order, status/priority/assignee filters and how completed tasks are shown
+ */
+export function TaskViewPanel({
+  options,
+  onChange,
+  priorityColors,
+  textColor,
+  accentColor,
+  onImportExport,
+}: TaskViewPanelProps) {
+  const update = (patch: Partial<TaskViewOptions>) => onChange({ ...options, ...patch });
+
+  const togglePriority = (priority: Priority) =>
+    update({
+      priorities: options.priorities.includes(priority)
+        ? options.priorities.filter(p => p !== priority)
+        : [...options.priorities, priority],
+    });
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void, color = accentColor) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { borderColor: active ? color : textColor }, active && { backgroundColor: color }]}
+    >
+      <Text style={[styles.chipText, { color: active ? '#fff' : textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: textColor }]}>Sort by</Text>
+      <View style={styles.row}>
+        {SORT_OPTIONS.map(({ key, label }) =>
+          renderChip(key, label, options.sortBy === key, () => update({ sortBy: key }))
+        )}
+      </View>
+
+      <Text style={[styles.label, { color: textColor }]}>Status</Text>
+      <View style={styles.row}>
+        {STATUS_OPTIONS.map(({ key, label }) =>
+          renderChip(key, label, options.status === key, () => update({ status: key }))
+        )}
+      </View>
+
+      <Text style={[styles.label, { color: textColor }]}>Priority</Text>
+      <View style={styles.row}>
+        {PRIORITY_OPTIONS.map(({ key, label }) =>
+          renderChip(key, label, options.priorities.includes(key), () => togglePriority(key), priorityColors[key].color)
+        )}
+      </View>
+
+      <Text style={[styles.label, { color: textColor }]}>Assignee</Text>
+      <View style={styles.row}>
+        {renderChip('anyone', 'Anyone', !options.assignedToMe, () => update({ assignedToMe: false }))}
+        {renderChip('me', 'Assigned to me', options.assignedToMe, () => update({ assignedToMe: true }))}
+      </View>
+
+      {/* Only meaningful while completed tasks are part of the list */}
+      {options.status === 'all' && (
+        <>
+          <Text style={[styles.label, { color: textColor }]}>Completed tasks</Text>
+          <View style={styles.row}>
+            {COMPLETED_OPTIONS.map(({ key, label }) =>
+              renderChip(key, label, options.completed === key, () => update({ completed: key }))
+            )}
+          </View>
+        </>
+      )}
+
+      <View style={styles.footer}>
+        {onImportExport && (
+          <TouchableOpacity onPress={onImportExport} style={styles.link}>
+            <Text style={[styles.linkText, { color: textColor }]}>Import / Export</Text>
+          </TouchableOpacity>
+        )}
+        {isCustomView(options) && (
+          <TouchableOpacity onPress={() => onChange(DEFAULT_VIEW_OPTIONS)} style={[styles.link, styles.reset]}>
+            <Text style={[styles.linkText, { color: textColor }]}>Reset view</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginHorizontal: 15,
+    marginTop: 8,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+    opacity: 0.7,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  footer: {
+    flexDirection: 'row',
+  },
+  link: {
+    paddingVertical: 4,
+  },
+  reset: {
+    marginLeft: 'auto',
+  },
+  linkText: {
+    fontSize: 12,
+    fontFamily: 'Montserrat_600SemiBold',
+    textDecorationLine: 'underline',
+  },
+});
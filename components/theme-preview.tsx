@@ -0,0 +1,109 @@
+import { LinearGradient } from 'expo-linear-gradient';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { Theme } from '@/types/theme';
+
+interface ThemePreviewProps {
+  theme: Theme;
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+/**
+ * Miniature of the task screen in a theme's colours: the gradient, a task
+ * row and an accent button
+ */
+export function ThemePreview({ theme, label, selected, onPress }: ThemePreviewProps) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={`${label} theme`}
+      style={[styles.container, selected && { borderColor: theme.accent }]}
+    >
+      <LinearGradient colors={theme.colors} style={styles.canvas}>
+        <View style={[styles.input, { backgroundColor: theme.input }]}>
+          <View style={[styles.line, styles.short, { backgroundColor: theme.placeholder }]} />
+          <View style={[styles.button, { backgroundColor: theme.accent }]}>
+            <Text style={[styles.buttonText, { color: theme.onAccent }]}>+</Text>
+          </View>
+        </View>
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+          <View style={[styles.dot, { borderColor: theme.accent }]} />
+          <View style={[styles.line, { backgroundColor: theme.text }]} />
+        </View>
+      </LinearGradient>
+      <Text style={styles.label} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: 96,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: 2,
+    gap: 4,
+  },
+  canvas: {
+    height: 64,
+    borderRadius: 9,
+    padding: 6,
+    gap: 5,
+  },
+  input: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: 5,
+    padding: 3,
+  },
+  button: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 9,
+    lineHeight: 11,
+    fontFamily: 'Montserrat_700Bold',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderRadius: 5,
+    padding: 4,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    borderWidth: 1.5,
+  },
+  line: {
+    flex: 1,
+    height: 3,
+    borderRadius: 2,
+    opacity: 0.8,
+  },
+  short: {
+    flex: 0,
+    width: 32,
+    opacity: 0.6,
+  },
+  label: {
+    fontSize: 11,
+    fontFamily: 'Montserrat_600SemiBold',
+    color: '#374151',
+    textAlign: 'center',
+  },
+});
@@ -1,5 +1,5 @@
 import { PropsWithChildren, useState } from 'react';
-import { StyleSheet, TouchableOpacity } from 'react-native';
+import { StyleSheet, TouchableOpacity, type StyleProp, type TextStyle, type ViewStyle } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
@@ -7,12 +7,30 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
-export function Collapsible({ children, title }: PropsWithChildren & { title: string }) {
-  const [isOpen, setIsOpen] = useState(false);
+type CollapsibleProps = PropsWithChildren & {
+  title: string;
+  defaultOpen?: boolean;
+  /** Background override, e.g. `transparent` over a gradient */
+  backgroundColor?: string;
+  iconColor?: string;
+  titleStyle?: StyleProp<TextStyle>;
+  contentStyle?: StyleProp<ViewStyle>;
+};
+
+export function Collapsible({
+  children,
+  title,
+  defaultOpen = false,
+  backgroundColor,
+  iconColor,
+  titleStyle,
+  contentStyle,
+}: CollapsibleProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
   const theme = useColorScheme() ?? 'light';
 
   return (
-    <ThemedView>
+    <ThemedView lightColor={backgroundColor} darkColor={backgroundColor}>
       <TouchableOpacity
         style={styles.heading}
         onPress={() => setIsOpen((value) => !value)}
@@ -21,13 +39,17 @@ export function Collapsible({ children, title }: PropsWithChildren & { title: st
           name="chevron.right"
           size={18}
           weight="medium"
-          color={theme === 'light' ? Colors.light.icon : Colors.dark.icon}
+          color={iconColor ?? (theme === 'light' ? Colors.light.icon : Colors.dark.icon)}
           style={{ transform: [{ rotate: isOpen ? '90deg' : '0deg' }] }}
         />
 
-        <ThemedText type="defaultSemiBold">{title}</ThemedText>
+        <ThemedText type="defaultSemiBold" style={titleStyle}>{title}</ThemedText>
       </TouchableOpacity>
-      {isOpen && <ThemedView style={styles.content}>{children}</ThemedView>}
+      {isOpen && (
+        <ThemedView lightColor={backgroundColor} darkColor={backgroundColor} style={[styles.content, contentStyle]}>
+          {children}
+        </ThemedView>
+      )}
     </ThemedView>
   );
 }
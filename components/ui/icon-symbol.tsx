@@ -6,7 +6,7 @@ import { ComponentProps } from 'react';
 import { OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
 
 type IconMapping = Record<SymbolViewProps['name'], ComponentProps<typeof MaterialIcons>['name']>;
-type IconSymbolName = keyof typeof MAPPING;
+export type IconSymbolName = keyof typeof MAPPING;
 
 /**
  * Add your SF Symbols to Material Icons mappings here.
@@ -18,6 +18,19 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'tray.fill': 'inbox',
+  'list.bullet': 'list',
+  'briefcase.fill': 'work',
+  'person.fill': 'person',
+  'cart.fill': 'shopping-cart',
+  'heart.fill': 'favorite',
+  'book.fill': 'menu-book',
+  'star.fill': 'star',
+  'airplane': 'flight',
+  'dumbbell.fill': 'fitness-center',
+  'gearshape.fill': 'settings',
+  'trash.fill': 'delete',
+  'clock.fill': 'history',
 } as IconMapping;
 
 /**
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { Animated, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import type { UndoNotice } from '@/utils/task-history';
+
+const TOAST_DURATION = 4000;
+const FADE_DURATION = 200;
+
+interface UndoToastProps {
+  notice: UndoNotice | null;
+  onUndo: () => void;
+  accentColor: string;
+}
+
+/**
+ * Briefly offers to undo the latest destructive change
+ */
+export function UndoToast({ notice, onUndo, accentColor }: UndoToastProps) {
+  const [visibleNotice, setVisibleNotice] = useState<UndoNotice | null>(null);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!notice) {
+      // Undone, redone or superseded by another change
+      Animated.timing(opacity, { toValue: 0, duration: FADE_DURATION, useNativeDriver: true }).start(
+        ({ finished }) => finished && setVisibleNotice(null)
+      );
+      return;
+    }
+
+    setVisibleNotice(notice);
+    Animated.timing(opacity, { toValue: 1, duration: FADE_DURATION, useNativeDriver: true }).start();
+
+    const timeout = setTimeout(() => {
+      Animated.timing(opacity, { toValue: 0, duration: FADE_DURATION, useNativeDriver: true }).start(
+        ({ finished }) => finished && setVisibleNotice(null)
+      );
+    }, TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [notice, opacity]);
+
+  if (!visibleNotice) return null;
+
+  return (
+    <Animated.View style={[styles.toast, { opacity }]}>
+      <Text style={styles.message} numberOfLines={1}>
+        {visibleNotice.message}
+      </Text>
+      <TouchableOpacity onPress={onUndo} hitSlop={8}>
+        <Text style={[styles.action, { color: accentColor }]}>Undo</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    backgroundColor: '#1F2937',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Montserrat_600SemiBold',
+  },
+  action: {
+    fontSize: 14,
+    fontFamily: 'Montserrat_700Bold',
+  },
+});
@@ -0,0 +1,27 @@
+import type { IconSymbolName } from '@/components/ui/icon-symbol';
+import type { TaskList } from '@/types/task';
+
+/**
+ * Built-in list that new tasks fall back to. It cannot be deleted.
+ */
+export const INBOX_LIST: TaskList = {
+  id: 'inbox',
+  name: 'Inbox',
+  color: '#5F27CD',
+  icon: 'tray.fill',
+};
+
+export const LIST_COLORS = ['#5F27CD', '#FF4757', '#FFA502', '#10B981', '#3B82F6', '#FF6B9D', '#2D3436'];
+
+export const LIST_ICONS: IconSymbolName[] = [
+  'tray.fill',
+  'briefcase.fill',
+  'house.fill',
+  'person.fill',
+  'cart.fill',
+  'heart.fill',
+  'book.fill',
+  'star.fill',
+  'airplane',
+  'dumbbell.fill',
+];
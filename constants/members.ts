@@ -0,0 +1,13 @@
+import type { Member } from '@/types/task';
+
+export const MEMBER_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6'];
+
+/**
+ * The person using the app. Until sign-in exists every install is the same
+ * "You", so tasks assigned to it follow the user across synced devices.
+ */
+export const CURRENT_USER: Member = {
+  id: 'me',
+  name: 'You',
+  color: '#6366F1',
+};
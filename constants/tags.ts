@@ -0,0 +1,4 @@
+/**
+ * Palette tags are coloured from until the user picks a colour explicitly
+ */
+export const TAG_COLORS = ['#6366F1', '#EC4899', '#F59E0B', '#10B981', '#3B82F6', '#EF4444', '#8B5CF6', '#14B8A6'];
@@ -0,0 +1,119 @@
+import { Colors } from '@/constants/theme';
+import type { ModalColors, Theme } from '@/types/theme';
+
+const LIGHT_MODAL: ModalColors = {
+  background: '#fff',
+  overlay: 'rgba(0, 0, 0, 0.5)',
+  text: '#1F2937',
+  secondaryText: '#6B7280',
+  mutedText: '#9CA3AF',
+  border: '#E5E7EB',
+  surface: '#F3F4F6',
+  accent: '#6366F1',
+};
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * The original palettes, one per part of the day
+ */
+export const TIME_OF_DAY_THEMES: Record<TimeOfDay, Theme> = {
+  morning: {
+    name: 'Morning',
+    colors: ['#FFE5E5', '#FFF0E5', '#E5F3FF'],
+    accent: '#FF6B9D',
+    onAccent: '#fff',
+    text: '#2D3436',
+    placeholder: '#666',
+    card: 'rgba(255, 255, 255, 0.6)',
+    input: 'rgba(255, 255, 255, 0.2)',
+    modal: { ...LIGHT_MODAL, accent: '#FF6B9D' },
+  },
+  afternoon: {
+    name: 'Afternoon',
+    colors: ['#A8E6CF', '#FFD3B6', '#FFAAA5'],
+    accent: '#FF8B94',
+    onAccent: '#fff',
+    text: '#2D3436',
+    placeholder: '#666',
+    card: 'rgba(255, 255, 255, 0.6)',
+    input: 'rgba(255, 255, 255, 0.2)',
+    modal: { ...LIGHT_MODAL, accent: '#FF8B94' },
+  },
+  evening: {
+    name: 'Evening',
+    colors: ['#FF6B6B', '#FFA07A', '#FFD700'],
+    accent: '#FF4757',
+    onAccent: '#fff',
+    text: '#2D3436',
+    placeholder: '#666',
+    card: 'rgba(255, 255, 255, 0.6)',
+    input: 'rgba(255, 255, 255, 0.2)',
+    modal: { ...LIGHT_MODAL, accent: '#FF4757' },
+  },
+  night: {
+    name: 'Night',
+    colors: ['#1e3c72', '#2a5298', '#7474bf'],
+    accent: '#A29BFE',
+    onAccent: '#fff',
+    text: '#FFFFFF',
+    placeholder: '#999',
+    card: 'rgba(255, 255, 255, 0.6)',
+    input: 'rgba(255, 255, 255, 0.2)',
+    modal: { ...LIGHT_MODAL, accent: '#A29BFE' },
+  },
+};
+
+/**
+ * Plain light and dark palettes built from the navigation `Colors` table
+ */
+export const SYSTEM_THEMES: Record<'light' | 'dark', Theme> = {
+  light: {
+    name: 'Light',
+    colors: [Colors.light.background, '#F3F4F6', '#E5E7EB'],
+    accent: Colors.light.tint,
+    onAccent: '#fff',
+    text: Colors.light.text,
+    placeholder: Colors.light.icon,
+    card: 'rgba(255, 255, 255, 0.9)',
+    input: 'rgba(0, 0, 0, 0.05)',
+    modal: { ...LIGHT_MODAL, accent: Colors.light.tint },
+  },
+  dark: {
+    name: 'Dark',
+    colors: [Colors.dark.background, '#1E2124', '#262B2F'],
+    // The dark tint is white, which buttons with white labels can't use
+    accent: Colors.light.tint,
+    onAccent: '#fff',
+    text: Colors.dark.text,
+    placeholder: Colors.dark.icon,
+    card: 'rgba(255, 255, 255, 0.08)',
+    input: 'rgba(255, 255, 255, 0.1)',
+    modal: { ...LIGHT_MODAL, overlay: 'rgba(0, 0, 0, 0.7)', accent: Colors.light.tint },
+  },
+};
+
+/**
+ * Black and white with a yellow accent; the detail sheet uses black text
+ * and borders with a dark blue accent so white labels stay readable
+ */
+export const HIGH_CONTRAST_THEME: Theme = {
+  name: 'High Contrast',
+  colors: ['#000000', '#000000'],
+  accent: '#FFD600',
+  onAccent: '#000',
+  text: '#FFFFFF',
+  placeholder: '#D1D5DB',
+  card: 'rgba(255, 255, 255, 0.14)',
+  input: 'rgba(255, 255, 255, 0.18)',
+  modal: {
+    background: '#fff',
+    overlay: 'rgba(0, 0, 0, 0.8)',
+    text: '#000',
+    secondaryText: '#000',
+    mutedText: '#374151',
+    border: '#000',
+    surface: '#E5E7EB',
+    accent: '#1D4ED8',
+  },
+};
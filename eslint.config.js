@@ -7,4 +7,11 @@ module.exports = defineConfig([
   {
     ignores: ['dist/*'],
   },
+  {
+    // The sync server runs on plain Node, outside the app bundle
+    files: ['server/**/*.js'],
+    languageOptions: {
+      globals: { __dirname: 'readonly', Buffer: 'readonly' },
+    },
+  },
 ]);
@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useSettings } from '@/hooks/use-settings';
+import type { Theme } from '@/types/theme';
+import { resolveSunLocation } from '@/utils/solar';
+import { getThemeDefinition } from '@/utils/themes';
+
+/** How often clock-driven themes are resolved again; small enough that blends between palettes look continuous */
+const THEME_UPDATE_INTERVAL = 60000; // 1 minute
+
+/**
+ * Colours of the theme chosen in settings, kept current as the clock, the
+ * sun and the device's light/dark mode change
+ */
+export function useAppTheme(): Theme {
+  const { settings } = useSettings();
+  const colorScheme = useColorScheme() === 'dark' ? 'dark' : 'light';
+  const definition = getThemeDefinition(settings.theme);
+  const location = useMemo(() => resolveSunLocation(settings.sunLocation), [settings.sunLocation]);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!definition.dynamic) return;
+
+    // Catch up straight away after switching from a fixed theme
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), THEME_UPDATE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [definition]);
+
+  const smooth = settings.smoothThemes;
+
+  return useMemo(
+    () => definition.resolve({ now, colorScheme, location, smooth }),
+    [definition, now, colorScheme, location, smooth]
+  );
+}
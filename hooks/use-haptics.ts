@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+
+import { useSettings } from '@/hooks/use-settings';
+import { triggerHaptic, type HapticType } from '@/utils/haptics';
+
+/**
+ * `triggerHaptic` that stays silent while haptics are switched off in
+ * settings. Only changes identity when the setting does.
+ */
+export function useHaptics(): (type: HapticType) => void {
+  const { settings } = useSettings();
+  const enabled = settings.haptics;
+
+  return useCallback(
+    (type: HapticType) => {
+      if (enabled) triggerHaptic(type);
+    },
+    [enabled]
+  );
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+
+import { loadPreference, savePreference } from '@/utils/preferences';
+
+/**
+ * `useState` for a preference object that is restored on mount and saved
+ * on every change. Returns the defaults until the stored value has loaded;
+ * changes made meanwhile are applied on top of it. Nothing is saved if
+ * loading fails.
+ */
+export function usePersistedState<T extends object>(
+  key: string,
+  defaults: T
+): [T, Dispatch<SetStateAction<T>>, boolean] {
+  const [value, setValue] = useState<T>(defaults);
+  const [loaded, setLoaded] = useState(false);
+  // Callers usually pass a fresh object each render; only the first is used, as a fallback
+  const fallback = useRef(defaults);
+  // Changes made before the stored value arrives, replayed on top of it
+  const pending = useRef<SetStateAction<T>[] | null>([]);
+
+  const update = useCallback((action: SetStateAction<T>) => {
+    pending.current?.push(action);
+    setValue(action);
+  }, []);
+
+  // Restore the stored value once per key
+  useEffect(() => {
+    let cancelled = false;
+    pending.current = [];
+
+    loadPreference(key, fallback.current)
+      .then((stored) => {
+        if (cancelled) return;
+        const changes = pending.current ?? [];
+        pending.current = null;
+        setValue(
+          changes.reduce<T>(
+            (current, action) => (typeof action === 'function' ? (action as (previous: T) => T)(current) : action),
+            stored
+          )
+        );
+        setLoaded(true);
+      })
+      // Stay unloaded, so saving doesn't overwrite the stored value with the defaults
+      .catch((error) => console.warn(`Failed to load preference "${key}"`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Persist every change after the initial load
+  useEffect(() => {
+    if (!loaded) return;
+
+    savePreference(key, value).catch((error) => console.warn(`Failed to save preference "${key}"`, error));
+  }, [key, value, loaded]);
+
+  return [value, update, loaded];
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef, type Dispatch } from 'react';
+
+import type { Task } from '@/types/task';
+import {
+  cancelReminder,
+  configureReminders,
+  getScheduledReminders,
+  reminderSignature,
+  REMINDERS_SUPPORTED,
+  scheduleReminder,
+  subscribeToReminderActions,
+} from '@/utils/reminder-notifications';
+import { planReminders } from '@/utils/reminders';
+import { taskActions, type TaskAction } from '@/utils/task-store';
+
+/**
+ * Keeps the OS notification queue in step with the tasks' reminders and
+ * applies the Complete and Snooze buttons. Any change that moves, edits,
+ * completes or deletes a task reschedules or cancels its reminder here,
+ * so callers only ever update the task.
+ */
+export function useReminders(tasks: Task[], loaded: boolean, dispatch: Dispatch<TaskAction>) {
+  /** Signatures of the reminders scheduled so far; read from the OS on first sync */
+  const scheduled = useRef<Map<string, string> | null>(null);
+  /** Syncs run one after another so a slow one can't undo a newer one */
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const latestTasks = useRef(tasks);
+
+  useEffect(() => {
+    latestTasks.current = tasks;
+  }, [tasks]);
+
+  useEffect(() => {
+    if (!REMINDERS_SUPPORTED) return;
+    configureReminders().catch((error) => console.warn('Failed to set up reminders', error));
+  }, []);
+
+  // Reconcile scheduled notifications with every task change
+  useEffect(() => {
+    if (!REMINDERS_SUPPORTED || !loaded) return;
+
+    const planned = new Map(
+      planReminders(tasks).map(({ task, fireAt }) => [task.id, { task, fireAt, signature: reminderSignature(task, fireAt) }])
+    );
+
+    queue.current = queue.current.then(async () => {
+      try {
+        const current = scheduled.current ?? (await getScheduledReminders());
+
+        await Promise.all([
+          ...[...current.keys()].filter((id) => !planned.has(id)).map((id) => cancelReminder(id)),
+          ...[...planned.values()]
+            .filter(({ task, signature }) => current.get(task.id) !== signature)
+            .map(({ task, fireAt }) => scheduleReminder(task, fireAt)),
+        ]);
+
+        scheduled.current = new Map([...planned].map(([id, { signature }]) => [id, signature]));
+      } catch (error) {
+        // Re-read the queue next time rather than trust a partial update
+        scheduled.current = null;
+        console.warn('Failed to schedule reminders', error);
+      }
+    });
+  }, [tasks, loaded]);
+
+  useEffect(() => {
+    if (!REMINDERS_SUPPORTED || !loaded) return;
+
+    return subscribeToReminderActions((taskId, action) => {
+      const task = latestTasks.current.find((t) => t.id === taskId);
+      if (!task) return;
+
+      if (action === 'snooze') {
+        dispatch(taskActions.snoozeReminder(task.id));
+      } else if (!task.completed) {
+        dispatch(taskActions.toggle(task));
+      }
+    });
+  }, [loaded, dispatch]);
+}
@@ -0,0 +1,40 @@
+import React, { createContext, useCallback, useContext, useMemo, type PropsWithChildren } from 'react';
+
+import { usePersistedState } from '@/hooks/use-persisted-state';
+import { DEFAULT_SETTINGS, type AppSettings } from '@/utils/settings';
+
+interface SettingsValue {
+  settings: AppSettings;
+  /** Whether stored settings have been restored, rather than the defaults */
+  loaded: boolean;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+const SettingsContext = createContext<SettingsValue | null>(null);
+
+/**
+ * Shares the persisted app settings so every screen sees changes immediately
+ */
+export function SettingsProvider({ children }: PropsWithChildren) {
+  const [settings, setSettings, loaded] = usePersistedState('settings', DEFAULT_SETTINGS);
+
+  const updateSettings = useCallback(
+    (changes: Partial<AppSettings>) => setSettings((current) => ({ ...current, ...changes })),
+    [setSettings]
+  );
+
+  const value = useMemo(() => ({ settings, loaded, updateSettings }), [settings, loaded, updateSettings]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+
+/**
+ * Access the app settings and a setter that merges changes
+ */
+export function useSettings(): SettingsValue {
+  const value = useContext(SettingsContext);
+  if (!value) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return value;
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch } from 'react';
+import { AppState } from 'react-native';
+
+import {
+  applyEntityChanges,
+  diffEntities,
+  mergeRemote,
+  recordLocalChanges,
+  seedUnsyncedEntities,
+  snapshotEntities,
+  type SyncEntity,
+  type SyncMeta,
+} from '@/utils/sync';
+import { pullChanges, pushChanges, type SyncServer } from '@/utils/sync-client';
+import { emptySyncMeta, loadSyncMeta, saveSyncMeta } from '@/utils/sync-repository';
+import type { TaskAction, TaskState } from '@/utils/task-store';
+
+export type SyncStatus = 'off' | 'synced' | 'pending' | 'error';
+
+export interface SyncControls {
+  status: SyncStatus;
+  /** Whether a push or pull is in flight */
+  syncing: boolean;
+  /** Local changes the server hasn't accepted yet */
+  pendingCount: number;
+  lastSyncedAt?: number;
+  /** Why the last attempt failed */
+  error?: string;
+  syncNow: () => void;
+}
+
+/** Quiet period after a local change before it's pushed */
+const SYNC_DELAY_MS = 1500;
+/** How often to pull while the app is open */
+const SYNC_INTERVAL_MS = 30000;
+
+/**
+ * Offline-first sync of tasks and lists with a self-hosted server. Every
+ * local change is diffed into per-field changes and queued, so editing
+ * works the same offline; queued changes are pushed and remote ones pulled
+ * shortly after each edit, periodically and whenever the app comes back to
+ * the foreground. Conflicts resolve per field, last writer wins.
+ */
+export function useSync(state: TaskState, dispatch: Dispatch<TaskAction>, server: SyncServer | null): SyncControls {
+  const meta = useRef<SyncMeta | null>(null);
+  /** The synced entities as of the last diff; local changes are measured against it */
+  const baseline = useRef<Map<string, SyncEntity> | null>(null);
+  const latestServer = useRef(server);
+  const inFlight = useRef(false);
+  const runAgain = useRef(false);
+  const delayTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [metaLoaded, setMetaLoaded] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number>();
+  const [error, setError] = useState<string>();
+
+  const serverUrl = server?.url;
+  const { tasks, lists, trash, archive, loaded } = state;
+  // Only the synced collections matter, not the whole state
+  const entities = useMemo(() => snapshotEntities({ tasks, lists, trash, archive }), [tasks, lists, trash, archive]);
+
+  useEffect(() => {
+    latestServer.current = server;
+  }, [server]);
+
+  const updateMeta = useCallback((next: SyncMeta) => {
+    meta.current = next;
+    setPendingCount(next.outbox.length);
+    saveSyncMeta(next).catch((error) => console.warn('Failed to save sync state', error));
+  }, []);
+
+  useEffect(() => {
+    loadSyncMeta()
+      .then((loaded) => {
+        meta.current = loaded;
+        setPendingCount(loaded.outbox.length);
+        setMetaLoaded(true);
+      })
+      .catch((error) => {
+        // Leave sync disabled so the outbox is not overwritten
+        console.warn('Failed to load sync state', error);
+      });
+  }, []);
+
+  /** Pushes the outbox, then pulls and merges everything newer than the cursor */
+  const runSync = useCallback(
+    async (target: SyncServer) => {
+      const switched = () => latestServer.current?.url !== target.url;
+      const current = () => meta.current as SyncMeta;
+
+      const pushed = current().outbox;
+      if (pushed.length > 0) {
+        await pushChanges(target, pushed);
+        if (switched()) return;
+        // Changes queued during the request stay for the next run
+        const sent = new Set(pushed);
+        updateMeta({ ...current(), outbox: current().outbox.filter((change) => !sent.has(change)) });
+      }
+
+      const { revision, records } = await pullChanges(target, current().cursor);
+      if (switched() || !baseline.current) return;
+
+      const merged = mergeRemote(current(), records, baseline.current);
+      if (merged.changes.length > 0) {
+        // Moved in step with the state so pulled values aren't diffed back into the outbox
+        baseline.current = applyEntityChanges(baseline.current, merged.changes);
+        dispatch({ type: 'sync/applied', changes: merged.changes });
+      }
+      updateMeta({ ...merged.meta, cursor: revision });
+    },
+    [dispatch, updateMeta]
+  );
+
+  const syncNow = useCallback(() => {
+    const target = latestServer.current;
+    if (!target || !meta.current || !baseline.current) return;
+    if (inFlight.current) {
+      runAgain.current = true;
+      return;
+    }
+
+    inFlight.current = true;
+    setSyncing(true);
+    runSync(target)
+      .then(() => {
+        setError(undefined);
+        setLastSyncedAt(Date.now());
+      })
+      .catch((error) => setError(error instanceof Error ? error.message : String(error)))
+      .finally(() => {
+        inFlight.current = false;
+        setSyncing(false);
+        if (runAgain.current) {
+          runAgain.current = false;
+          syncNow();
+        }
+      });
+  }, [runSync]);
+
+  const scheduleSync = useCallback(() => {
+    if (delayTimer.current) clearTimeout(delayTimer.current);
+    delayTimer.current = setTimeout(syncNow, SYNC_DELAY_MS);
+  }, [syncNow]);
+
+  useEffect(
+    () => () => {
+      if (delayTimer.current) clearTimeout(delayTimer.current);
+    },
+    []
+  );
+
+  // Queue every local change, and start over when pointed at another server
+  useEffect(() => {
+    if (!loaded || !metaLoaded || !meta.current) return;
+
+    // Nothing is queued without a server; connecting seeds everything afresh
+    if (!serverUrl) {
+      baseline.current = null;
+      if (meta.current.serverUrl) updateMeta(emptySyncMeta(meta.current.deviceId, ''));
+      return;
+    }
+
+    let next = meta.current;
+    if (next.serverUrl !== serverUrl) next = emptySyncMeta(next.deviceId, serverUrl);
+
+    next = recordLocalChanges(next, seedUnsyncedEntities(next, entities));
+    if (baseline.current) {
+      const stamp = { updatedAt: Date.now(), deviceId: next.deviceId };
+      next = recordLocalChanges(next, diffEntities(baseline.current, entities, stamp));
+    }
+    baseline.current = entities;
+
+    if (next === meta.current) return;
+    updateMeta(next);
+    scheduleSync();
+  }, [entities, loaded, metaLoaded, serverUrl, updateMeta, scheduleSync]);
+
+  // Catch up on connecting, then poll and resync on returning to the app
+  useEffect(() => {
+    if (!serverUrl || !loaded || !metaLoaded) return;
+
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') syncNow();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [serverUrl, loaded, metaLoaded, syncNow]);
+
+  const status: SyncStatus = !server ? 'off' : error ? 'error' : pendingCount > 0 ? 'pending' : 'synced';
+
+  return useMemo(
+    () => ({ status, syncing, pendingCount, lastSyncedAt, error, syncNow }),
+    [status, syncing, pendingCount, lastSyncedAt, error, syncNow]
+  );
+}
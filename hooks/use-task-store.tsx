@@ -0,0 +1,123 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, type Dispatch, type PropsWithChildren } from 'react';
+
+import { useReminders } from '@/hooks/use-reminders';
+import { useSettings } from '@/hooks/use-settings';
+import { useSync, type SyncControls } from '@/hooks/use-sync';
+import {
+  historyReducer,
+  initialTaskHistory,
+  selectRedoLabel,
+  selectUndoLabel,
+  type UndoNotice,
+} from '@/utils/task-history';
+import { loadTaskData, saveTaskData } from '@/utils/task-repository';
+import { taskActions, type TaskAction, type TaskState } from '@/utils/task-store';
+
+interface TaskHistoryControls {
+  undo: () => void;
+  redo: () => void;
+  /** Label of the change undo would revert, if any */
+  undoLabel?: string;
+  redoLabel?: string;
+  /** Latest destructive change, for the undo toast */
+  notice: UndoNotice | null;
+}
+
+interface TaskStoreValue {
+  state: TaskState;
+  dispatch: Dispatch<TaskAction>;
+  history: TaskHistoryControls;
+  sync: SyncControls;
+}
+
+const TaskStoreContext = createContext<TaskStoreValue | null>(null);
+
+/**
+ * Owns the task state for the whole app, with undo history, and keeps it
+ * in sync with storage and, when configured, the sync server
+ */
+export function TaskStoreProvider({ children }: PropsWithChildren) {
+  const [history, dispatch] = useReducer(historyReducer, initialTaskHistory);
+  const state = history.present;
+  const { settings, loaded: settingsLoaded } = useSettings();
+
+  // Restore persisted tasks on startup
+  useEffect(() => {
+    loadTaskData()
+      .then((data) => dispatch({ type: 'tasks/loaded', ...data }))
+      .catch((error) => {
+        // Leave persistence disabled so unreadable data is not overwritten
+        console.warn('Failed to load tasks', error);
+      });
+  }, []);
+
+  // Persist every task change once the initial load has completed
+  useEffect(() => {
+    if (!state.loaded) return;
+
+    saveTaskData({
+      tasks: state.tasks,
+      lists: state.lists,
+      tagColors: state.tagColors,
+      trash: state.trash,
+      archive: state.archive,
+    }).catch((error) => console.warn('Failed to save tasks', error));
+  }, [state.tasks, state.lists, state.tagColors, state.trash, state.archive, state.loaded]);
+
+  // Purge expired trash on startup and whenever the retention period changes.
+  // Waits for the stored settings so a longer retention isn't cut short.
+  useEffect(() => {
+    if (!state.loaded || !settingsLoaded || settings.trashRetentionDays === 0) return;
+
+    dispatch(taskActions.purgeExpired(settings.trashRetentionDays));
+  }, [state.loaded, settingsLoaded, settings.trashRetentionDays]);
+
+  // Archive long-completed tasks on startup and whenever the period changes
+  useEffect(() => {
+    if (!state.loaded || !settingsLoaded || settings.autoArchiveDays === 0) return;
+
+    dispatch(taskActions.archiveCompleted(settings.autoArchiveDays));
+  }, [state.loaded, settingsLoaded, settings.autoArchiveDays]);
+
+  useReminders(state.tasks, state.loaded, dispatch);
+
+  // Sync stays off until a server is configured
+  const syncServerUrl = settingsLoaded ? settings.syncServerUrl.trim() : '';
+  const syncServer = useMemo(
+    () => (syncServerUrl ? { url: syncServerUrl, token: settings.syncToken.trim() || undefined } : null),
+    [syncServerUrl, settings.syncToken]
+  );
+  const sync = useSync(state, dispatch, syncServer);
+
+  const undo = useCallback(() => dispatch({ type: 'history/undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'history/redo' }), []);
+
+  const undoLabel = selectUndoLabel(history);
+  const redoLabel = selectRedoLabel(history);
+  const { notice } = history;
+
+  const value = useMemo(
+    () => ({ state, dispatch, history: { undo, redo, undoLabel, redoLabel, notice }, sync }),
+    [state, undo, redo, undoLabel, redoLabel, notice, sync]
+  );
+
+  return <TaskStoreContext.Provider value={value}>{children}</TaskStoreContext.Provider>;
+}
+
+/**
+ * Access the shared task state and dispatcher
+ */
+export function useTaskStore(): TaskStoreValue {
+  const store = useContext(TaskStoreContext);
+  if (!store) {
+    throw new Error('useTaskStore must be used within a TaskStoreProvider');
+  }
+  return store;
+}
+
+/**
+ * Reads a derived value from the task state
+ */
+export function useTaskSelector<T>(selector: (state: TaskState) => T): T {
+  return selector(useTaskStore().state);
+}
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+
+import type { Member } from '@/types/task';
+import { teamBackend, type TeamBackend } from '@/utils/team-backend';
+
+interface TeamValue {
+  /** The signed-in member, once loaded */
+  me: Member | null;
+  /** Everyone on the team, the current user first */
+  members: Member[];
+  loaded: boolean;
+  invite: (name: string) => Promise<Member>;
+  remove: (id: string) => Promise<void>;
+}
+
+const TeamContext = createContext<TeamValue | null>(null);
+
+/**
+ * Loads the team roster from the backend and shares it with every screen
+ */
+export function TeamProvider({ children, backend = teamBackend }: PropsWithChildren<{ backend?: TeamBackend }>) {
+  const [me, setMe] = useState<Member | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([backend.getCurrentUser(), backend.listMembers()])
+      .then(([user, roster]) => {
+        if (cancelled) return;
+        setMe(user);
+        setMembers(roster);
+      })
+      .catch((error) => console.warn('Failed to load team', error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backend]);
+
+  const invite = useCallback(
+    async (name: string) => {
+      const member = await backend.inviteMember(name);
+      setMembers((current) => [...current, member]);
+      return member;
+    },
+    [backend]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await backend.removeMember(id);
+      setMembers((current) => current.filter((member) => member.id !== id));
+    },
+    [backend]
+  );
+
+  const value = useMemo(() => ({ me, members, loaded, invite, remove }), [me, members, loaded, invite, remove]);
+
+  return <TeamContext.Provider value={value}>{children}</TeamContext.Provider>;
+}
+
+/**
+ * Access the team roster and the current user
+ */
+export function useTeam(): TeamValue {
+  const value = useContext(TeamContext);
+  if (!value) {
+    throw new Error('useTeam must be used within a TeamProvider');
+  }
+  return value;
+}
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+
+/**
+ * Binds Ctrl/⌘+Z to undo and Ctrl/⌘+Shift+Z or Ctrl+Y to redo on web.
+ * Text fields keep their own undo.
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
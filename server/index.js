@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+
+/**
+ * Reference sync server for the task manager. Stores every field of every
+ * task and list with the stamp of its last write, keeps the newer value when
+ * devices disagree, and hands out changes by revision. No dependencies; data
+ * lives in a single JSON file. See server/README.md for the API.
+ */
+
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.DATA_FILE || path.join(__dirname, "data.json");
+const TOKEN = process.env.SYNC_TOKEN || "";
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const COLLECTIONS = ["tasks", "lists"];
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * { revision, records: { "tasks/<id>": { collection, id, fields: { name: { value, updatedAt, deviceId, revision } } } } }
+ */
+const load = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, "utf8"));
+  } catch (error) {
+    if (error.code !== "ENOENT") throw error;
+    return { revision: 0, records: {} };
+  }
+};
+
+const save = (data) => {
+  // Write then rename so a crash mid-write can't corrupt the file
+  const temp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data));
+  fs.renameSync(temp, DATA_FILE);
+};
+
+const data = load();
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Same rule as the app: later writes win, the device id breaks ties
+ */
+const isNewer = (a, b) =>
+  !b || a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+const isChange = (change) =>
+  typeof change === "object" &&
+  change !== null &&
+  COLLECTIONS.includes(change.collection) &&
+  typeof change.id === "string" &&
+  typeof change.field === "string" &&
+  typeof change.updatedAt === "number" &&
+  typeof change.deviceId === "string" &&
+  "value" in change;
+
+/**
+ * Applies each change that beats the stored field, giving it a new revision
+ */
+const push = (changes) => {
+  let applied = 0;
+
+  for (const { collection, id, field, value, updatedAt, deviceId } of changes) {
+    const key = `${collection}/${id}`;
+    const record = (data.records[key] = data.records[key] || { collection, id, fields: {} });
+    if (!isNewer({ updatedAt, deviceId }, record.fields[field])) continue;
+
+    data.revision += 1;
+    record.fields[field] = { value, updatedAt, deviceId, revision: data.revision };
+    applied += 1;
+  }
+
+  if (applied > 0) save(data);
+  return { revision: data.revision };
+};
+
+/**
+ * Every record with a field written after `since`, with all of its fields
+ */
+const pull = (since) => ({
+  revision: data.revision,
+  records: Object.values(data.records)
+    .filter((record) => Object.values(record.fields).some((stamp) => stamp.revision > since))
+    .map(({ collection, id, fields }) => ({
+      collection,
+      id,
+      fields: Object.fromEntries(
+        Object.entries(fields).map(([field, { value, updatedAt, deviceId }]) => [field, { value, updatedAt, deviceId }])
+      ),
+    })),
+});
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error("Request body too large"), { status: 413 }));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}"));
+      } catch {
+        reject(Object.assign(new Error("Body must be JSON"), { status: 400 }));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, "http://localhost");
+
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method === "GET" && url.pathname === "/health") return send(res, 200, { ok: true, revision: data.revision });
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: "Invalid access token" });
+  }
+
+  if (req.method === "POST" && url.pathname === "/sync/push") {
+    const { changes } = await readBody(req);
+    if (!Array.isArray(changes) || !changes.every(isChange)) {
+      return send(res, 400, { error: "Expected { changes: FieldChange[] }" });
+    }
+    return send(res, 200, push(changes));
+  }
+
+  if (req.method === "GET" && url.pathname === "/sync/pull") {
+    const since = Number(url.searchParams.get("since") || 0);
+    if (!Number.isInteger(since) || since < 0) return send(res, 400, { error: "since must be a revision number" });
+    return send(res, 200, pull(since));
+  }
+
+  return send(res, 404, { error: "Not found" });
+};
+
+http
+  .createServer((req, res) =>
+    handle(req, res).catch((error) => {
+      if (!error.status) console.error(error);
+      send(res, error.status || 500, { error: error.status ? error.message : "Internal server error" });
+    })
+  )
+  .listen(PORT, () => {
+    console.log(`Task sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+    if (!TOKEN) console.log("SYNC_TOKEN is not set; anyone who can reach this port can read and write tasks.");
+  });
@@ -0,0 +1,109 @@
+// ============================================================================
+// Task Domain Types
+// ============================================================================
+
+export type Priority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Repeat rule for a task, modelled on the RFC 5545 RRULE subset we support
+ */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days/weeks/months/years */
+  interval: number;
+  /** Weekdays for weekly rules, 0 = Sunday */
+  weekdays?: number[];
+  /** Day of month for monthly rules */
+  monthDay?: number;
+  /** Month and day (`MM-DD`) for yearly rules, so Feb 29 returns in leap years */
+  yearDate?: string;
+  /** Last date (`YYYY-MM-DD`) an occurrence may fall on */
+  until?: string;
+}
+
+export type ReminderTiming = 'due' | 'before' | 'custom';
+
+/**
+ * When to send a local notification about a task
+ */
+export interface Reminder {
+  /** At the due moment, some minutes before it, or at a fixed time */
+  timing: ReminderTiming;
+  /** Minutes before the due moment, for `before` reminders */
+  minutesBefore?: number;
+  /** Epoch milliseconds, for `custom` reminders */
+  at?: number;
+  /** Epoch milliseconds a snoozed reminder fires again instead */
+  snoozedUntil?: number;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+/**
+ * Teammate tasks can be assigned to
+ */
+export interface Member {
+  id: string;
+  name: string;
+  /** Background of the member's initials avatar */
+  color: string;
+}
+
+/**
+ * Named list (project) that groups tasks
+ */
+export interface TaskList {
+  id: string;
+  name: string;
+  color: string;
+  /** SF Symbol name, mapped for Android/web by `IconSymbol` */
+  icon: string;
+  /** Ids of the teammates the list is shared with; unset keeps it private */
+  memberIds?: string[];
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  priority: Priority;
+  /** Id of the `TaskList` the task belongs to */
+  listId: string;
+  /** Normalized tag names, without the leading `#` */
+  tags: string[];
+  /** Ordered checklist items */
+  subtasks: Subtask[];
+  /** Local due date as `YYYY-MM-DD` */
+  dueDate?: string;
+  /** Local due time as `HH:mm`; only meaningful alongside `dueDate` */
+  dueTime?: string;
+  /** Repeat rule; completing the task creates the next occurrence */
+  recurrence?: Recurrence;
+  /** Local notification about the task, rescheduled whenever it changes */
+  reminder?: Reminder;
+  /** Id of the `Member` responsible for the task */
+  assignee?: string;
+  /** todo.txt `@context` names, without the `@` */
+  contexts?: string[];
+  /** todo.txt `key:value` extensions the app has no field for */
+  extensions?: Record<string, string>;
+  /** Manual position, lower first; breaks ties in every sort */
+  order: number;
+  /** Epoch milliseconds when the task was created */
+  createdAt: number;
+  /** Epoch milliseconds of the last edit to title or description */
+  updatedAt?: number;
+  /** Epoch milliseconds when the task was last completed */
+  completedAt?: number;
+  /** Epoch milliseconds when the completed task was archived */
+  archivedAt?: number;
+  /** Epoch milliseconds when the task was moved to the trash */
+  deletedAt?: number;
+}
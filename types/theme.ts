@@ -0,0 +1,44 @@
+// ============================================================================
+// Theme Types
+// ============================================================================
+
+/**
+ * Colours of the task detail sheet. It stays a light surface in every theme
+ * because the pickers inside it are drawn for one.
+ */
+export interface ModalColors {
+  background: string;
+  /** Dims the screen behind the sheet */
+  overlay: string;
+  text: string;
+  /** Section titles and icons */
+  secondaryText: string;
+  /** Timestamps, hints and placeholders */
+  mutedText: string;
+  border: string;
+  /** Small buttons such as Edit and close */
+  surface: string;
+  /** Accent for chips and buttons inside the sheet */
+  accent: string;
+}
+
+/**
+ * Resolved colours for the main screen
+ */
+export interface Theme {
+  name: string;
+  /** Background gradient, top to bottom */
+  colors: [string, string, ...string[]];
+  accent: string;
+  /** Text and icons on accent-coloured buttons */
+  onAccent: string;
+  /** Text drawn straight on the gradient */
+  text: string;
+  /** Placeholders in the inputs on the gradient */
+  placeholder: string;
+  /** Task rows */
+  card: string;
+  /** The add-task box, search field and view toggle */
+  input: string;
+  modal: ModalColors;
+}
@@ -0,0 +1,118 @@
+import type { Task } from '@/types/task';
+import {
+  addDays,
+  addMinutes,
+  compareDue,
+  formatDue,
+  fromDateKey,
+  getDueMoment,
+  getDueStatus,
+  toDateKey,
+  toTimeKey,
+} from '@/utils/due-date';
+
+const task = (changes: Partial<Task> = {}): Task => ({
+  id: '1',
+  title: 'Task',
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+describe('date keys', () => {
+  it('round-trips local dates and times', () => {
+    const date = fromDateKey('2026-03-08', '07:05');
+    expect(toDateKey(date)).toBe('2026-03-08');
+    expect(toTimeKey(date)).toBe('07:05');
+  });
+
+  it.each([
+    ['2026-01-31', 1, '2026-02-01'],
+    ['2026-03-01', -1, '2026-02-28'],
+    ['2026-12-31', 1, '2027-01-01'],
+    ['2028-02-28', 1, '2028-02-29'],
+  ])('%s plus %i days is %s', (dateKey, days, expected) => {
+    expect(addDays(dateKey, days)).toBe(expected);
+  });
+
+  it.each([
+    ['23:30', 45, '00:15'],
+    ['00:10', -15, '23:55'],
+    ['09:00', 60 * 24, '09:00'],
+  ])('%s plus %i minutes is %s', (timeKey, minutes, expected) => {
+    expect(addMinutes(timeKey, minutes)).toBe(expected);
+  });
+});
+
+describe('getDueMoment', () => {
+  it('is the due time when there is one', () => {
+    expect(getDueMoment({ dueDate: '2026-10-19', dueTime: '09:30' })).toEqual(fromDateKey('2026-10-19', '09:30'));
+  });
+
+  it('is the last moment of the day otherwise', () => {
+    expect(getDueMoment({ dueDate: '2026-10-19' })).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+  });
+
+  it('is null without a due date', () => {
+    expect(getDueMoment({ dueTime: '09:30' })).toBeNull();
+  });
+});
+
+describe('getDueStatus', () => {
+  const now = fromDateKey('2026-10-19', '12:00');
+
+  it.each([
+    ['yesterday', { dueDate: '2026-10-18' }, 'overdue'],
+    ['yesterday late in the evening', { dueDate: '2026-10-18', dueTime: '23:59' }, 'overdue'],
+    ['earlier today', { dueDate: '2026-10-19', dueTime: '11:59' }, 'overdue'],
+    ['right now', { dueDate: '2026-10-19', dueTime: '12:00' }, 'today'],
+    ['later today', { dueDate: '2026-10-19', dueTime: '12:01' }, 'today'],
+    ['today without a time', { dueDate: '2026-10-19' }, 'today'],
+    ['tomorrow just after midnight', { dueDate: '2026-10-20', dueTime: '00:00' }, 'upcoming'],
+    ['next year', { dueDate: '2027-01-01' }, 'upcoming'],
+  ] as const)('calls a task due %s %s', (_label, due, expected) => {
+    expect(getDueStatus(task(due), now)).toBe(expected);
+  });
+
+  it('keeps an untimed task due today until the day ends', () => {
+    const lastMoment = new Date(2026, 9, 19, 23, 59, 59, 999);
+    expect(getDueStatus(task({ dueDate: '2026-10-19' }), lastMoment)).toBe('today');
+    expect(getDueStatus(task({ dueDate: '2026-10-19' }), new Date(2026, 9, 20))).toBe('overdue');
+  });
+
+  it('ignores completed and undated tasks', () => {
+    expect(getDueStatus(task({ dueDate: '2026-10-18', completed: true }), now)).toBeNull();
+    expect(getDueStatus(task(), now)).toBeNull();
+  });
+});
+
+describe('formatDue', () => {
+  const now = fromDateKey('2026-10-19', '12:00');
+
+  it.each([
+    [{ dueDate: '2026-10-19' }, 'Today'],
+    [{ dueDate: '2026-10-20', dueTime: '09:00' }, 'Tomorrow 09:00'],
+    [{ dueDate: '2026-10-18' }, 'Yesterday'],
+    [{}, ''],
+  ])('formats %o as %p', (due, expected) => {
+    expect(formatDue(due, now)).toBe(expected);
+  });
+});
+
+describe('compareDue', () => {
+  it('orders by due moment with undated tasks last', () => {
+    const tasks = [
+      task({ id: 'undated' }),
+      task({ id: 'tomorrow', dueDate: '2026-10-20' }),
+      task({ id: 'today', dueDate: '2026-10-19' }),
+      task({ id: 'this morning', dueDate: '2026-10-19', dueTime: '09:00' }),
+    ];
+    expect([...tasks].sort(compareDue).map((t) => t.id)).toEqual(['this morning', 'today', 'tomorrow', 'undated']);
+  });
+});
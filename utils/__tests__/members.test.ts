@@ -0,0 +1,25 @@
+import type { Member, TaskList } from '@/types/task';
+import { getAssignableMembers } from '@/utils/members';
+
+const member = (id: string): Member => ({ id, name: id, color: '#000000' });
+
+const MEMBERS = [member('me'), member('ada'), member('grace'), member('alan')];
+
+const list = (memberIds?: string[]): TaskList => ({
+  id: 'work',
+  name: 'Work',
+  color: '#3B82F6',
+  icon: 'briefcase',
+  ...(memberIds && { memberIds }),
+});
+
+describe('getAssignableMembers', () => {
+  it.each<[string, TaskList | undefined, string[]]>([
+    ['no list', undefined, ['me']],
+    ['a private list', list(), ['me']],
+    ['a shared list', list(['alan', 'ada']), ['me', 'ada', 'alan']],
+    ['a list shared with someone who left', list(['ada', 'gone']), ['me', 'ada']],
+  ])('offers the current user and the sharers for %s, in team order', (_name, taskList, expected) => {
+    expect(getAssignableMembers(MEMBERS, 'me', taskList).map((m) => m.id)).toEqual(expected);
+  });
+});
@@ -0,0 +1,151 @@
+import { fromDateKey } from '@/utils/due-date';
+import { parseQuickAdd, type QuickAddResult } from '@/utils/quick-add';
+
+// Monday 19 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+type Expected = Partial<Omit<QuickAddResult, 'tokens'>>;
+
+const parse = (input: string) => {
+  const { tokens, ...result } = parseQuickAdd(input, NOW);
+  return result;
+};
+
+describe('parseQuickAdd', () => {
+  describe('dates', () => {
+    it.each<[string, Expected]>([
+      ['Call mom today', { title: 'Call mom', dueDate: '2026-10-19' }],
+      ['Call mom tomorrow', { title: 'Call mom', dueDate: '2026-10-20' }],
+      ['Call mom tmrw', { title: 'Call mom', dueDate: '2026-10-20' }],
+      ['Ship friday, then relax', { title: 'Ship, then relax', dueDate: '2026-10-23' }],
+      ['Review on mon', { title: 'Review', dueDate: '2026-10-26' }],
+      ['Review monday', { title: 'Review', dueDate: '2026-10-26' }],
+      ['Plan next week', { title: 'Plan', dueDate: '2026-10-26' }],
+      ['Renew passport in 3 days', { title: 'Renew passport', dueDate: '2026-10-22' }],
+      ['Renew passport in a week', { title: 'Renew passport', dueDate: '2026-10-26' }],
+      ['Renew passport in 2 months', { title: 'Renew passport', dueDate: '2026-12-19' }],
+      ['File taxes on 2026-11-02', { title: 'File taxes', dueDate: '2026-11-02' }],
+      ['Party dec 24th', { title: 'Party', dueDate: '2026-12-24' }],
+      ['Party 3 march', { title: 'Party', dueDate: '2027-03-03' }],
+      ['Past date oct 1', { title: 'Past date', dueDate: '2027-10-01' }],
+    ])('%s', (input, expected) => {
+      expect(parse(input)).toEqual({ tags: [], ...expected });
+    });
+
+    it.each([
+      ['2026-01-31', 'in 1 month', '2026-02-28'],
+      ['2028-01-31', 'in a month', '2028-02-29'],
+      ['2026-03-31', 'in 6 months', '2026-09-30'],
+      ['2026-12-15', 'in 2 months', '2027-02-15'],
+    ])('on %s, "%s" clamps to the end of shorter months', (today, phrase, dueDate) => {
+      expect(parseQuickAdd(`Renew ${phrase}`, fromDateKey(today, '10:00'))).toMatchObject({ title: 'Renew', dueDate });
+    });
+
+    it('leaves impossible dates in the title', () => {
+      expect(parse('Ghost feb 30')).toEqual({ title: 'Ghost feb 30', tags: [] });
+      expect(parse('Ghost 2026-02-30')).toEqual({ title: 'Ghost 2026-02-30', tags: [] });
+    });
+
+    it('keeps short weekday names without a preposition', () => {
+      expect(parse('Pack for the sun')).toEqual({ title: 'Pack for the sun', tags: [] });
+    });
+  });
+
+  describe('times', () => {
+    it.each<[string, Expected]>([
+      ['Dentist tomorrow 9am', { title: 'Dentist', dueDate: '2026-10-20', dueTime: '09:00' }],
+      ['Dentist tomorrow at 2:30pm', { title: 'Dentist', dueDate: '2026-10-20', dueTime: '14:30' }],
+      ['Lunch at noon', { title: 'Lunch', dueDate: '2026-10-19', dueTime: '12:00' }],
+      ['Standup 9:00', { title: 'Standup', dueDate: '2026-10-20', dueTime: '09:00' }],
+      ['Call 17:45', { title: 'Call', dueDate: '2026-10-19', dueTime: '17:45' }],
+      ['Movie tonight', { title: 'Movie', dueDate: '2026-10-19', dueTime: '20:00' }],
+      ['Movie tonight 9pm', { title: 'Movie', dueDate: '2026-10-19', dueTime: '21:00' }],
+    ])('%s', (input, expected) => {
+      expect(parse(input)).toEqual({ tags: [], ...expected });
+    });
+
+    it('leaves out-of-range times in the title', () => {
+      expect(parse('Odd 25:00')).toEqual({ title: 'Odd 25:00', tags: [] });
+      expect(parse('Odd 13pm')).toEqual({ title: 'Odd 13pm', tags: [] });
+    });
+  });
+
+  describe('priority and tags', () => {
+    it.each<[string, Expected]>([
+      ['Fix prod !urgent', { title: 'Fix prod', priority: 'urgent', tags: [] }],
+      ['Fix prod !High #work', { title: 'Fix prod', priority: 'high', tags: ['work'] }],
+      ['Buy milk #home #errands', { title: 'Buy milk', tags: ['home', 'errands'] }],
+      ['Shout !loudly', { title: 'Shout !loudly', tags: [] }],
+    ])('%s', (input, expected) => {
+      expect(parse(input)).toEqual(expected);
+    });
+  });
+
+  describe('recurrence', () => {
+    it.each<[string, Expected]>([
+      ['Water plants every day', { title: 'Water plants', recurrence: { frequency: 'daily', interval: 1 } }],
+      ['Backup every other week', { title: 'Backup', recurrence: { frequency: 'weekly', interval: 2 } }],
+      ['Haircut every 6 weeks', { title: 'Haircut', recurrence: { frequency: 'weekly', interval: 6 } }],
+      [
+        'Gym every mon, wed and fri',
+        { title: 'Gym', dueDate: '2026-10-19', recurrence: { frequency: 'weekly', interval: 1, weekdays: [1, 3, 5] } },
+      ],
+      [
+        'Standup every weekday',
+        {
+          title: 'Standup',
+          dueDate: '2026-10-19',
+          recurrence: { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] },
+        },
+      ],
+      ['Daily journal', { title: 'journal', recurrence: { frequency: 'daily', interval: 1 } }],
+      ['Water plants daily', { title: 'Water plants', recurrence: { frequency: 'daily', interval: 1 } }],
+      ['Review goals annually.', { title: 'Review goals.', recurrence: { frequency: 'yearly', interval: 1 } }],
+    ])('%s', (input, expected) => {
+      expect(parse(input)).toEqual({ tags: [], ...expected });
+    });
+
+    it('reads a trailing frequency word before tags', () => {
+      expect(parse('Water plants weekly #garden')).toEqual({
+        title: 'Water plants',
+        tags: ['garden'],
+        recurrence: { frequency: 'weekly', interval: 1 },
+      });
+    });
+
+    it('treats a frequency word inside the title as a plain word', () => {
+      expect(parse('Get a daily planner')).toEqual({ title: 'Get a daily planner', tags: [] });
+      expect(parse('Send the weekly report tomorrow')).toEqual({
+        title: 'Send the weekly report',
+        tags: [],
+        dueDate: '2026-10-20',
+      });
+    });
+  });
+
+  describe('combined input', () => {
+    it('reads every kind of phrase at once', () => {
+      expect(parseQuickAdd('Pay rent tomorrow 9am !urgent #home every month', NOW)).toEqual({
+        title: 'Pay rent',
+        tags: ['home'],
+        priority: 'urgent',
+        dueDate: '2026-10-20',
+        dueTime: '09:00',
+        recurrence: { frequency: 'monthly', interval: 1 },
+        tokens: [
+          { kind: 'due', label: expect.any(String) },
+          { kind: 'priority', label: 'Urgent' },
+          { kind: 'recurrence', label: expect.any(String) },
+        ],
+      });
+    });
+
+    it('takes a title made only of keywords literally', () => {
+      expect(parseQuickAdd('Tomorrow', NOW)).toEqual({ title: 'Tomorrow', tags: [], tokens: [] });
+    });
+
+    it('returns no tokens for plain text', () => {
+      expect(parseQuickAdd('Just a task', NOW).tokens).toEqual([]);
+    });
+  });
+});
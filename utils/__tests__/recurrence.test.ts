@@ -0,0 +1,169 @@
+import type { Recurrence, Task } from '@/types/task';
+import { anchorRecurrence, getNextOccurrence, isRecurrence, parseRRule, toRRule } from '@/utils/recurrence';
+import { initialTaskState, taskActions, taskReducer } from '@/utils/task-store';
+
+const series = (rule: Recurrence, from: string, count: number): string[] => {
+  const dates: string[] = [];
+  let date: string | null = from;
+  while (dates.length < count && date) {
+    date = getNextOccurrence(rule, date);
+    if (date) dates.push(date);
+  }
+  return dates;
+};
+
+describe('monthly rules', () => {
+  it('clamps the day to short months and returns to it afterwards', () => {
+    const rule = anchorRecurrence({ frequency: 'monthly', interval: 1 }, '2026-01-31');
+    expect(rule.monthDay).toBe(31);
+    expect(series(rule, '2026-01-31', 4)).toEqual(['2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31']);
+  });
+
+  it('leaves rules that already have a day alone', () => {
+    const rule: Recurrence = { frequency: 'monthly', interval: 1, monthDay: 15 };
+    expect(anchorRecurrence(rule, '2026-01-31')).toBe(rule);
+  });
+
+  it('pins the day when a task is added', () => {
+    const action = taskActions.add({
+      title: 'Rent',
+      description: '',
+      priority: 'normal',
+      listId: 'inbox',
+      tags: [],
+      dueDate: '2026-01-31',
+      recurrence: { frequency: 'monthly', interval: 1 },
+    });
+    const state = taskReducer(initialTaskState, action);
+    expect(state.tasks[0].recurrence).toEqual({ frequency: 'monthly', interval: 1, monthDay: 31 });
+  });
+
+  it('keeps the day across completions of a rule without one', () => {
+    const task: Task = {
+      id: '1',
+      title: 'Rent',
+      description: '',
+      completed: false,
+      priority: 'normal',
+      listId: 'inbox',
+      tags: [],
+      subtasks: [],
+      order: 0,
+      createdAt: 0,
+      dueDate: '2026-01-31',
+      recurrence: { frequency: 'monthly', interval: 1 },
+    };
+
+    let state = { ...initialTaskState, tasks: [task] };
+    const dueDates: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const current = state.tasks.find((t) => !t.completed) as Task;
+      state = taskReducer(state, taskActions.toggle(current));
+      dueDates.push(state.tasks.find((t) => !t.completed)?.dueDate as string);
+    }
+    expect(dueDates).toEqual(['2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+});
+
+describe('yearly rules', () => {
+  it('return to Feb 29 in leap years', () => {
+    const rule = anchorRecurrence({ frequency: 'yearly', interval: 1 }, '2028-02-29');
+    expect(rule.yearDate).toBe('02-29');
+    expect(series(rule, '2028-02-29', 5)).toEqual(['2029-02-28', '2030-02-28', '2031-02-28', '2032-02-29', '2033-02-28']);
+  });
+
+  it('skip years by the interval', () => {
+    const rule = anchorRecurrence({ frequency: 'yearly', interval: 2 }, '2026-10-19');
+    expect(series(rule, '2026-10-19', 2)).toEqual(['2028-10-19', '2030-10-19']);
+  });
+
+  it('keep the day across completions of a rule without one', () => {
+    const task: Task = {
+      id: '1',
+      title: 'Leap day party',
+      description: '',
+      completed: false,
+      priority: 'normal',
+      listId: 'inbox',
+      tags: [],
+      subtasks: [],
+      order: 0,
+      createdAt: 0,
+      dueDate: '2028-02-29',
+      recurrence: { frequency: 'yearly', interval: 1 },
+    };
+
+    let state = { ...initialTaskState, tasks: [task] };
+    const dueDates: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const current = state.tasks.find((t) => !t.completed) as Task;
+      state = taskReducer(state, taskActions.toggle(current));
+      dueDates.push(state.tasks.find((t) => !t.completed)?.dueDate as string);
+    }
+    expect(dueDates).toEqual(['2029-02-28', '2030-02-28', '2031-02-28', '2032-02-29']);
+  });
+
+  it('round-trip their date through RRULE', () => {
+    const rule: Recurrence = { frequency: 'yearly', interval: 1, yearDate: '02-29' };
+    expect(toRRule(rule)).toBe('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29');
+    expect(parseRRule(toRRule(rule))).toEqual(rule);
+    expect(() => parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30')).toThrow();
+    expect(() => parseRRule('FREQ=MONTHLY;BYMONTH=2')).toThrow();
+  });
+});
+
+describe('weekly rules', () => {
+  it.each<[string, Recurrence, string, string[]]>([
+    ['every week', { frequency: 'weekly', interval: 1 }, '2026-10-19', ['2026-10-26', '2026-11-02']],
+    ['every 3 weeks', { frequency: 'weekly', interval: 3 }, '2026-10-19', ['2026-11-09', '2026-11-30']],
+    [
+      'every 2 weeks on Mon and Thu',
+      { frequency: 'weekly', interval: 2, weekdays: [1, 4] },
+      '2026-10-19',
+      ['2026-10-22', '2026-11-02', '2026-11-05', '2026-11-16'],
+    ],
+    [
+      'every 2 weeks on Sun, from a Saturday',
+      { frequency: 'weekly', interval: 2, weekdays: [0] },
+      '2026-10-24',
+      ['2026-11-01', '2026-11-15'],
+    ],
+  ])('%s', (_name, rule, from, expected) => {
+    expect(series(rule, from, expected.length)).toEqual(expected);
+  });
+
+  it('stop after the end date', () => {
+    const rule: Recurrence = { frequency: 'weekly', interval: 1, until: '2026-11-01' };
+    expect(series(rule, '2026-10-19', 3)).toEqual(['2026-10-26']);
+  });
+});
+
+describe('isRecurrence', () => {
+  it.each<[string, unknown]>([
+    ['a plain rule', { frequency: 'daily', interval: 2 }],
+    ['weekdays', { frequency: 'weekly', interval: 1, weekdays: [0, 3, 6] }],
+    ['a month day', { frequency: 'monthly', interval: 1, monthDay: 31 }],
+    ['a leap day', { frequency: 'yearly', interval: 1, yearDate: '02-29' }],
+    ['an end date', { frequency: 'daily', interval: 1, until: '2026-12-31' }],
+  ])('accepts %s', (_name, rule) => {
+    expect(isRecurrence(rule)).toBe(true);
+  });
+
+  it.each<[string, unknown]>([
+    ['an unknown frequency', { frequency: 'hourly', interval: 1 }],
+    ['an inherited key as frequency', { frequency: 'toString', interval: 1 }],
+    ['a fractional interval', { frequency: 'daily', interval: 1.5 }],
+    ['weekdays as a string', { frequency: 'weekly', interval: 1, weekdays: 'MO' }],
+    ['weekdays out of range', { frequency: 'weekly', interval: 1, weekdays: [7] }],
+    ['repeated weekdays', { frequency: 'weekly', interval: 1, weekdays: [1, 1] }],
+    ['a month day as a string', { frequency: 'monthly', interval: 1, monthDay: 'x' }],
+    ['a month day out of range', { frequency: 'monthly', interval: 1, monthDay: 32 }],
+    ['a month day on a weekly rule', { frequency: 'weekly', interval: 1, monthDay: 3 }],
+    ['an impossible year date', { frequency: 'yearly', interval: 1, yearDate: '02-30' }],
+    ['a year date on a monthly rule', { frequency: 'monthly', interval: 1, yearDate: '01-01' }],
+    ['a numeric end date', { frequency: 'daily', interval: 1, until: 5 }],
+    ['an end date in another format', { frequency: 'daily', interval: 1, until: '31/12/2026' }],
+  ])('rejects %s', (_name, rule) => {
+    expect(isRecurrence(rule)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Task } from '@/types/task';
+import { getReminderTime, planReminders } from '@/utils/reminders';
+import { initialTaskState, taskActions, taskReducer } from '@/utils/task-store';
+
+const DUE = new Date(2026, 9, 20, 9, 0).getTime();
+const MINUTE_MS = 60 * 1000;
+
+const task = (changes: Partial<Task> = {}): Task => ({
+  id: '1',
+  title: 'Dentist',
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  dueDate: '2026-10-20',
+  dueTime: '09:00',
+  reminder: { timing: 'before', minutesBefore: 10, snoozedUntil: DUE + 30 * MINUTE_MS },
+  ...changes,
+});
+
+describe('snoozed reminders', () => {
+  it('fire at the snooze while it is pending', () => {
+    expect(getReminderTime(task(), DUE)).toBe(DUE + 30 * MINUTE_MS);
+  });
+
+  it('go back to the planned time once the snooze has passed', () => {
+    const later = DUE + 60 * MINUTE_MS;
+    expect(getReminderTime(task(), later)).toBe(DUE - 10 * MINUTE_MS);
+    expect(planReminders([task()], later)).toEqual([]);
+  });
+
+  it.each([
+    ['toggled', taskActions.toggle(task())],
+    ['completed in bulk', taskActions.setCompleted([task()], true)],
+    ['rescheduled', taskActions.changeDue('1', '2026-10-21', '09:00')],
+  ])('are cleared when the task is %s', (_name, action) => {
+    const state = taskReducer({ ...initialTaskState, tasks: [task()] }, action);
+    expect(state.tasks[0].reminder).toEqual({ timing: 'before', minutesBefore: 10 });
+  });
+
+  it('stay cleared when a completed task is reopened', () => {
+    const completed = task({ completed: true, completedAt: DUE });
+    const state = taskReducer({ ...initialTaskState, tasks: [completed] }, taskActions.toggle(completed));
+    expect(state.tasks[0].reminder).not.toHaveProperty('snoozedUntil');
+  });
+});
+
+describe('custom reminders on recurring tasks', () => {
+  it('move with the next occurrence', () => {
+    const at = new Date(2026, 9, 19, 18, 30).getTime();
+    const weekly = task({ recurrence: { frequency: 'weekly', interval: 1 }, reminder: { timing: 'custom', at } });
+    const state = taskReducer({ ...initialTaskState, tasks: [weekly] }, taskActions.toggle(weekly));
+    const next = state.tasks.find((t) => !t.completed);
+    expect(next?.dueDate).toBe('2026-10-27');
+    expect(next?.reminder).toEqual({ timing: 'custom', at: new Date(2026, 9, 26, 18, 30).getTime() });
+  });
+});
@@ -0,0 +1,103 @@
+import type { Task } from '@/types/task';
+import { findMatchRanges, foldText, searchTasks, tokenizeQuery } from '@/utils/search';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+const ids = (query: string, tasks: Task[]) => searchTasks(tasks, query).map((match) => match.task.id);
+
+describe('folding', () => {
+  it.each([
+    ['Crème Brûlée', 'creme brulee'],
+    ['ÉTÉ', 'ete'],
+    ['Cre\u0300me', 'creme'],
+    ['Straße', 'straße'],
+  ])('folds %p to %p', (text, expected) => {
+    expect(foldText(text)).toBe(expected);
+  });
+
+  it('splits the query into folded tokens', () => {
+    expect(tokenizeQuery('  Café   AU lait ')).toEqual(['cafe', 'au', 'lait']);
+  });
+});
+
+describe('findMatchRanges', () => {
+  it('maps matches back to the original text', () => {
+    expect(findMatchRanges('Order crème brûlée', ['creme', 'brulee'])).toEqual([
+      [6, 11],
+      [12, 18],
+    ]);
+  });
+
+  it('covers combining marks in decomposed text', () => {
+    expect(findMatchRanges('Cre\u0300me', ['creme'])).toEqual([[0, 6]]);
+  });
+
+  it('merges overlapping matches', () => {
+    expect(findMatchRanges('banana', ['ana', 'nan'])).toEqual([[1, 5]]);
+  });
+
+  it('finds nothing for no tokens or empty text', () => {
+    expect(findMatchRanges('banana', [])).toEqual([]);
+    expect(findMatchRanges('', ['a'])).toEqual([]);
+  });
+});
+
+describe('searchTasks', () => {
+  it('ranks title word starts, then title, tag, description and subtask matches', () => {
+    const tasks = [
+      task('subtask', { title: 'Admin', subtasks: [{ id: 's', title: 'Send report', completed: false }] }),
+      task('description', { title: 'Admin', description: 'See the report' }),
+      task('tag', { title: 'Admin', tags: ['reports'] }),
+      task('inside', { title: 'Prepare slides' }),
+      task('start', { title: 'Report draft' }),
+    ];
+    expect(ids('rep', tasks)).toEqual(['start', 'inside', 'tag', 'description', 'subtask']);
+  });
+
+  it('ignores case and accents in tasks and queries', () => {
+    const tasks = [task('1', { title: 'Crème brûlée' }), task('2', { title: 'Creme fraiche' })];
+    expect(ids('CREME', tasks)).toEqual(['1', '2']);
+    expect(ids('brûlee', tasks)).toEqual(['1']);
+  });
+
+  it('needs every token to match somewhere', () => {
+    const tasks = [task('1', { title: 'Buy milk', tags: ['errands'] }), task('2', { title: 'Buy bread' })];
+    expect(ids('buy errands', tasks)).toEqual(['1']);
+    expect(ids('milk bread', tasks)).toEqual([]);
+  });
+
+  it('favours titles containing the whole query', () => {
+    const tasks = [task('scattered', { title: 'Milk to buy' }), task('phrase', { title: 'Buy milk' })];
+    expect(searchTasks(tasks, 'buy milk').map((match) => [match.task.id, match.score])).toEqual([
+      ['phrase', 28],
+      ['scattered', 20],
+    ]);
+  });
+
+  it('keeps the given order between equal scores', () => {
+    const tasks = [task('b', { title: 'Call mum' }), task('a', { title: 'Call dad' })];
+    expect(ids('call', tasks)).toEqual(['b', 'a']);
+  });
+
+  it('returns highlight ranges for the title and description', () => {
+    const [match] = searchTasks([task('1', { title: 'Café run', description: 'Two cafés' })], 'cafe');
+    expect(match.titleRanges).toEqual([[0, 4]]);
+    expect(match.descriptionRanges).toEqual([[4, 8]]);
+  });
+
+  it('finds nothing for a blank query', () => {
+    expect(searchTasks([task('1')], '   ')).toEqual([]);
+  });
+});
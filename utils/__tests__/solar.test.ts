@@ -0,0 +1,89 @@
+import { getSunPosition, getSunTimes, resolveSunLocation, type GeoPoint } from '@/utils/solar';
+
+const LONDON: GeoPoint = { latitude: 51.51, longitude: -0.13 };
+const TROMSO: GeoPoint = { latitude: 69.65, longitude: 18.96 };
+const SYDNEY: GeoPoint = { latitude: -33.87, longitude: 151.21 };
+
+/** Minutes between a calculated time and the published one */
+const minutesOff = (date: Date | undefined, iso: string): number =>
+  date ? Math.abs(date.getTime() - new Date(iso).getTime()) / 60000 : Infinity;
+
+describe('getSunTimes', () => {
+  it.each([
+    ['London at midsummer', LONDON, '2026-06-21T12:00:00Z', '2026-06-21T03:43:00Z', '2026-06-21T20:21:00Z'],
+    ['London at midwinter', LONDON, '2026-12-21T12:00:00Z', '2026-12-21T08:04:00Z', '2026-12-21T15:53:00Z'],
+    ['Sydney at midwinter', SYDNEY, '2026-06-21T02:00:00Z', '2026-06-20T21:00:00Z', '2026-06-21T06:53:00Z'],
+  ])('times sunrise and sunset in %s to within a few minutes', (_label, point, date, sunrise, sunset) => {
+    const times = getSunTimes(new Date(date), point);
+    expect(minutesOff(times.sunrise, sunrise)).toBeLessThan(3);
+    expect(minutesOff(times.sunset, sunset)).toBeLessThan(3);
+  });
+
+  it('orders the events through the day', () => {
+    const times = getSunTimes(new Date('2026-03-20T12:00:00Z'), LONDON);
+    const events = [
+      times.dawn,
+      times.sunrise,
+      times.goldenHourEnd,
+      times.solarNoon,
+      times.goldenHour,
+      times.sunset,
+      times.dusk,
+    ];
+    const instants = events.map((event) => event?.getTime() ?? NaN);
+    expect(instants).toEqual([...instants].sort((a, b) => a - b));
+    expect(minutesOff(times.solarNoon, '2026-03-20T12:08:00Z')).toBeLessThan(3);
+  });
+
+  it('has no sunrise, sunset or night in a polar day', () => {
+    const times = getSunTimes(new Date('2026-06-21T12:00:00Z'), TROMSO);
+    expect(times).toMatchObject({ sunrise: undefined, sunset: undefined, dawn: undefined, dusk: undefined });
+    // The midnight sun still dips low enough for a golden hour
+    expect(times.goldenHour).toBeInstanceOf(Date);
+  });
+
+  it('has twilight but no sunrise or sunset in a polar night', () => {
+    const times = getSunTimes(new Date('2026-12-21T12:00:00Z'), TROMSO);
+    expect(times).toMatchObject({ sunrise: undefined, sunset: undefined, goldenHour: undefined });
+    expect(times.dawn).toBeInstanceOf(Date);
+    expect(times.dusk).toBeInstanceOf(Date);
+  });
+});
+
+describe('getSunPosition', () => {
+  it('puts the sun highest at solar noon', () => {
+    const { solarNoon } = getSunTimes(new Date('2026-06-21T12:00:00Z'), LONDON);
+    const noon = getSunPosition(solarNoon, LONDON);
+    // 90° − latitude + the sun's declination at the solstice
+    expect(noon.altitude).toBeCloseTo(90 - 51.51 + 23.44, 0);
+    expect(Math.abs(noon.hourAngle)).toBeLessThan(0.5);
+  });
+
+  it('is below the horizon at midnight and signs the hour angle by side of noon', () => {
+    expect(getSunPosition(new Date('2026-06-21T00:00:00Z'), LONDON).altitude).toBeLessThan(0);
+    expect(getSunPosition(new Date('2026-06-21T09:00:00Z'), LONDON).hourAngle).toBeLessThan(0);
+    expect(getSunPosition(new Date('2026-06-21T15:00:00Z'), LONDON).hourAngle).toBeGreaterThan(0);
+  });
+
+  it('stays above the horizon through a polar day', () => {
+    expect(getSunPosition(new Date('2026-06-21T23:00:00Z'), TROMSO).altitude).toBeGreaterThan(0);
+  });
+});
+
+describe('resolveSunLocation', () => {
+  it.each([
+    ['51.5, -0.12', { label: '51.5, -0.12', latitude: 51.5, longitude: -0.12 }],
+    [' -33.87 151.21 ', { label: '-33.87, 151.21', latitude: -33.87, longitude: 151.21 }],
+    ['America/Chicago', { label: 'Chicago', latitude: 41.88, longitude: -87.63 }],
+    ['london', { label: 'London', latitude: 51.51, longitude: -0.13 }],
+    ['91, 0', null],
+    ['Atlantis', null],
+  ])('resolves %p', (input, expected) => {
+    expect(resolveSunLocation(input)).toEqual(expected);
+  });
+
+  it("falls back to the device's time zone when empty", () => {
+    expect(resolveSunLocation('', 'Atlantic/Reykjavik')?.label).toBe('Reykjavik');
+    expect(resolveSunLocation('', 'Etc/Unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import type { Task } from '@/types/task';
+import {
+  applyRemoteChanges,
+  entityKey,
+  LOCATION_FIELD,
+  mergeRemote,
+  snapshotEntities,
+  type FieldChange,
+  type SyncMeta,
+  type SyncRecord,
+} from '@/utils/sync';
+
+const STAMP = { updatedAt: 10, deviceId: 'remote' };
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+const meta: SyncMeta = { deviceId: 'local', serverUrl: 'https://sync.test', cursor: 0, outbox: [], clocks: {} };
+
+const record = (id: string, fields: Record<string, unknown>): SyncRecord => ({
+  collection: 'tasks',
+  id,
+  fields: Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, { value, ...STAMP }])),
+});
+
+const change = (id: string, field: string, value: unknown): FieldChange => ({
+  collection: 'tasks',
+  id,
+  field,
+  value,
+  ...STAMP,
+});
+
+describe('pulled changes', () => {
+  const state = { tasks: [task('1')], lists: [], trash: [], archive: [] };
+
+  it.each<[string, unknown]>([
+    ['priority', 'critical'],
+    ['title', 42],
+    ['dueDate', 'tomorrow'],
+    ['tags', ['ok', 7]],
+    ['recurrence', { frequency: 'hourly', interval: 1 }],
+    ['recurrence', { frequency: 'weekly', interval: 1, weekdays: 'MO' }],
+    ['recurrence', { frequency: 'monthly', interval: 1, monthDay: 'x' }],
+    ['reminder', { timing: 'before' }],
+    ['subtasks', [{ title: 'No id' }]],
+    ['title', null],
+    ['id', '2'],
+    ['colour', 'red'],
+  ])('drops %s set to %j', (field, value) => {
+    const merged = mergeRemote(meta, [record('1', { [field]: value })], snapshotEntities(state));
+    expect(merged.changes).toEqual([]);
+    expect(merged.meta.clocks).toEqual({});
+    expect(applyRemoteChanges(state, [change('1', field, value)])).toEqual(state);
+  });
+
+  it('keeps the valid fields of a partly invalid record', () => {
+    const merged = mergeRemote(
+      meta,
+      [record('1', { title: 'Renamed', priority: 'critical', dueDate: null })],
+      snapshotEntities(state)
+    );
+    expect(merged.changes.map((c) => c.field)).toEqual(['title', 'dueDate']);
+    expect(Object.keys(merged.meta.clocks[entityKey('tasks', '1')])).toEqual(['title', 'dueDate']);
+    expect(applyRemoteChanges(state, merged.changes).tasks).toEqual([task('1', { title: 'Renamed' })]);
+  });
+
+  it("doesn't create a task from a record missing a required field", () => {
+    const { id, title, ...fields } = task('2');
+    const merged = mergeRemote(
+      meta,
+      [record('2', { ...fields, id, title: ['Not', 'a', 'title'], [LOCATION_FIELD]: 'active' })],
+      snapshotEntities(state)
+    );
+    expect(applyRemoteChanges(state, merged.changes)).toEqual(state);
+  });
+
+  it('creates a task from a whole, valid record', () => {
+    const merged = mergeRemote(meta, [record('2', { ...task('2'), [LOCATION_FIELD]: 'active' })], snapshotEntities(state));
+    expect(applyRemoteChanges(state, merged.changes).tasks.map((t) => t.id)).toEqual(['2', '1']);
+  });
+});
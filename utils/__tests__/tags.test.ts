@@ -0,0 +1,94 @@
+import { TAG_COLORS } from '@/constants/tags';
+import type { Task } from '@/types/task';
+import { extractTags, filterByTags, getTagColor, normalizeTag, uniqueTags } from '@/utils/tags';
+import { initialTaskState, taskActions, taskReducer, type TaskState } from '@/utils/task-store';
+
+const task = (id: string, tags: string[]): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags,
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+});
+
+describe('parsing', () => {
+  it.each([
+    ['Home', 'home'],
+    ['#Work', 'work'],
+    ['##urgent', 'urgent'],
+    ['  side project ', 'side-project'],
+  ])('normalizes %p to %p', (input, expected) => {
+    expect(normalizeTag(input)).toBe(expected);
+  });
+
+  it.each([
+    ['Buy milk #home', 'Buy milk', ['home']],
+    ['#Work call the bank #urgent', 'call the bank', ['work', 'urgent']],
+    ['Plan #trip and #TRIP again', 'Plan and again', ['trip']],
+    ['Issue#42 stays in the title', 'Issue#42 stays in the title', []],
+    ['A lone # is not a tag', 'A lone # is not a tag', []],
+  ])('splits %p into %p and %p', (input, title, tags) => {
+    expect(extractTags(input)).toEqual({ title, tags });
+  });
+
+  it('de-duplicates tags in first-seen order and drops empty ones', () => {
+    expect(uniqueTags(['Home', 'work', '#home', '  ', 'WORK', 'errands'])).toEqual(['home', 'work', 'errands']);
+  });
+});
+
+describe('filterByTags', () => {
+  const tasks = [task('1', ['home']), task('2', ['home', 'work']), task('3', [])];
+
+  it.each([
+    ['any', ['home', 'work'], ['1', '2']],
+    ['all', ['home', 'work'], ['2']],
+    ['any', [], ['1', '2', '3']],
+  ] as const)('with mode %s and %p keeps %p', (mode, selected, expected) => {
+    expect(filterByTags(tasks, [...selected], mode).map((t) => t.id)).toEqual(expected);
+  });
+});
+
+describe('getTagColor', () => {
+  it('prefers the chosen colour', () => {
+    expect(getTagColor('home', { home: '#123456' })).toBe('#123456');
+  });
+
+  it('picks the same palette colour for a tag every time', () => {
+    const color = getTagColor('home', {});
+    expect(TAG_COLORS).toContain(color);
+    expect(getTagColor('home', { work: '#123456' })).toBe(color);
+  });
+});
+
+describe('merging', () => {
+  const stateWith = (changes: Partial<TaskState>): TaskState => ({ ...initialTaskState, loaded: true, ...changes });
+
+  it('renames the sources to the target without duplicating it', () => {
+    const state = stateWith({ tasks: [task('1', ['chores', 'home']), task('2', ['house']), task('3', ['work'])] });
+    const next = taskReducer(state, taskActions.mergeTags(['Chores', 'house'], '#Home'));
+    expect(next.tasks.map((t) => t.tags)).toEqual([['home'], ['home'], ['work']]);
+    expect(next.tasks[2]).toBe(state.tasks[2]);
+  });
+
+  it('lets the target inherit the first source colour when it has none', () => {
+    const state = stateWith({ tagColors: { house: '#111111', chores: '#222222', work: '#333333' } });
+    const next = taskReducer(state, taskActions.mergeTags(['house', 'chores'], 'home'));
+    expect(next.tagColors).toEqual({ home: '#111111', work: '#333333' });
+  });
+
+  it('keeps the target colour when it has one', () => {
+    const state = stateWith({ tagColors: { house: '#111111', home: '#444444' } });
+    const next = taskReducer(state, taskActions.mergeTags(['house'], 'home'));
+    expect(next.tagColors).toEqual({ home: '#444444' });
+  });
+
+  it('ignores a merge into an empty name', () => {
+    const state = stateWith({ tasks: [task('1', ['home'])] });
+    expect(taskReducer(state, taskActions.mergeTags(['home'], '  '))).toBe(state);
+  });
+});
@@ -0,0 +1,72 @@
+import type { Task } from '@/types/task';
+import {
+  historyReducer,
+  initialTaskHistory,
+  selectRedoLabel,
+  selectUndoLabel,
+  type TaskHistory,
+} from '@/utils/task-history';
+import { initialTaskState, taskActions, type TaskAction, type TaskState } from '@/utils/task-store';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+const historyWith = (changes: Partial<TaskState>): TaskHistory => ({
+  ...initialTaskHistory,
+  present: { ...initialTaskState, loaded: true, ...changes },
+});
+
+const run = (history: TaskHistory, ...actions: Parameters<typeof historyReducer>[1][]) =>
+  actions.reduce(historyReducer, history);
+
+describe('historyReducer', () => {
+  it('undoes and redoes a change', () => {
+    const start = historyWith({ tasks: [task('1')] });
+    const changed = run(start, taskActions.changePriority('1', 'high'));
+    expect(selectUndoLabel(changed)).toBeDefined();
+
+    const undone = run(changed, { type: 'history/undo' });
+    expect(undone.present.tasks[0].priority).toBe('normal');
+    expect(selectRedoLabel(undone)).toBe(selectUndoLabel(changed));
+
+    expect(run(undone, { type: 'history/redo' }).present.tasks[0].priority).toBe('high');
+  });
+
+  it.each<[string, TaskAction]>([
+    ['a duplicate add', { type: 'task/added', task: task('1') }],
+    ['an empty batch', taskActions.setCompleted([], true)],
+    ['a batch of unknown ids', { type: 'tasks/deleted', ids: ['missing'], deletedAt: 1 }],
+    ['a refused restore', taskActions.restore('1')],
+    ['an import of taken ids', taskActions.importTasks([task('1')])],
+  ])("doesn't record %s or clear redo", (_name, action) => {
+    const start = run(
+      historyWith({ tasks: [task('1')], trash: [task('1', { deletedAt: 1 })] }),
+      taskActions.changePriority('1', 'high'),
+      { type: 'history/undo' }
+    );
+    expect(run(start, action)).toBe(start);
+  });
+
+  it('replays pulled changes on stored snapshots, so undo keeps them', () => {
+    const changed = run(historyWith({ tasks: [task('1')] }), taskActions.changePriority('1', 'high'));
+    const pulled = run(changed, {
+      type: 'sync/applied',
+      changes: [{ collection: 'tasks', id: '1', field: 'title', value: 'Remote', updatedAt: 1, deviceId: 'other' }],
+    });
+    expect(run(pulled, { type: 'history/undo' }).present.tasks[0]).toMatchObject({
+      title: 'Remote',
+      priority: 'normal',
+    });
+  });
+});
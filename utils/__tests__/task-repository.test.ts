@@ -0,0 +1,113 @@
+import { INBOX_LIST } from '@/constants/lists';
+import type { TaskList } from '@/types/task';
+import { migrateTaskData, SCHEMA_VERSION } from '@/utils/task-repository';
+
+const WORK: TaskList = { id: 'work', name: 'Work', color: '#3B82F6', icon: 'briefcase.fill' };
+
+/** A stored task with every field up to schema 13; each case starts just before the migration it tests */
+const stored = (changes: Record<string, unknown> = {}) => ({
+  id: '1700000000000',
+  title: 'Task',
+  description: '',
+  completed: false,
+  priority: 'normal',
+  subtasks: [],
+  listId: 'inbox',
+  tags: [],
+  createdAt: 1700000000000,
+  order: 0,
+  ...changes,
+});
+
+const migrateOne = (version: number, task: Record<string, unknown>) =>
+  migrateTaskData({ version, tasks: [task], lists: [WORK] }).tasks[0];
+
+describe('migrateTaskData', () => {
+  it('upgrades the unversioned array format', () => {
+    const { tasks, lists, trash, archive } = migrateTaskData([
+      { id: 1700000000000, title: 'Old', completed: true, priority: 'extreme', extra: 'dropped' },
+      { title: 'No id' },
+      { title: 'No id either' },
+    ]);
+
+    expect(lists).toEqual([INBOX_LIST]);
+    expect(trash).toEqual([]);
+    expect(archive).toEqual([]);
+    expect(tasks[0]).toEqual({
+      id: '1700000000000',
+      title: 'Old',
+      description: '',
+      completed: true,
+      priority: 'normal',
+      subtasks: [],
+      listId: INBOX_LIST.id,
+      tags: [],
+      createdAt: 1700000000000,
+      order: 0,
+      completedAt: 1700000000000,
+    });
+    expect(tasks[1].id).not.toBe(tasks[2].id);
+    expect(tasks.map((task) => task.order)).toEqual([0, 1, 2]);
+  });
+
+  it.each<[string, number, Record<string, unknown>, Record<string, unknown>]>([
+    ['v2 drops malformed due dates', 1, { dueDate: '20/10/2026', dueTime: '09:00' }, {}],
+    ['v2 drops a time without a date', 1, { dueTime: '09:00' }, {}],
+    ['v2 keeps a valid due moment', 1, { dueDate: '2026-10-20', dueTime: '09:00' }, { dueDate: '2026-10-20', dueTime: '09:00' }],
+    ['v3 drops a non-numeric edit time', 2, { updatedAt: 'today' }, {}],
+    ['v4 defaults the checklist', 3, { subtasks: 'none' }, { subtasks: [] }],
+    ['v5 drops a malformed repeat rule', 4, { recurrence: { frequency: 'weekly', interval: 1, weekdays: 'MO' } }, {}],
+    ['v6 moves tasks without a list to the inbox', 5, { listId: undefined }, { listId: INBOX_LIST.id }],
+    ['v7 cleans up tags', 6, { tags: ['Work', 'work', 3] }, { tags: ['work'] }],
+    ['v8 dates creation by the id', 7, { createdAt: undefined }, { createdAt: 1700000000000 }],
+    ['v9 orders by position', 8, { order: undefined }, { order: 0 }],
+    ['v10 drops a non-numeric deletion time', 9, { deletedAt: 'yesterday' }, {}],
+    ['v11 times completion from the last edit', 10, { completed: true, updatedAt: 5 }, { completed: true, updatedAt: 5, completedAt: 5 }],
+    [
+      'v12 keeps only string contexts and extensions',
+      11,
+      { contexts: ['home', 1], extensions: { owner: 'ada', size: 3 } },
+      { contexts: ['home'], extensions: { owner: 'ada' } },
+    ],
+    ['v13 drops a malformed reminder', 12, { reminder: { timing: 'before' } }, {}],
+    ['v14 drops an empty assignee', 13, { assignee: '' }, {}],
+  ])('%s', (_name, version, changes, expected) => {
+    const task = migrateOne(version, stored(changes));
+    const untouched = Object.fromEntries(Object.entries(stored()).filter(([key]) => !(key in changes)));
+    expect(task).toEqual({ ...untouched, ...expected });
+  });
+
+  it('moves tasks in lists that no longer exist to the inbox', () => {
+    expect(migrateOne(SCHEMA_VERSION, stored({ listId: 'gone' })).listId).toBe(INBOX_LIST.id);
+    expect(migrateOne(SCHEMA_VERSION, stored({ listId: 'work' })).listId).toBe('work');
+  });
+
+  it('stamps trashed and archived tasks that lack a time', () => {
+    const { trash, archive } = migrateTaskData({
+      version: SCHEMA_VERSION,
+      tasks: [],
+      trash: [stored({ id: '2' }), stored({ id: '3', deletedAt: 7 })],
+      archive: [stored({ id: '4', completed: true, completedAt: 1 })],
+    });
+    expect(trash.map((task) => typeof task.deletedAt)).toEqual(['number', 'number']);
+    expect(trash[1].deletedAt).toBe(7);
+    expect(typeof archive[0].archivedAt).toBe('number');
+  });
+
+  it('keeps well-formed lists and always has an inbox', () => {
+    const { lists } = migrateTaskData({
+      version: SCHEMA_VERSION,
+      tasks: [],
+      lists: [{ ...WORK, memberIds: ['ada', 4] }, { id: 'broken', name: 3 }],
+    });
+    expect(lists).toEqual([INBOX_LIST, { ...WORK, memberIds: ['ada'] }]);
+  });
+
+  it.each([
+    ['data from a newer build', { version: SCHEMA_VERSION + 1, tasks: [] }],
+    ['an unknown format', { tasks: 'nope' }],
+    ['nothing', null],
+  ])('rejects %s', (_name, data) => {
+    expect(() => migrateTaskData(data)).toThrow();
+  });
+});
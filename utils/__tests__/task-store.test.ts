@@ -0,0 +1,269 @@
+import type { Task } from '@/types/task';
+import { historyReducer, initialTaskHistory } from '@/utils/task-history';
+import {
+  initialTaskState,
+  selectCompletedCount,
+  selectPendingCount,
+  selectPendingCountByList,
+  selectSortedTasks,
+  selectTagSummaries,
+  taskActions,
+  taskReducer,
+  type TaskState,
+} from '@/utils/task-store';
+import { planImport } from '@/utils/task-transfer';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+const stateWith = (changes: Partial<TaskState>): TaskState => ({ ...initialTaskState, loaded: true, ...changes });
+
+describe('taskReducer', () => {
+  it('marks the state loaded with what was read', () => {
+    const next = taskReducer(initialTaskState, taskActions.loaded([task('1')], initialTaskState.lists, {}, [], []));
+    expect(next.loaded).toBe(true);
+    expect(next.tasks.map((t) => t.id)).toEqual(['1']);
+  });
+
+  it('adds new tasks above the others', () => {
+    const state = stateWith({ tasks: [task('1', { order: 0 }), task('2', { order: 1 })] });
+    const next = taskReducer(
+      state,
+      taskActions.add({ title: 'New', description: '', priority: 'high', listId: 'inbox', tags: ['Work', 'work'] })
+    );
+    expect(next.tasks[0]).toMatchObject({ title: 'New', completed: false, order: -1, tags: ['work'] });
+    expect(next.tasks).toHaveLength(3);
+  });
+
+  it('completes and reopens a task', () => {
+    const state = stateWith({ tasks: [task('1')] });
+    const done = taskReducer(state, taskActions.toggle(state.tasks[0]));
+    expect(done.tasks[0]).toMatchObject({ completed: true, completedAt: expect.any(Number) });
+
+    const reopened = taskReducer(done, taskActions.toggle(done.tasks[0]));
+    expect(reopened.tasks[0].completed).toBe(false);
+    expect(reopened.tasks[0]).not.toHaveProperty('completedAt');
+  });
+
+  it('moves deleted tasks to the front of the trash', () => {
+    const state = stateWith({ tasks: [task('1'), task('2'), task('3')], trash: [task('0', { deletedAt: 1 })] });
+    const next = taskReducer(state, taskActions.removeMany(['1', '3']));
+    expect(next.tasks.map((t) => t.id)).toEqual(['2']);
+    expect(next.trash.map((t) => t.id)).toEqual(['1', '3', '0']);
+    expect(next.trash[0].deletedAt).toEqual(expect.any(Number));
+  });
+
+  it('only sets completion on tasks not already in that state', () => {
+    const tasks = [task('1'), task('2', { completed: true, completedAt: 5 })];
+    const action = taskActions.setCompleted(tasks, true);
+    expect(action).toMatchObject({ ids: ['1'] });
+
+    const next = taskReducer(stateWith({ tasks }), action);
+    expect(next.tasks.map((t) => [t.completed, t.completedAt])).toEqual([
+      [true, expect.any(Number)],
+      [true, 5],
+    ]);
+  });
+
+  it('changes the priority of several tasks', () => {
+    const state = stateWith({ tasks: [task('1'), task('2'), task('3')] });
+    const next = taskReducer(state, taskActions.changePriorityMany(['1', '3'], 'urgent'));
+    expect(next.tasks.map((t) => t.priority)).toEqual(['urgent', 'normal', 'urgent']);
+  });
+
+  it('edits the title and description', () => {
+    const state = stateWith({ tasks: [task('1')] });
+    const next = taskReducer(state, taskActions.edit('1', { title: 'Renamed', description: 'Notes' }));
+    expect(next.tasks[0]).toMatchObject({ title: 'Renamed', description: 'Notes', updatedAt: expect.any(Number) });
+  });
+
+  it('renumbers only the displayed tasks when one is dragged', () => {
+    const state = stateWith({
+      tasks: [task('a', { order: 0 }), task('b', { order: 1 }), task('c', { order: 2 }), task('d', { order: 3 })],
+    });
+    const next = taskReducer(state, taskActions.reorder([state.tasks[0], state.tasks[2]], 1, 0));
+    expect(next.tasks.map((t) => [t.id, t.order])).toEqual([
+      ['a', 2],
+      ['b', 1],
+      ['c', 0],
+      ['d', 3],
+    ]);
+  });
+
+  it('archives completed tasks and leaves pending ones', () => {
+    const state = stateWith({ tasks: [task('1', { completed: true }), task('2')] });
+    const next = taskReducer(state, taskActions.archive(['1', '2']));
+    expect(next.tasks.map((t) => t.id)).toEqual(['2']);
+    expect(next.archive.map((t) => t.id)).toEqual(['1']);
+  });
+
+  it.each([
+    ['delete', [], ['1']],
+    ['move', ['inbox'], []],
+  ] as const)('deletes a list, and with mode %s handles its tasks', (mode, listIds, trashed) => {
+    const list = { id: 'work', name: 'Work', color: '#000', icon: 'briefcase' };
+    const state = stateWith({ lists: [...initialTaskState.lists, list], tasks: [task('1', { listId: 'work' })] });
+    const next = taskReducer(state, taskActions.removeList('work', mode));
+    expect(next.lists.map((l) => l.id)).toEqual(['inbox']);
+    expect(next.tasks.map((t) => t.listId)).toEqual(listIds);
+    expect(next.trash.map((t) => t.id)).toEqual(trashed);
+  });
+
+  it('never deletes the inbox', () => {
+    const state = stateWith({ tasks: [task('1')] });
+    expect(taskReducer(state, taskActions.removeList('inbox', 'delete'))).toBe(state);
+  });
+
+  it('returns the same state for actions on missing tasks', () => {
+    const state = stateWith({ tasks: [task('1')] });
+    expect(taskReducer(state, taskActions.remove('missing'))).toBe(state);
+    expect(taskReducer(state, taskActions.removeMany(['missing']))).toBe(state);
+    expect(taskReducer(state, taskActions.changePriorityMany(['missing'], 'low'))).toBe(state);
+  });
+});
+
+describe('selectors', () => {
+  const tasks = [
+    task('1', { priority: 'low', order: 0, tags: ['home'] }),
+    task('2', { priority: 'urgent', order: 1, completed: true, listId: 'work', tags: ['work', 'home'] }),
+    task('3', { priority: 'urgent', order: 2, dueDate: '2026-10-20', listId: 'work', tags: ['work'] }),
+    task('4', { priority: 'urgent', order: 3, dueDate: '2026-10-19', tags: ['home'] }),
+  ];
+  const state = stateWith({ tasks });
+
+  it('sorts by priority, then due date, then manual order', () => {
+    expect(selectSortedTasks(state).map((t) => t.id)).toEqual(['4', '3', '2', '1']);
+  });
+
+  it('counts pending and completed tasks', () => {
+    expect(selectPendingCount(state)).toBe(3);
+    expect(selectCompletedCount(state)).toBe(1);
+  });
+
+  it('counts pending tasks per list', () => {
+    expect(selectPendingCountByList(state)).toEqual({ inbox: 2, work: 1 });
+  });
+
+  it('lists tags by use, then by name', () => {
+    expect(selectTagSummaries(state)).toEqual([
+      { name: 'home', count: 3 },
+      { name: 'work', count: 2 },
+    ]);
+  });
+
+  it('reuses the result until the tasks change', () => {
+    const sorted = selectSortedTasks(state);
+    expect(selectSortedTasks({ ...state, trash: [] })).toBe(sorted);
+    expect(selectSortedTasks({ ...state, tasks: [...tasks] })).not.toBe(sorted);
+  });
+});
+
+describe('task ids', () => {
+  it('treats an import clashing with a trashed task as a duplicate', () => {
+    const trashed = task('1', { deletedAt: 1 });
+    const plan = planImport([{ ...task('1', { title: 'Other' }) }], [trashed]);
+    expect(plan.fresh).toEqual([]);
+    expect(plan.duplicates[0].reason).toBe('id');
+    expect(plan.duplicates[0].task).not.toHaveProperty('id');
+  });
+
+  it('skips imported tasks whose id is already taken', () => {
+    const state = stateWith({ tasks: [task('1')], trash: [task('2', { deletedAt: 1 })] });
+    const next = taskReducer(
+      state,
+      taskActions.importTasks([task('1'), task('2'), task('3'), task('3', { title: 'Again' })])
+    );
+    expect(next.tasks.map((t) => t.id).sort()).toEqual(['1', '3']);
+  });
+
+  it("doesn't restore a trashed task over one with the same id", () => {
+    const state = stateWith({ tasks: [task('1')], trash: [task('1', { deletedAt: 1 })] });
+    expect(taskReducer(state, taskActions.restore('1'))).toBe(state);
+  });
+
+  it('restores a trashed task whose id is free', () => {
+    const state = stateWith({ trash: [task('1', { deletedAt: 1 })] });
+    const next = taskReducer(state, taskActions.restore('1'));
+    expect(next.tasks.map((t) => t.id)).toEqual(['1']);
+    expect(next.trash).toEqual([]);
+  });
+});
+
+describe('subtasks', () => {
+  const subtasks = [
+    { id: 'a', title: 'Pack', completed: true },
+    { id: 'b', title: 'Lock up', completed: false },
+  ];
+
+  it('completes the task when its last open subtask is checked', () => {
+    const parent = task('1', { subtasks });
+    const next = taskReducer(stateWith({ tasks: [parent] }), taskActions.toggleSubtask(parent, 'b'));
+    expect(next.tasks[0].completed).toBe(true);
+    expect(next.tasks[0].subtasks.every((s) => s.completed)).toBe(true);
+  });
+
+  it('leaves the task open while other subtasks are', () => {
+    const parent = task('1', { subtasks: [...subtasks, { id: 'c', title: 'Leave', completed: false }] });
+    const next = taskReducer(stateWith({ tasks: [parent] }), taskActions.toggleSubtask(parent, 'b'));
+    expect(next.tasks[0].completed).toBe(false);
+  });
+
+  it('undoes the subtask and the completion in one step', () => {
+    const parent = task('1', { subtasks });
+    const history = { ...initialTaskHistory, present: stateWith({ tasks: [parent] }) };
+    const toggled = historyReducer(history, taskActions.toggleSubtask(parent, 'b'));
+    expect(historyReducer(toggled, { type: 'history/undo' }).present.tasks).toEqual([parent]);
+  });
+});
+
+describe('member/removed', () => {
+  it('unassigns the member wherever their tasks are', () => {
+    const state = stateWith({
+      tasks: [task('1', { assignee: 'ada' }), task('2', { assignee: 'grace' })],
+      trash: [task('3', { assignee: 'ada', deletedAt: 1 })],
+      archive: [task('4', { assignee: 'ada', completed: true, archivedAt: 1 })],
+    });
+    const next = taskReducer(state, taskActions.removeMember('ada'));
+    expect([...next.tasks, ...next.trash, ...next.archive].map((t) => t.assignee)).toEqual([
+      undefined,
+      'grace',
+      undefined,
+      undefined,
+    ]);
+    expect(next.trash[0]).not.toHaveProperty('assignee');
+  });
+});
+
+describe('shuffle', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('swaps each position with a random earlier one', () => {
+    // Always picking index 0 rotates the ids: [a, b, c] → [b, c, a]
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const action = taskActions.shuffle([task('a'), task('b'), task('c')]);
+    expect(action).toEqual({ type: 'tasks/shuffled', order: ['b', 'c', 'a'] });
+  });
+
+  it('makes every order about equally likely', () => {
+    const tasks = [task('a'), task('b'), task('c')];
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 6000; i++) {
+      const action = taskActions.shuffle(tasks);
+      const key = action.type === 'tasks/shuffled' ? action.order.join('') : '';
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    expect(counts.size).toBe(6);
+    counts.forEach((count) => expect(count).toBeGreaterThan(800));
+  });
+});
@@ -0,0 +1,160 @@
+import { INBOX_LIST } from '@/constants/lists';
+import type { Task, TaskList } from '@/types/task';
+import { SCHEMA_VERSION } from '@/utils/task-repository';
+import { detectFormat, parseTasks, serializeTasks, type ImportContext } from '@/utils/task-transfer';
+
+const WORK: TaskList = { id: 'work', name: 'Work', color: '#3B82F6', icon: 'briefcase.fill' };
+
+const context: ImportContext = { lists: [INBOX_LIST, WORK], defaultListId: INBOX_LIST.id };
+
+const task = (changes: Partial<Task> = {}): Task => ({
+  id: '1',
+  title: 'Write report',
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'work',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: 0,
+  ...changes,
+});
+
+const json = (tasks: unknown[]) => JSON.stringify({ version: SCHEMA_VERSION, lists: [WORK], tasks });
+
+describe('JSON import', () => {
+  it('reads back an export', () => {
+    const original = task({ dueDate: '2026-10-20', dueTime: '09:30', tags: ['q4'], reminder: { timing: 'due' } });
+    const { order, ...expected } = original;
+    expect(parseTasks(serializeTasks([original], 'json', [WORK]), 'json', context)).toEqual({
+      tasks: [expected],
+      errors: [],
+    });
+  });
+
+  it.each<[string, Record<string, unknown>]>([
+    ['a numeric due date', { dueDate: 5 }],
+    ['a malformed reminder', { reminder: { timing: 'soon' } }],
+    ['non-string contexts', { contexts: [1, 2] }],
+    ['an unknown field', { colour: 'red' }],
+  ])('drops %s and reports it', (_name, fields) => {
+    const { tasks, errors } = parseTasks(json([{ ...task(), ...fields }]), 'json', context);
+    const [field] = Object.keys(fields);
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).not.toHaveProperty(field);
+    expect(errors).toEqual([`Task 1: ignored invalid ${field}`]);
+  });
+
+  it('drops a due time without a due date', () => {
+    const { tasks } = parseTasks(json([{ ...task(), dueTime: '09:30' }]), 'json', context);
+    expect(tasks[0]).not.toHaveProperty('dueTime');
+  });
+
+  it('skips tasks without a title', () => {
+    const { tasks, errors } = parseTasks(json([task({ title: ' ' }), task({ id: '2' })]), 'json', context);
+    expect(tasks.map((t) => t.id)).toEqual(['2']);
+    expect(errors).toEqual(['Task 1 has no title']);
+  });
+
+  it('reads a bare array and migrates older versions', () => {
+    expect(parseTasks(JSON.stringify([task()]), 'json', context).tasks).toHaveLength(1);
+    const old = parseTasks(JSON.stringify({ version: 0, tasks: [{ id: 7, title: 'Old' }] }), 'json', context);
+    expect(old.tasks[0]).toMatchObject({ id: '7', title: 'Old', listId: INBOX_LIST.id, priority: 'normal' });
+  });
+
+  it.each(['{ nope', JSON.stringify({ version: SCHEMA_VERSION + 1, tasks: [] })])('rejects %s', (text) => {
+    const { tasks, errors } = parseTasks(text, 'json', context);
+    expect(tasks).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('CSV import', () => {
+  it('reads back an export', () => {
+    const original = task({ description: 'Quarterly, "final"', tags: ['q4', 'team'], dueDate: '2026-10-20' });
+    const { tasks, errors } = parseTasks(serializeTasks([original], 'csv', [WORK]), 'csv', context);
+    expect(errors).toEqual([]);
+    expect(tasks).toEqual([
+      {
+        id: '1',
+        createdAt: 0,
+        title: 'Write report',
+        description: 'Quarterly, "final"',
+        completed: false,
+        priority: 'normal',
+        listId: 'work',
+        tags: ['q4', 'team'],
+        subtasks: [],
+        dueDate: '2026-10-20',
+      },
+    ]);
+  });
+
+  it('matches columns in any case and order', () => {
+    const { tasks } = parseTasks('Priority,TITLE,Completed\nhigh,Ship it,yes', 'csv', context);
+    expect(tasks[0]).toMatchObject({ title: 'Ship it', priority: 'high', completed: true, listId: INBOX_LIST.id });
+  });
+
+  it('reports every problem with a row and skips it', () => {
+    const { tasks, errors } = parseTasks('title,priority,dueDate\n,extreme,20/10/2026\nFine,,', 'csv', context);
+    expect(tasks.map((t) => t.title)).toEqual(['Fine']);
+    expect(errors).toEqual(['Row 2: no title, unknown priority "extreme", due date "20/10/2026" is not YYYY-MM-DD']);
+  });
+
+  it('needs a title column', () => {
+    expect(parseTasks('name\nMilk', 'csv', context).errors).toEqual(['The CSV needs a "title" column']);
+  });
+});
+
+describe('Markdown import', () => {
+  it('reads checklists under list headings, with subtasks, tags and due markers', () => {
+    const text = [
+      '## Work',
+      '- [ ] Write report #q4 📅 2026-10-20 09:30',
+      '  - [x] Outline',
+      '## Somewhere else',
+      '- [x] Buy milk',
+    ].join('\n');
+    const { tasks, errors } = parseTasks(text, 'markdown', context);
+    expect(errors).toEqual([]);
+    expect(tasks).toEqual([
+      {
+        title: 'Write report',
+        description: '',
+        completed: false,
+        priority: 'normal',
+        listId: 'work',
+        tags: ['q4'],
+        subtasks: [{ id: '2', title: 'Outline', completed: true }],
+        dueDate: '2026-10-20',
+        dueTime: '09:30',
+      },
+      expect.objectContaining({ title: 'Buy milk', completed: true, listId: INBOX_LIST.id }),
+    ]);
+  });
+
+  it('reads back an export', () => {
+    const original = task({ tags: ['q4'], subtasks: [{ id: 's', title: 'Outline', completed: true }] });
+    const { tasks } = parseTasks(serializeTasks([original], 'markdown', [WORK]), 'markdown', context);
+    expect(tasks[0]).toMatchObject({ title: 'Write report', listId: 'work', tags: ['q4'] });
+    expect(tasks[0].subtasks.map((s) => s.title)).toEqual(['Outline']);
+  });
+
+  it('says when there are no checklist items', () => {
+    expect(parseTasks('Just prose', 'markdown', context).errors).toEqual([
+      'No checklist items like "- [ ] title" were found',
+    ]);
+  });
+});
+
+describe('detectFormat', () => {
+  it.each([
+    ['[{"title":"a"}]', 'json'],
+    ['- [ ] Milk', 'markdown'],
+    ['id,"Title",tags\n1,Milk,', 'csv'],
+    ['(A) Call mum +family', 'todotxt'],
+  ])('%j is %s', (text, format) => {
+    expect(detectFormat(text)).toBe(format);
+  });
+});
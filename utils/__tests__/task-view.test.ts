@@ -0,0 +1,45 @@
+import type { Priority, Task } from '@/types/task';
+import { getReorderBounds, sortTasks } from '@/utils/task-view';
+
+const task = (id: string, priority: Priority, order: number, dueDate?: string): Task => ({
+  id,
+  title: id,
+  description: '',
+  completed: false,
+  priority,
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order,
+  createdAt: 0,
+  ...(dueDate && { dueDate }),
+});
+
+describe('priority sort', () => {
+  const tasks = [
+    task('low', 'low', 0),
+    task('high-undated', 'high', 1),
+    task('high-later', 'high', 2, '2026-11-01'),
+    task('high-sooner', 'high', 5, '2026-10-20'),
+    task('high-sooner-first', 'high', 3, '2026-10-20'),
+    task('urgent', 'urgent', 4),
+  ];
+
+  it('orders by priority, then due date, then manual order', () => {
+    expect(sortTasks(tasks, 'priority').map((t) => t.id)).toEqual([
+      'urgent',
+      'high-sooner-first',
+      'high-sooner',
+      'high-later',
+      'high-undated',
+      'low',
+    ]);
+  });
+
+  it('only lets a task be dragged among tasks tied on priority and due date', () => {
+    const sorted = sortTasks(tasks, 'priority');
+    expect(getReorderBounds(sorted, 1, 'priority')).toEqual([1, 2]);
+    expect(getReorderBounds(sorted, 3, 'priority')).toBeNull();
+    expect(getReorderBounds(sorted, 4, 'priority')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { CURRENT_USER } from '@/constants/members';
+import type { Member } from '@/types/task';
+import { createMockTeamBackend } from '@/utils/team-backend';
+
+const ADA: Member = { id: 'member-ada', name: 'Ada Lovelace', color: '#3B82F6' };
+
+describe('createMockTeamBackend', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('lists the current user ahead of the seeded team', async () => {
+    const backend = createMockTeamBackend({ latencyMs: 0, seed: [ADA] });
+    await expect(backend.getCurrentUser()).resolves.toEqual(CURRENT_USER);
+    await expect(backend.listMembers()).resolves.toEqual([CURRENT_USER, ADA]);
+  });
+
+  it('invites members by trimmed name', async () => {
+    const backend = createMockTeamBackend({ latencyMs: 0, seed: [] });
+    const member = await backend.inviteMember('  Grace Hopper ');
+    expect(member.name).toBe('Grace Hopper');
+    await expect(backend.listMembers()).resolves.toEqual([CURRENT_USER, member]);
+  });
+
+  it.each([
+    ['  ', 'Enter a name to invite'],
+    ['ada lovelace', 'ada lovelace is already on the team'],
+  ])('rejects inviting %j', async (name, message) => {
+    const backend = createMockTeamBackend({ latencyMs: 0, seed: [ADA] });
+    await expect(backend.inviteMember(name)).rejects.toThrow(message);
+  });
+
+  it('removes teammates but not the current user', async () => {
+    const backend = createMockTeamBackend({ latencyMs: 0, seed: [ADA] });
+    await backend.removeMember(ADA.id);
+    await expect(backend.listMembers()).resolves.toEqual([CURRENT_USER]);
+    await expect(backend.removeMember(CURRENT_USER.id)).rejects.toThrow("You can't remove yourself");
+  });
+
+  it('keeps the roster under its storage key', async () => {
+    const first = createMockTeamBackend({ latencyMs: 0, seed: [], storageKey: 'team' });
+    const member = await first.inviteMember('Alan Turing');
+
+    const second = createMockTeamBackend({ latencyMs: 0, seed: [ADA], storageKey: 'team' });
+    await expect(second.listMembers()).resolves.toEqual([CURRENT_USER, member]);
+  });
+
+  it('waits for the simulated latency', async () => {
+    jest.useFakeTimers();
+    try {
+      const backend = createMockTeamBackend({ latencyMs: 500, seed: [] });
+      const settled = jest.fn();
+      const members = backend.listMembers().then(settled);
+
+      await jest.advanceTimersByTimeAsync(499);
+      expect(settled).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      await members;
+      expect(settled).toHaveBeenCalledWith([CURRENT_USER]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
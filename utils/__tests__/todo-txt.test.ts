@@ -0,0 +1,77 @@
+import type { Task } from '@/types/task';
+import { parseTodoTxtLine, serializeTodoTxtLine } from '@/utils/todo-txt';
+
+const CREATED = new Date(2026, 9, 1).getTime();
+
+const task = (changes: Partial<Task>): Task => ({
+  id: '1',
+  title: 'Task',
+  description: '',
+  completed: false,
+  priority: 'normal',
+  listId: 'inbox',
+  tags: [],
+  subtasks: [],
+  order: 0,
+  createdAt: CREATED,
+  ...changes,
+});
+
+describe('parseTodoTxtLine', () => {
+  it.each([
+    ['Meeting at 10:30 +work', 'Meeting at 10:30', undefined],
+    ['(C) Standup 9:00', 'Standup 9:00', undefined],
+    ['Read https://example.com today', 'Read https://example.com today', undefined],
+    ['Call mum owner:ada', 'Call mum', { owner: 'ada' }],
+  ])('%s', (line, title, extensions) => {
+    const parsed = parseTodoTxtLine(line, 'inbox');
+    expect(parsed?.title).toBe(title);
+    expect(parsed?.extensions).toEqual(extensions);
+  });
+
+  it('reads the due time only alongside a due date', () => {
+    expect(parseTodoTxtLine('Dentist due:2026-10-20 due-time:09:30', 'inbox')).toMatchObject({
+      dueDate: '2026-10-20',
+      dueTime: '09:30',
+    });
+    expect(parseTodoTxtLine('Dentist due-time:09:30', 'inbox')).not.toHaveProperty('dueTime');
+  });
+
+  it.each([
+    ['rec:1d', { frequency: 'daily', interval: 1 }],
+    ['rec:+2w', { frequency: 'weekly', interval: 2 }],
+    ['rec:FREQ=WEEKLY;BYDAY=MO,WE', { frequency: 'weekly', interval: 1, weekdays: [1, 3] }],
+  ])('reads %s as a repeat rule', (token, recurrence) => {
+    expect(parseTodoTxtLine(`Gym ${token}`, 'inbox')?.recurrence).toEqual(recurrence);
+  });
+
+  it('keeps an unreadable rec: as an extension', () => {
+    expect(parseTodoTxtLine('Gym rec:sometimes', 'inbox')).toMatchObject({
+      title: 'Gym',
+      extensions: { rec: 'sometimes' },
+    });
+  });
+});
+
+describe('serializeTodoTxtLine', () => {
+  it.each<[string, Partial<Task>]>([
+    ['plain', { title: 'Buy milk', tags: ['home'], contexts: ['shop'] }],
+    ['a due time', { title: 'Dentist', dueDate: '2026-10-20', dueTime: '09:30' }],
+    ['a simple repeat', { title: 'Water plants', recurrence: { frequency: 'weekly', interval: 2 } }],
+    [
+      'a detailed repeat',
+      { title: 'Rent', dueDate: '2026-10-31', recurrence: { frequency: 'monthly', interval: 1, monthDay: 31 } },
+    ],
+    ['a time in the title', { title: 'Meeting at 10:30', priority: 'high' }],
+  ])('round-trips a task with %s', (_name, changes) => {
+    const original = task(changes);
+    const { id, order, ...expected } = original;
+    expect(parseTodoTxtLine(serializeTodoTxtLine(original), 'inbox')).toEqual(expected);
+  });
+
+  it('writes the short rec: form when it can', () => {
+    expect(serializeTodoTxtLine(task({ recurrence: { frequency: 'daily', interval: 3 } }))).toBe(
+      '2026-10-01 Task rec:3d'
+    );
+  });
+});
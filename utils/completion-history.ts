@@ -0,0 +1,94 @@
+import type { Task } from '@/types/task';
+import { addDays, fromDateKey, toDateKey } from '@/utils/due-date';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How completed tasks are bucketed on the history screen
+ */
+export type HistoryPeriod = 'day' | 'week';
+
+export interface CompletionGroup {
+  /** Date key of the day, or of the Monday starting the week */
+  key: string;
+  label: string;
+  /** Most recently completed first */
+  tasks: Task[];
+}
+
+export const HISTORY_PERIOD_OPTIONS: { key: HistoryPeriod; label: string }[] = [
+  { key: 'day', label: 'By day' },
+  { key: 'week', label: 'By week' },
+];
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/**
+ * Date key of the Monday starting the week that contains `dateKey`
+ */
+export const startOfWeek = (dateKey: string): string => {
+  const weekday = fromDateKey(dateKey).getDay();
+  return addDays(dateKey, -((weekday + 6) % 7));
+};
+
+/**
+ * Short local date, with the year only when it isn't the current one
+ */
+const formatDate = (dateKey: string, now: Date, options: Intl.DateTimeFormatOptions): string => {
+  const date = fromDateKey(dateKey);
+  return date.toLocaleDateString(undefined, {
+    ...options,
+    ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+};
+
+/**
+ * "Today", "Yesterday", "This week", or the date the period starts
+ */
+const formatPeriod = (key: string, period: HistoryPeriod, now: Date): string => {
+  const today = toDateKey(now);
+
+  if (period === 'day') {
+    if (key === today) return 'Today';
+    if (key === addDays(today, -1)) return 'Yesterday';
+    return formatDate(key, now, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+
+  const thisWeek = startOfWeek(today);
+  if (key === thisWeek) return 'This week';
+  if (key === addDays(thisWeek, -7)) return 'Last week';
+  return `Week of ${formatDate(key, now, { month: 'short', day: 'numeric' })}`;
+};
+
+/**
+ * Buckets completed tasks by the local day or week they were completed in,
+ * newest first. Tasks without a completion time are left out.
+ */
+export const groupCompletedTasks = (
+  tasks: Task[],
+  period: HistoryPeriod,
+  now: Date = new Date()
+): CompletionGroup[] => {
+  const completed = tasks
+    .filter((task): task is Task & { completedAt: number } => task.completed && task.completedAt !== undefined)
+    .sort((a, b) => b.completedAt - a.completedAt);
+
+  const groups = new Map<string, Task[]>();
+  for (const task of completed) {
+    const day = toDateKey(new Date(task.completedAt));
+    const key = period === 'day' ? day : startOfWeek(day);
+    const group = groups.get(key);
+    if (group) group.push(task);
+    else groups.set(key, [task]);
+  }
+
+  return [...groups.entries()].map(([key, groupTasks]) => ({
+    key,
+    label: formatPeriod(key, period, now),
+    tasks: groupTasks,
+  }));
+};
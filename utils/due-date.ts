@@ -0,0 +1,157 @@
+import type { Task } from '@/types/task';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+// ============================================================================
+// Date Keys
+// ============================================================================
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Formats a date as a local `YYYY-MM-DD` key
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Formats a date as a local `HH:mm` time
+ */
+export const toTimeKey = (date: Date): string =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Parses a `YYYY-MM-DD` key (and optional `HH:mm`) into a local Date
+ */
+export const fromDateKey = (dateKey: string, timeKey?: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = (timeKey ?? '00:00').split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * Returns the date key `days` days after the given one
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Returns the date key `months` months after the given one, clamped to the
+ * end of shorter months (Jan 31 + 1 month is Feb 28 or 29)
+ */
+export const addMonths = (dateKey: string, months: number): string => {
+  const date = fromDateKey(dateKey);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return toDateKey(target);
+};
+
+/**
+ * Shifts an `HH:mm` time by `minutes`, wrapping around midnight
+ */
+export const addMinutes = (timeKey: string, minutes: number): string => {
+  const [hours, mins] = timeKey.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+};
+
+// ============================================================================
+// Task Helpers
+// ============================================================================
+
+/**
+ * Moment a task becomes overdue: its due time, or the end of its due day
+ */
+export const getDueMoment = (task: Pick<Task, 'dueDate' | 'dueTime'>): Date | null => {
+  if (!task.dueDate) return null;
+  if (task.dueTime) return fromDateKey(task.dueDate, task.dueTime);
+
+  const endOfDay = fromDateKey(task.dueDate);
+  endOfDay.setHours(23, 59, 59, 999);
+  return endOfDay;
+};
+
+/**
+ * Classifies a pending task's deadline relative to `now`
+ */
+export const getDueStatus = (task: Task, now: Date = new Date()): DueStatus | null => {
+  const due = getDueMoment(task);
+  if (!due || task.completed) return null;
+
+  if (due.getTime() < now.getTime()) return 'overdue';
+  if (task.dueDate === toDateKey(now)) return 'today';
+  return 'upcoming';
+};
+
+/**
+ * Human-readable deadline, e.g. "Today 09:00" or "Wed, Oct 21"
+ */
+export const formatDue = (
+  task: Pick<Task, 'dueDate' | 'dueTime'>,
+  now: Date = new Date()
+): string => {
+  if (!task.dueDate) return '';
+
+  const today = toDateKey(now);
+  let label: string;
+  if (task.dueDate === today) {
+    label = 'Today';
+  } else if (task.dueDate === addDays(today, 1)) {
+    label = 'Tomorrow';
+  } else if (task.dueDate === addDays(today, -1)) {
+    label = 'Yesterday';
+  } else {
+    label = fromDateKey(task.dueDate).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  return task.dueTime ? `${label} ${task.dueTime}` : label;
+};
+
+/**
+ * Orders tasks by deadline, earliest first, with undated tasks last
+ */
+export const compareDue = (a: Task, b: Task): number => {
+  const dueA = getDueMoment(a)?.getTime() ?? Infinity;
+  const dueB = getDueMoment(b)?.getTime() ?? Infinity;
+  if (dueA === dueB) return 0;
+  return dueA < dueB ? -1 : 1;
+};
+
+// ============================================================================
+// Snoozing
+// ============================================================================
+
+export type SnoozeDuration = 'hour' | 'day' | 'week';
+
+/**
+ * New deadline for a snoozed task, counted from its current deadline or from
+ * now when that has already passed (or the task has none)
+ */
+export const snoozeDue = (
+  task: Pick<Task, 'dueDate' | 'dueTime'>,
+  duration: SnoozeDuration,
+  now: Date = new Date()
+): { dueDate: string; dueTime?: string } => {
+  if (duration === 'hour') {
+    const due = task.dueTime ? getDueMoment(task) : null;
+    const base = due && due.getTime() > now.getTime() ? due : now;
+    const next = new Date(base.getTime() + 60 * 60 * 1000);
+    return { dueDate: toDateKey(next), dueTime: toTimeKey(next) };
+  }
+
+  const today = toDateKey(now);
+  const base = task.dueDate && task.dueDate > today ? task.dueDate : today;
+  return { dueDate: addDays(base, duration === 'day' ? 1 : 7), dueTime: task.dueTime };
+};
@@ -0,0 +1,22 @@
+import * as Haptics from 'expo-haptics';
+import { Platform } from 'react-native';
+
+export type HapticType = 'light' | 'medium' | 'success' | 'warning' | 'error';
+
+/**
+ * Triggers haptic feedback, with fallback for web platform. Components go
+ * through `useHaptics` so the setting is respected.
+ */
+export const triggerHaptic = (type: HapticType): void => {
+  if (Platform.OS === 'web') return;
+
+  const hapticMap = {
+    light: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light),
+    medium: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium),
+    success: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
+    warning: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning),
+    error: () => Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error),
+  };
+
+  hapticMap[type]();
+};
@@ -0,0 +1,23 @@
+import type { Member, Task, TaskList } from '@/types/task';
+
+/**
+ * One or two letters for an avatar, e.g. "Ada Lovelace" → "AL", "sam" → "S"
+ */
+export const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const letters = words.length === 1 ? [words[0][0]] : [words[0][0], words[words.length - 1][0]];
+  return letters.join('').toUpperCase();
+};
+
+export const findMember = (members: Member[], id?: string): Member | undefined =>
+  id === undefined ? undefined : members.find((member) => member.id === id);
+
+/**
+ * Who a task in `list` can be assigned to: the current user plus the
+ * teammates the list is shared with, in team order
+ */
+export const getAssignableMembers = (members: Member[], currentUserId: string, list?: TaskList): Member[] =>
+  members.filter((member) => member.id === currentUserId || list?.memberIds?.includes(member.id));
+
+export const isAssignedTo = (task: Pick<Task, 'assignee'>, memberId: string): boolean => task.assignee === memberId;
@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const KEY_PREFIX = '@taskmanager/prefs/';
+
+/**
+ * Loads a stored preference object, filling any missing fields from
+ * `defaults` so new options can be added without migrations
+ */
+export const loadPreference = async <T extends object>(key: string, defaults: T): Promise<T> => {
+  const raw = await AsyncStorage.getItem(KEY_PREFIX + key);
+  if (raw === null) return defaults;
+
+  const stored = JSON.parse(raw);
+  return typeof stored === 'object' && stored !== null ? { ...defaults, ...stored } : defaults;
+};
+
+/**
+ * Persists a preference object
+ */
+export const savePreference = async <T extends object>(key: string, value: T): Promise<void> => {
+  await AsyncStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+};
@@ -0,0 +1,336 @@
+import type { Priority, Recurrence } from '@/types/task';
+import { addDays, addMonths, formatDue, toDateKey, toTimeKey } from '@/utils/due-date';
+import { describeRecurrence } from '@/utils/recurrence';
+import { extractTags } from '@/utils/tags';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QuickAddTokenKind = 'due' | 'priority' | 'recurrence';
+
+/**
+ * A recognised date, priority or repeat phrase, shown as a preview chip
+ * under the title input alongside the tags
+ */
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  label: string;
+}
+
+export interface QuickAddResult {
+  /** Input with every recognised phrase removed */
+  title: string;
+  tags: string[];
+  priority?: Priority;
+  dueDate?: string;
+  dueTime?: string;
+  recurrence?: Recurrence;
+  tokens: QuickAddToken[];
+}
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const WEEKDAY_NAME = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+/** Abbreviations like "sun" or "sat" are ordinary words, so they need "on", "next" or "every" */
+const SHORT_WEEKDAY_NAME = 'sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat';
+const ANY_WEEKDAY = `${WEEKDAY_NAME}|${SHORT_WEEKDAY_NAME}`;
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY_OF_MONTH = '(\\d{1,2})(?:st|nd|rd|th)?';
+const UNIT = '(day|week|month|year)s?';
+const FREQUENCY_WORD = '(daily|weekly|monthly|yearly|annually)';
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  urgent: 'urgent',
+  high: 'high',
+  normal: 'normal',
+  low: 'low',
+};
+
+const FREQUENCIES: Record<string, Recurrence['frequency']> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  year: 'yearly',
+};
+
+/** Time used for "tonight" when no time is given */
+const TONIGHT = '20:00';
+
+const weekdayIndex = (name: string): number =>
+  WEEKDAYS.findIndex((weekday) => weekday.startsWith(name.toLowerCase().slice(0, 3)));
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+interface ParseState {
+  now: Date;
+  today: string;
+  priority?: Priority;
+  dueDate?: string;
+  dueTime?: string;
+  recurrence?: Recurrence;
+}
+
+/**
+ * A phrase pattern and what it sets. `apply` receives the pattern's capture
+ * groups and returns false to leave the phrase in the title.
+ */
+interface Rule {
+  slot: 'priority' | 'dueDate' | 'dueTime' | 'recurrence';
+  pattern: RegExp;
+  apply: (groups: string[], state: ParseState) => boolean;
+}
+
+/**
+ * Anchors a phrase to whole words, allowing trailing punctuation
+ */
+const phrase = (source: string): RegExp => new RegExp(`(^|\\s)(?:${source})(?=[\\s,.;!?]|$)`, 'i');
+
+/**
+ * Next date strictly after today falling on `weekday`
+ */
+const nextWeekday = (today: string, weekday: number, now: Date): string =>
+  addDays(today, ((weekday - now.getDay() + 6) % 7) + 1);
+
+/**
+ * Date key for a month and day, rolling over to next year once it has passed
+ */
+const upcomingDate = (month: number, day: number, state: ParseState): string | null => {
+  const year = state.now.getFullYear();
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month) return null;
+
+  const key = toDateKey(date);
+  return key < state.today ? toDateKey(new Date(year + 1, month, day)) : key;
+};
+
+const setFrequency = (word: string, state: ParseState): boolean => {
+  const frequency = word.toLowerCase() === 'annually' ? 'yearly' : (word.toLowerCase() as Recurrence['frequency']);
+  state.recurrence = { frequency, interval: 1 };
+  return true;
+};
+
+const setTime = (hours: number, minutes: number, state: ParseState): boolean => {
+  if (hours > 23 || minutes > 59) return false;
+  state.dueTime = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  return true;
+};
+
+/**
+ * Tried in order; each slot is filled by its first matching rule, so
+ * recurrence goes before plain weekdays ("every monday" vs "monday") and
+ * times before "tonight", which only sets a time when none was given
+ */
+const RULES: Rule[] = [
+  // Recurrence
+  {
+    slot: 'recurrence',
+    pattern: phrase('every\\s+weekday'),
+    apply: (_groups, state) => {
+      state.recurrence = { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] };
+      return true;
+    },
+  },
+  {
+    slot: 'recurrence',
+    pattern: phrase(`every\\s+((?:${ANY_WEEKDAY})(?:(?:\\s*,\\s*|\\s+and\\s+)(?:${ANY_WEEKDAY}))*)`),
+    apply: ([days], state) => {
+      const weekdays = days.split(/\s*,\s*|\s+and\s+/).map(weekdayIndex);
+      state.recurrence = { frequency: 'weekly', interval: 1, weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+      return true;
+    },
+  },
+  {
+    slot: 'recurrence',
+    pattern: phrase(`every\\s+(other\\s+|\\d+\\s+)?${UNIT}`),
+    apply: ([count, unit], state) => {
+      const interval = !count ? 1 : /other/i.test(count) ? 2 : Number(count);
+      if (interval < 1) return false;
+      state.recurrence = { frequency: FREQUENCIES[unit.toLowerCase()], interval };
+      return true;
+    },
+  },
+  // A bare "daily" is often just an adjective ("Get a daily planner"), so
+  // it only counts as a repeat rule at the very start or end of the input
+  // (ignoring trailing tags)
+  {
+    slot: 'recurrence',
+    pattern: new RegExp(`^(\\s*)(?:${FREQUENCY_WORD})(?=[\\s,.;!?]|$)`, 'i'),
+    apply: ([word], state) => setFrequency(word, state),
+  },
+  {
+    slot: 'recurrence',
+    pattern: new RegExp(`(\\s)(?:${FREQUENCY_WORD})(?=[.!?]?(?:\\s+#\\S+)*\\s*$)`, 'i'),
+    apply: ([word], state) => setFrequency(word, state),
+  },
+
+  // Priority
+  {
+    slot: 'priority',
+    pattern: phrase('!(urgent|high|normal|low)'),
+    apply: ([word], state) => {
+      state.priority = PRIORITY_WORDS[word.toLowerCase()];
+      return true;
+    },
+  },
+
+  // Times
+  {
+    slot: 'dueTime',
+    pattern: phrase('(?:at\\s+)?noon'),
+    apply: (_groups, state) => setTime(12, 0, state),
+  },
+  {
+    slot: 'dueTime',
+    pattern: phrase('(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)'),
+    apply: ([hours, minutes, meridiem], state) => {
+      const hour = Number(hours);
+      if (hour < 1 || hour > 12) return false;
+      const offset = meridiem.toLowerCase() === 'pm' ? 12 : 0;
+      return setTime((hour % 12) + offset, Number(minutes ?? 0), state);
+    },
+  },
+  {
+    slot: 'dueTime',
+    pattern: phrase('(?:at\\s+)?(\\d{1,2}):(\\d{2})'),
+    apply: ([hours, minutes], state) => setTime(Number(hours), Number(minutes), state),
+  },
+
+  // Dates
+  {
+    slot: 'dueDate',
+    pattern: phrase('(today|tonight)'),
+    apply: ([word], state) => {
+      state.dueDate = state.today;
+      if (word.toLowerCase() === 'tonight' && !state.dueTime) state.dueTime = TONIGHT;
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase('(tomorrow|tmrw?)'),
+    apply: (_groups, state) => {
+      state.dueDate = addDays(state.today, 1);
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase('(?:(?:on|by|due)\\s+)?(\\d{4}-\\d{2}-\\d{2})'),
+    apply: ([dateKey], state) => {
+      const [year, month, day] = dateKey.split('-').map(Number);
+      const date = new Date(year, month - 1, day);
+      if (date.getMonth() !== month - 1) return false;
+      state.dueDate = dateKey;
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase('in\\s+(a|an|\\d+)\\s+(day|week|month)s?'),
+    apply: ([count, unit], state) => {
+      const amount = /^an?$/i.test(count) ? 1 : Number(count);
+      const kind = unit.toLowerCase();
+      state.dueDate =
+        kind === 'month' ? addMonths(state.today, amount) : addDays(state.today, kind === 'week' ? amount * 7 : amount);
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase('next\\s+week'),
+    apply: (_groups, state) => {
+      state.dueDate = nextWeekday(state.today, 1, state.now);
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase(`(?:(?:on|by|due|next)\\s+)?(${WEEKDAY_NAME})|(?:on|by|due|next)\\s+(${SHORT_WEEKDAY_NAME})`),
+    apply: ([full, short], state) => {
+      state.dueDate = nextWeekday(state.today, weekdayIndex(full ?? short), state.now);
+      return true;
+    },
+  },
+  {
+    slot: 'dueDate',
+    pattern: phrase(`(?:(?:on|by|due)\\s+)?(?:${MONTH}\\s+${DAY_OF_MONTH}|${DAY_OF_MONTH}\\s+${MONTH})`),
+    apply: ([monthFirst, dayAfter, dayFirst, monthAfter], state) => {
+      const month = MONTHS.indexOf((monthFirst ?? monthAfter).toLowerCase().slice(0, 3));
+      const dueDate = upcomingDate(month, Number(dayAfter ?? dayFirst), state);
+      if (!dueDate) return false;
+      state.dueDate = dueDate;
+      return true;
+    },
+  },
+];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Reads dates, times, `!priority`, `#tags` and repeat rules out of a quick-add
+ * title, e.g. "Pay rent tomorrow 9am !urgent #home every month". Each kind is
+ * taken from its first match only; anything unrecognised stays in the title.
+ * A time without a date means its next occurrence (today or tomorrow).
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  const state: ParseState = { now, today: toDateKey(now) };
+  let text = input;
+
+  for (const rule of RULES) {
+    if (state[rule.slot] !== undefined) continue;
+
+    const match = rule.pattern.exec(text);
+    if (!match) continue;
+
+    const [whole, leading, ...groups] = match;
+    if (rule.apply(groups, state)) {
+      text = text.slice(0, match.index) + leading + text.slice(match.index + whole.length);
+    }
+  }
+
+  // Drop punctuation left dangling by a removed phrase ("Ship friday, then relax")
+  const { title, tags } = extractTags(text.replace(/\s+([,.;!?])(?=\s|$)/g, '$1').replace(/[\s,;]+$/, ''));
+
+  // A title made only of keywords ("Tomorrow") is taken literally
+  if (title === '') {
+    return { ...extractTags(input), tokens: [] };
+  }
+
+  if (state.dueTime && !state.dueDate) {
+    state.dueDate = state.dueTime <= toTimeKey(now) ? addDays(state.today, 1) : state.today;
+  }
+
+  // Weekday rules start on their first matching day
+  const weekdays = state.recurrence?.weekdays;
+  if (weekdays && !state.dueDate) {
+    const offset = Math.min(...weekdays.map((day) => (day - now.getDay() + 7) % 7));
+    state.dueDate = addDays(state.today, offset);
+  }
+
+  const { priority, dueDate, dueTime, recurrence } = state;
+  const tokens: QuickAddToken[] = [
+    ...(dueDate ? [{ kind: 'due' as const, label: formatDue({ dueDate, dueTime }, now) }] : []),
+    ...(priority ? [{ kind: 'priority' as const, label: priority[0].toUpperCase() + priority.slice(1) }] : []),
+    ...(recurrence ? [{ kind: 'recurrence' as const, label: describeRecurrence(recurrence) }] : []),
+  ];
+
+  return {
+    title,
+    tags,
+    tokens,
+    ...(priority && { priority }),
+    ...(dueDate && { dueDate }),
+    ...(dueDate && dueTime && { dueTime }),
+    ...(recurrence && { recurrence }),
+  };
+};
@@ -0,0 +1,304 @@
+import type { Recurrence, RecurrenceFrequency } from '@/types/task';
+import { addDays, fromDateKey, toDateKey } from '@/utils/due-date';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+// Upper bound on days scanned when looking for the next matching weekday
+const MAX_SEARCH_STEPS = 1000;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const YEAR_DATE_PATTERN = /^(\d{2})-(\d{2})$/;
+
+// ============================================================================
+// RRULE (RFC 5545 subset)
+// ============================================================================
+
+/**
+ * Parses an RFC 5545 RRULE supporting FREQ, INTERVAL, BYDAY (plain weekdays),
+ * BYMONTHDAY (single day), BYMONTH (single month, yearly rules) and UNTIL.
+ * Throws on anything else.
+ */
+export const parseRRule = (input: string): Recurrence => {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) throw new Error('RRULE is missing FREQ');
+
+  const frequency = freq.toLowerCase() as RecurrenceFrequency;
+  if (!(frequency in FREQUENCY_UNITS)) {
+    throw new Error(`Unsupported FREQ "${freq}"`);
+  }
+
+  const rule: Recurrence = { frequency, interval: 1 };
+  let byMonth: number | undefined;
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`Invalid INTERVAL "${value}"`);
+        }
+        rule.interval = interval;
+        break;
+      }
+
+      case 'BYDAY': {
+        const weekdays = value.split(',').map((day) => RRULE_WEEKDAYS.indexOf(day));
+        if (weekdays.some((day) => day === -1)) {
+          throw new Error(`Unsupported BYDAY "${value}"`);
+        }
+        rule.weekdays = [...new Set(weekdays)].sort((a, b) => a - b);
+        break;
+      }
+
+      case 'BYMONTHDAY': {
+        const monthDay = Number(value);
+        if (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31) {
+          throw new Error(`Unsupported BYMONTHDAY "${value}"`);
+        }
+        rule.monthDay = monthDay;
+        break;
+      }
+
+      case 'BYMONTH': {
+        const month = Number(value);
+        if (!Number.isInteger(month) || month < 1 || month > 12) {
+          throw new Error(`Unsupported BYMONTH "${value}"`);
+        }
+        byMonth = month;
+        break;
+      }
+
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) throw new Error(`Invalid UNTIL "${value}"`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  if (rule.weekdays && rule.frequency !== 'weekly') {
+    throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+  }
+  if (rule.frequency === 'yearly' && (byMonth || rule.monthDay)) {
+    // Yearly rules keep their date as `yearDate`
+    if (!byMonth || !rule.monthDay) throw new Error('FREQ=YEARLY needs both BYMONTH and BYMONTHDAY');
+    if (rule.monthDay > daysInMonth(2000, byMonth - 1)) {
+      throw new Error(`BYMONTHDAY ${rule.monthDay} doesn't exist in month ${byMonth}`);
+    }
+    rule.yearDate = `${String(byMonth).padStart(2, '0')}-${String(rule.monthDay).padStart(2, '0')}`;
+    delete rule.monthDay;
+  } else if (byMonth) {
+    throw new Error('BYMONTH is only supported with FREQ=YEARLY');
+  }
+  if (rule.monthDay && rule.frequency !== 'monthly') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  return rule;
+};
+
+/**
+ * Serializes a rule back to RRULE syntax
+ */
+export const toRRule = (rule: Recurrence): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+  if (rule.monthDay) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  if (rule.yearDate) {
+    const [month, day] = rule.yearDate.split('-').map(Number);
+    parts.push(`BYMONTH=${month}`, `BYMONTHDAY=${day}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+// ============================================================================
+// Occurrences
+// ============================================================================
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Date key for `day` in the month `offset` months after `date`, clamped to the month length
+ */
+const monthDate = (date: Date, offset: number, day: number): string => {
+  const target = new Date(date.getFullYear(), date.getMonth() + offset, 1);
+  const clamped = Math.min(day, daysInMonth(target.getFullYear(), target.getMonth()));
+  return toDateKey(new Date(target.getFullYear(), target.getMonth(), clamped));
+};
+
+const startOfWeek = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay()).getTime();
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Pins a monthly rule without a day of month to the day of `dateKey`, and a
+ * yearly one to its month and day, so a series starting on the 31st (or on
+ * Feb 29) returns to it after shorter months (or years)
+ */
+export const anchorRecurrence = (rule: Recurrence, dateKey: string): Recurrence => {
+  if (rule.frequency === 'monthly' && !rule.monthDay) return { ...rule, monthDay: fromDateKey(dateKey).getDate() };
+  if (rule.frequency === 'yearly' && !rule.yearDate) return { ...rule, yearDate: dateKey.slice(5) };
+  return rule;
+};
+
+/**
+ * Returns the first date matching the rule strictly after `fromDate`
+ * (a `YYYY-MM-DD` key), or null once the rule has ended.
+ */
+export const getNextOccurrence = (rule: Recurrence, fromDate: string): string | null => {
+  const from = fromDateKey(fromDate);
+  let next: string | null = null;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(fromDate, rule.interval);
+      break;
+
+    case 'weekly': {
+      if (!rule.weekdays?.length) {
+        next = addDays(fromDate, 7 * rule.interval);
+        break;
+      }
+      const fromWeek = startOfWeek(from);
+      for (let step = 1; step <= MAX_SEARCH_STEPS && !next; step++) {
+        const candidate = fromDateKey(addDays(fromDate, step));
+        const weekIndex = Math.round((startOfWeek(candidate) - fromWeek) / WEEK_MS);
+        if (weekIndex % rule.interval === 0 && rule.weekdays.includes(candidate.getDay())) {
+          next = toDateKey(candidate);
+        }
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const day = rule.monthDay ?? from.getDate();
+      // The rule's day may still be ahead in the current month
+      const sameMonth = monthDate(from, 0, day);
+      next = sameMonth > fromDate ? sameMonth : monthDate(from, rule.interval, day);
+      break;
+    }
+
+    case 'yearly': {
+      const [month, day] = (rule.yearDate ?? fromDate.slice(5)).split('-').map(Number);
+      const yearStart = new Date(from.getFullYear(), 0, 1);
+      // The rule's date may still be ahead in the current year
+      const sameYear = monthDate(yearStart, month - 1, day);
+      next = sameYear > fromDate ? sameYear : monthDate(yearStart, 12 * rule.interval + month - 1, day);
+      break;
+    }
+  }
+
+  if (next && rule.until && next > rule.until) return null;
+  return next;
+};
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+const ordinal = (value: number): string => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = value % 100;
+  return value + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+};
+
+/**
+ * Plain-language summary, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export const describeRecurrence = (rule: Recurrence): string => {
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  let description = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    description += ` on ${rule.weekdays.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.frequency === 'monthly' && rule.monthDay) {
+    description += ` on the ${ordinal(rule.monthDay)}`;
+  }
+  if (rule.frequency === 'yearly' && rule.yearDate) {
+    // A leap year, so Feb 29 can be shown
+    description += ` on ${fromDateKey(`2000-${rule.yearDate}`).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+    })}`;
+  }
+  if (rule.until) {
+    description += ` until ${fromDateKey(rule.until).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })}`;
+  }
+
+  return description;
+};
+
+const isIntegerBetween = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// 2000 is a leap year, so Feb 29 counts
+const isYearDate = (value: unknown): boolean => {
+  const match = typeof value === 'string' ? YEAR_DATE_PATTERN.exec(value) : null;
+  if (!match) return false;
+  const month = Number(match[1]);
+  return isIntegerBetween(month, 1, 12) && isIntegerBetween(Number(match[2]), 1, daysInMonth(2000, month - 1));
+};
+
+/**
+ * Checks that an unknown value is a usable recurrence rule, down to every
+ * optional field, so a malformed one can't reach the date maths
+ */
+export const isRecurrence = (value: unknown): value is Recurrence => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Partial<Record<keyof Recurrence, unknown>>;
+  if (typeof rule.frequency !== 'string' || !Object.hasOwn(FREQUENCY_UNITS, rule.frequency)) return false;
+  if (!isIntegerBetween(rule.interval, 1, Number.MAX_SAFE_INTEGER)) return false;
+
+  const { weekdays, monthDay, yearDate, until } = rule;
+  if (
+    weekdays !== undefined &&
+    !(
+      Array.isArray(weekdays) &&
+      weekdays.every((day) => isIntegerBetween(day, 0, 6)) &&
+      new Set(weekdays).size === weekdays.length
+    )
+  ) {
+    return false;
+  }
+  if (monthDay !== undefined && !(rule.frequency === 'monthly' && isIntegerBetween(monthDay, 1, 31))) return false;
+  if (yearDate !== undefined && !(rule.frequency === 'yearly' && isYearDate(yearDate))) return false;
+  return until === undefined || (typeof until === 'string' && DATE_KEY_PATTERN.test(until));
+};
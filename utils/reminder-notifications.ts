@@ -0,0 +1,165 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import type { Task } from '@/types/task';
+import { SNOOZE_MINUTES } from '@/utils/reminders';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CATEGORY_ID = 'task-reminder';
+const CHANNEL_ID = 'reminders';
+
+/**
+ * Buttons on a reminder notification
+ */
+export type ReminderAction = 'complete' | 'snooze';
+
+/**
+ * Data attached to each scheduled reminder
+ */
+interface ReminderData extends Record<string, unknown> {
+  taskId: string;
+  /** What the notification was built from; see `reminderSignature` */
+  signature: string;
+}
+
+/** Scheduled notifications aren't available on web */
+export const REMINDERS_SUPPORTED = Platform.OS !== 'web';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/**
+ * Shows reminders while the app is open and registers the notification
+ * buttons and Android channel. Both actions open the app, since responses
+ * from a killed app are otherwise lost.
+ */
+export const configureReminders = async (): Promise<void> => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+      shouldShowBanner: true,
+      shouldShowList: true,
+    }),
+  });
+
+  await Notifications.setNotificationCategoryAsync(CATEGORY_ID, [
+    { identifier: 'complete', buttonTitle: 'Complete' },
+    { identifier: 'snooze', buttonTitle: `Snooze ${SNOOZE_MINUTES} min` },
+  ]);
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Task reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+};
+
+/**
+ * Asks for notification permission if it hasn't been decided yet
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Everything a scheduled reminder shows, so an edit to any of it reschedules
+ */
+export const reminderSignature = (task: Task, fireAt: number): string =>
+  JSON.stringify([fireAt, task.title, task.description]);
+
+/**
+ * Signatures of the reminders the OS currently has queued, keyed by task id
+ */
+export const getScheduledReminders = async (): Promise<Map<string, string>> => {
+  const requests = await Notifications.getAllScheduledNotificationsAsync();
+  return new Map(
+    requests.flatMap((request) => {
+      const data = request.content.data as Partial<ReminderData> | undefined;
+      return typeof data?.taskId === 'string' && typeof data.signature === 'string'
+        ? [[data.taskId, data.signature] as const]
+        : [];
+    })
+  );
+};
+
+/**
+ * Schedules (or replaces) the reminder for a task. The task id doubles as
+ * the notification id.
+ */
+export const scheduleReminder = async (task: Task, fireAt: number): Promise<void> => {
+  const data: ReminderData = { taskId: task.id, signature: reminderSignature(task, fireAt) };
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: task.id,
+    content: {
+      title: task.title,
+      body: task.description || 'Reminder',
+      data,
+      categoryIdentifier: CATEGORY_ID,
+      sound: true,
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: fireAt,
+      channelId: CHANNEL_ID,
+    },
+  });
+};
+
+export const cancelReminder = (taskId: string): Promise<void> =>
+  Notifications.cancelScheduledNotificationAsync(taskId);
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * Calls `listener` when a reminder's Complete or Snooze button is pressed,
+ * including the press that launched the app. Returns an unsubscribe function.
+ */
+export const subscribeToReminderActions = (
+  listener: (taskId: string, action: ReminderAction) => void
+): (() => void) => {
+  // The launching response can also reach the listener, so handle each once
+  const handled = new Set<string>();
+
+  const handleResponse = (response: Notifications.NotificationResponse) => {
+    const { notification, actionIdentifier } = response;
+    const data = notification.request.content.data as Partial<ReminderData> | undefined;
+    const key = `${notification.request.identifier}:${notification.date}:${actionIdentifier}`;
+    if (typeof data?.taskId !== 'string' || handled.has(key)) return;
+    if (actionIdentifier !== 'complete' && actionIdentifier !== 'snooze') return;
+
+    handled.add(key);
+    listener(data.taskId, actionIdentifier);
+    Notifications.dismissNotificationAsync(notification.request.identifier).catch((error) =>
+      console.warn('Failed to dismiss reminder', error)
+    );
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      if (!response) return;
+      handleResponse(response);
+      return Notifications.clearLastNotificationResponseAsync();
+    })
+    .catch((error) => console.warn('Failed to read the launching notification', error));
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+  return () => subscription.remove();
+};
@@ -0,0 +1,101 @@
+import type { Reminder, ReminderTiming, Task } from '@/types/task';
+import { fromDateKey } from '@/utils/due-date';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Time of day reminders fire for tasks due on a date without a time */
+export const ALL_DAY_REMINDER_TIME = '09:00';
+
+export const SNOOZE_MINUTES = 10;
+
+/**
+ * One-tap reminder choices; custom times are picked separately
+ */
+export const REMINDER_PRESETS: { key: string; label: string; reminder: Reminder }[] = [
+  { key: 'due', label: 'At due time', reminder: { timing: 'due' } },
+  { key: 'before-10', label: '10 min before', reminder: { timing: 'before', minutesBefore: 10 } },
+  { key: 'before-60', label: '1 hour before', reminder: { timing: 'before', minutesBefore: 60 } },
+  { key: 'before-1440', label: '1 day before', reminder: { timing: 'before', minutesBefore: 1440 } },
+];
+
+const REMINDER_TIMINGS: ReminderTiming[] = ['due', 'before', 'custom'];
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Epoch milliseconds a task's reminder fires, or null when it has none.
+ * Due-relative reminders need a due date; all-day tasks count from
+ * `ALL_DAY_REMINDER_TIME`. A pending snooze wins over the planned time;
+ * once it has passed the planned time applies again.
+ */
+export const getReminderTime = (
+  task: Pick<Task, 'reminder' | 'dueDate' | 'dueTime' | 'completed'>,
+  now: number = Date.now()
+): number | null => {
+  const { reminder } = task;
+  if (!reminder || task.completed) return null;
+  if (reminder.snoozedUntil !== undefined && reminder.snoozedUntil > now) return reminder.snoozedUntil;
+  if (reminder.timing === 'custom') return reminder.at ?? null;
+  if (!task.dueDate) return null;
+
+  const due = fromDateKey(task.dueDate, task.dueTime ?? ALL_DAY_REMINDER_TIME).getTime();
+  return reminder.timing === 'before' ? due - (reminder.minutesBefore ?? 0) * MINUTE_MS : due;
+};
+
+/**
+ * Tasks with a reminder still to come, and when it fires
+ */
+export const planReminders = (tasks: Task[], now: number = Date.now()): { task: Task; fireAt: number }[] =>
+  tasks.flatMap((task) => {
+    const fireAt = getReminderTime(task, now);
+    return fireAt !== null && fireAt > now ? [{ task, fireAt }] : [];
+  });
+
+// ============================================================================
+// Descriptions
+// ============================================================================
+
+const formatMinutes = (minutes: number): string => {
+  if (minutes % 1440 === 0) return minutes === 1440 ? '1 day' : `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+  return `${minutes} min`;
+};
+
+/**
+ * Plain-language summary, e.g. "10 min before" or "Oct 20, 09:00"
+ */
+export const describeReminder = (reminder: Reminder): string => {
+  switch (reminder.timing) {
+    case 'due':
+      return 'At due time';
+    case 'before':
+      return `${formatMinutes(reminder.minutesBefore ?? 0)} before`;
+    case 'custom':
+      return reminder.at === undefined
+        ? 'Custom'
+        : new Date(reminder.at).toLocaleString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          });
+  }
+};
+
+/**
+ * Checks that an unknown value is a usable reminder
+ */
+export const isReminder = (value: unknown): value is Reminder => {
+  if (typeof value !== 'object' || value === null) return false;
+  const reminder = value as Partial<Reminder>;
+  if (!REMINDER_TIMINGS.includes(reminder.timing as ReminderTiming)) return false;
+  if (reminder.timing === 'before' && typeof reminder.minutesBefore !== 'number') return false;
+  if (reminder.timing === 'custom' && typeof reminder.at !== 'number') return false;
+  return reminder.snoozedUntil === undefined || typeof reminder.snoozedUntil === 'number';
+};
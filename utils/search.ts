@@ -0,0 +1,179 @@
+import type { Task } from '@/types/task';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Half-open `[start, end)` character range in the original text
+ */
+export type MatchRange = [number, number];
+
+export interface SearchMatch {
+  task: Task;
+  score: number;
+  titleRanges: MatchRange[];
+  descriptionRanges: MatchRange[];
+}
+
+// Relative weight of a token matching each field
+const SCORE_WEIGHTS = {
+  titleWordStart: 10,
+  title: 6,
+  tag: 5,
+  description: 3,
+  subtask: 2,
+  /** Bonus when the whole query appears verbatim in the title */
+  titlePhrase: 8,
+} as const;
+
+// ============================================================================
+// Folding
+// ============================================================================
+
+interface FoldedText {
+  folded: string;
+  /** Original index of each character in `folded` */
+  sourceIndex: number[];
+}
+
+/**
+ * Lowercases and strips diacritics ("Crème" → "creme") while remembering
+ * where every folded character came from, so matches map back for highlighting
+ */
+const foldWithMap = (text: string): FoldedText => {
+  let folded = '';
+  const sourceIndex: number[] = [];
+
+  for (let i = 0; i < text.length; ) {
+    const codePoint = text.codePointAt(i) ?? 0;
+    const char = String.fromCodePoint(codePoint);
+    const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+    folded += plain;
+    for (let k = 0; k < plain.length; k++) sourceIndex.push(i);
+    i += char.length;
+  }
+
+  return { folded, sourceIndex };
+};
+
+/**
+ * Case- and diacritic-insensitive form of a string
+ */
+export const foldText = (text: string): string => foldWithMap(text).folded;
+
+/**
+ * Splits a query into folded, non-empty tokens
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  foldText(query).split(/\s+/).filter(Boolean);
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Every place any token occurs in `text`, merged and in original indices
+ */
+export const findMatchRanges = (text: string, tokens: string[]): MatchRange[] => {
+  if (tokens.length === 0 || text === '') return [];
+
+  const { folded, sourceIndex } = foldWithMap(text);
+  const ranges: MatchRange[] = [];
+
+  for (const token of tokens) {
+    let from = folded.indexOf(token);
+    while (from !== -1) {
+      const lastIndex = from + token.length - 1;
+      const lastChar = String.fromCodePoint(text.codePointAt(sourceIndex[lastIndex]) ?? 0);
+      ranges.push([sourceIndex[from], sourceIndex[lastIndex] + lastChar.length]);
+      from = folded.indexOf(token, from + token.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || /[\s\-_/.,;:!?()[\]"']/.test(text[index - 1]);
+
+/**
+ * Scores one token against a task, or 0 when no field contains it
+ */
+const scoreToken = (
+  token: string,
+  fields: { title: string; description: string; tags: string[]; subtasks: string[] }
+): number => {
+  let score = 0;
+
+  const titleIndex = fields.title.indexOf(token);
+  if (titleIndex !== -1) {
+    let wordStart = false;
+    for (let i = titleIndex; i !== -1 && !wordStart; i = fields.title.indexOf(token, i + 1)) {
+      wordStart = isWordStart(fields.title, i);
+    }
+    score += wordStart ? SCORE_WEIGHTS.titleWordStart : SCORE_WEIGHTS.title;
+  }
+  if (fields.tags.some(tag => tag.includes(token))) score += SCORE_WEIGHTS.tag;
+  if (fields.description.includes(token)) score += SCORE_WEIGHTS.description;
+  if (fields.subtasks.some(subtask => subtask.includes(token))) score += SCORE_WEIGHTS.subtask;
+
+  return score;
+};
+
+/**
+ * Finds tasks where every query token appears in the title, description,
+ * tags or subtasks, best matches first
+ */
+export const searchTasks = (tasks: Task[], query: string): SearchMatch[] => {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return [];
+
+  const phrase = tokens.join(' ');
+  const matches: SearchMatch[] = [];
+
+  for (const task of tasks) {
+    const fields = {
+      title: foldText(task.title),
+      description: foldText(task.description),
+      tags: task.tags.map(foldText),
+      subtasks: task.subtasks.map(subtask => foldText(subtask.title)),
+    };
+
+    let score = 0;
+    let allMatched = true;
+    for (const token of tokens) {
+      const tokenScore = scoreToken(token, fields);
+      if (tokenScore === 0) {
+        allMatched = false;
+        break;
+      }
+      score += tokenScore;
+    }
+    if (!allMatched) continue;
+
+    if (tokens.length > 1 && fields.title.includes(phrase)) {
+      score += SCORE_WEIGHTS.titlePhrase;
+    }
+
+    matches.push({
+      task,
+      score,
+      titleRanges: findMatchRanges(task.title, tokens),
+      descriptionRanges: findMatchRanges(task.description, tokens),
+    });
+  }
+
+  // Stable sort keeps the caller's order between equal scores
+  return matches.sort((a, b) => b.score - a.score);
+};
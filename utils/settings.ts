@@ -0,0 +1,119 @@
+import type { SnoozeDuration } from '@/utils/due-date';
+import { DEFAULT_THEME_KEY } from '@/utils/themes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a swipe on a task row does
+ */
+export type SwipeAction = 'complete' | 'snooze' | 'delete' | 'none';
+
+export type ShakeSensitivity = 'low' | 'medium' | 'high';
+
+/**
+ * App-wide preferences, edited on the Settings tab. Kept flat so options
+ * added later are filled in from the defaults.
+ */
+export interface AppSettings {
+  swipeEnabled: boolean;
+  /** Performed when a row is swiped right past the threshold */
+  swipeRight: SwipeAction;
+  /** Buttons revealed by swiping left, from the inside out */
+  swipeLeft: Exclude<SwipeAction, 'none'>[];
+  /** Swiping left most of the way across runs the outermost action */
+  fullSwipe: boolean;
+  snoozeBy: SnoozeDuration;
+  /** Ask before deleting; without it deletes rely on undo */
+  confirmDelete: boolean;
+  /** Days before trashed tasks are purged; 0 keeps them until emptied */
+  trashRetentionDays: number;
+  /** Days after completion before tasks are archived; 0 archives only on request */
+  autoArchiveDays: number;
+  /** Base URL of the self-hosted sync server; empty keeps tasks on this device */
+  syncServerUrl: string;
+  /** Bearer token the sync server expects, if any */
+  syncToken: string;
+  /** Key of the registered theme, see `utils/themes.ts` */
+  theme: string;
+  /** `lat, long`, time zone or city whose sunrise and sunset the theme follows; empty uses the device's time zone */
+  sunLocation: string;
+  /** Blend time-of-day palettes into each other instead of switching at once */
+  smoothThemes: boolean;
+  /** Vibration feedback on taps, completions and gestures (mobile only) */
+  haptics: boolean;
+  /** Particles burst from a completed task; 0 turns the effect off */
+  particleCount: number;
+  /** Shaking the phone shuffles the task list (mobile only) */
+  shakeToShuffle: boolean;
+  /** How hard a shake has to be, see `SHAKE_SENSITIVITY_OPTIONS` */
+  shakeSensitivity: ShakeSensitivity;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  swipeEnabled: true,
+  swipeRight: 'complete',
+  swipeLeft: ['snooze', 'delete'],
+  fullSwipe: true,
+  snoozeBy: 'day',
+  confirmDelete: true,
+  trashRetentionDays: 30,
+  autoArchiveDays: 7,
+  syncServerUrl: '',
+  syncToken: '',
+  theme: DEFAULT_THEME_KEY,
+  sunLocation: '',
+  smoothThemes: true,
+  haptics: true,
+  particleCount: 15,
+  shakeToShuffle: true,
+  shakeSensitivity: 'medium',
+};
+
+export const SWIPE_ACTION_OPTIONS: { key: SwipeAction; label: string }[] = [
+  { key: 'complete', label: 'Complete' },
+  { key: 'snooze', label: 'Snooze' },
+  { key: 'delete', label: 'Delete' },
+  { key: 'none', label: 'Nothing' },
+];
+
+export const TRASH_RETENTION_OPTIONS: { key: string; days: number; label: string }[] = [
+  { key: '7', days: 7, label: '7 days' },
+  { key: '30', days: 30, label: '30 days' },
+  { key: '90', days: 90, label: '90 days' },
+  { key: 'never', days: 0, label: 'Never' },
+];
+
+export const AUTO_ARCHIVE_OPTIONS: { key: string; days: number; label: string }[] = [
+  { key: '1', days: 1, label: '1 day' },
+  { key: '7', days: 7, label: '7 days' },
+  { key: '30', days: 30, label: '30 days' },
+  { key: 'never', days: 0, label: 'Never' },
+];
+
+export const SNOOZE_OPTIONS: { key: SnoozeDuration; label: string }[] = [
+  { key: 'hour', label: '1 hour' },
+  { key: 'day', label: '1 day' },
+  { key: 'week', label: '1 week' },
+];
+
+export const PARTICLE_OPTIONS: { key: string; count: number; label: string }[] = [
+  { key: 'off', count: 0, label: 'Off' },
+  { key: 'few', count: 8, label: 'A few' },
+  { key: 'normal', count: 15, label: 'Normal' },
+  { key: 'party', count: 30, label: 'Party' },
+];
+
+/** Acceleration, in g, a shake must exceed; lower thresholds react to gentler shakes */
+export const SHAKE_SENSITIVITY_OPTIONS: { key: ShakeSensitivity; label: string; threshold: number }[] = [
+  { key: 'low', label: 'Low', threshold: 3.5 },
+  { key: 'medium', label: 'Medium', threshold: 2.5 },
+  { key: 'high', label: 'High', threshold: 1.8 },
+];
+
+/**
+ * Acceleration threshold for a sensitivity, falling back to medium
+ */
+export const getShakeThreshold = (sensitivity: ShakeSensitivity): number =>
+  (SHAKE_SENSITIVITY_OPTIONS.find((option) => option.key === sensitivity) ?? SHAKE_SENSITIVITY_OPTIONS[1]).threshold;
@@ -0,0 +1,179 @@
+import { TIME_ZONE_COORDINATES } from '@/constants/time-zones';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeoPoint {
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+}
+
+/**
+ * A place the sun is calculated for, with the name shown in settings
+ */
+export interface SunLocation extends GeoPoint {
+  label: string;
+}
+
+export interface SunPosition {
+  /** Degrees above the horizon; negative once the sun has set */
+  altitude: number;
+  /** Degrees from the local meridian, negative before solar noon */
+  hourAngle: number;
+}
+
+/**
+ * One day's solar events; unset when the sun never reaches that angle, as in
+ * a polar summer or winter
+ */
+export interface SunTimes {
+  solarNoon: Date;
+  dawn?: Date;
+  sunrise?: Date;
+  /** End of the morning golden hour */
+  goldenHourEnd?: Date;
+  /** Start of the evening golden hour */
+  goldenHour?: Date;
+  sunset?: Date;
+  dusk?: Date;
+}
+
+/** Sun altitudes, in degrees, that the theme changes at */
+export const SUN_ANGLES = {
+  /** Upper limb on the horizon, allowing for refraction */
+  sunrise: -0.833,
+  /** Soft, warm light while the sun is this low */
+  goldenHour: 6,
+  /** Nautical twilight: sky dark enough to count as night below this */
+  night: -12,
+};
+
+// ============================================================================
+// Astronomy
+// ============================================================================
+
+// Low-precision solar formulas after the Astronomical Algorithms approximations,
+// accurate to about a minute, which is plenty for picking colours
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+
+const toDays = (date: Date): number => date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+
+const fromJulian = (julian: number): Date => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+const solarMeanAnomaly = (days: number): number => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (anomaly: number): number => {
+  const center = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const perihelion = RAD * 102.9372;
+  return anomaly + center + perihelion + Math.PI;
+};
+
+const declination = (longitude: number): number => Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+
+const rightAscension = (longitude: number): number =>
+  Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY), Math.cos(longitude));
+
+const siderealTime = (days: number, west: number): number => RAD * (280.16 + 360.9856235 * days) - west;
+
+/**
+ * Where the sun is in the sky at `date`, seen from `point`
+ */
+export const getSunPosition = (date: Date, point: GeoPoint): SunPosition => {
+  const west = RAD * -point.longitude;
+  const phi = RAD * point.latitude;
+  const days = toDays(date);
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  const dec = declination(longitude);
+  const angle = siderealTime(days, west) - rightAscension(longitude);
+  // Wrap into -180..180 so the sign says which side of noon it is
+  const hourAngle = Math.atan2(Math.sin(angle), Math.cos(angle));
+
+  return {
+    altitude: Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle)) / RAD,
+    hourAngle: hourAngle / RAD,
+  };
+};
+
+/**
+ * Sunrise, sunset, golden hour and twilight for the solar day nearest `date`
+ */
+export const getSunTimes = (date: Date, point: GeoPoint): SunTimes => {
+  const west = RAD * -point.longitude;
+  const phi = RAD * point.latitude;
+  const cycle = Math.round(toDays(date) - J0 - west / (2 * Math.PI));
+  const approxNoon = J0 + west / (2 * Math.PI) + cycle;
+  const anomaly = solarMeanAnomaly(approxNoon);
+  const longitude = eclipticLongitude(anomaly);
+  const dec = declination(longitude);
+  const noon = J2000 + approxNoon + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+
+  // Morning and evening moments the sun crosses `altitude`, mirrored around noon
+  const crossing = (altitude: number): [Date?, Date?] => {
+    const cosHour =
+      (Math.sin(RAD * altitude) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+    if (cosHour < -1 || cosHour > 1) return [];
+    const offset = Math.acos(cosHour) / (2 * Math.PI);
+    return [fromJulian(noon - offset), fromJulian(noon + offset)];
+  };
+
+  const [dawn, dusk] = crossing(SUN_ANGLES.night);
+  const [sunrise, sunset] = crossing(SUN_ANGLES.sunrise);
+  const [goldenHourEnd, goldenHour] = crossing(SUN_ANGLES.goldenHour);
+
+  return { solarNoon: fromJulian(noon), dawn, sunrise, goldenHourEnd, goldenHour, sunset, dusk };
+};
+
+// ============================================================================
+// Locations
+// ============================================================================
+
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * The device's IANA time zone, e.g. `Europe/Berlin`, when the runtime reports one
+ */
+export const getDeviceTimeZone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Turns what the user typed into a place: `lat, long` coordinates, an IANA
+ * time zone such as `America/Chicago`, or the city it is named after.
+ * An empty entry uses the device's time zone. Returns `null` when nothing
+ * matches, so the theme falls back to fixed hours.
+ */
+export const resolveSunLocation = (input: string, deviceTimeZone = getDeviceTimeZone()): SunLocation | null => {
+  const entry = input.trim();
+
+  const coordinates = entry.match(COORDINATES_PATTERN);
+  if (coordinates) {
+    const latitude = Number(coordinates[1]);
+    const longitude = Number(coordinates[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { label: `${latitude}, ${longitude}`, latitude, longitude };
+  }
+
+  const query = (entry || deviceTimeZone || '').toLowerCase().replace(/_/g, ' ');
+  if (!query) return null;
+
+  const zone = Object.keys(TIME_ZONE_COORDINATES).find((key) => {
+    const name = key.toLowerCase().replace(/_/g, ' ');
+    return name === query || name.slice(name.lastIndexOf('/') + 1) === query;
+  });
+  if (!zone) return null;
+
+  const [latitude, longitude] = TIME_ZONE_COORDINATES[zone];
+  return { label: zone.slice(zone.lastIndexOf('/') + 1).replace(/_/g, ' '), latitude, longitude };
+};
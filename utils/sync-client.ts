@@ -0,0 +1,75 @@
+import type { FieldChange, SyncRecord } from '@/utils/sync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SyncServer {
+  /** Base URL, e.g. `http://192.168.1.20:8787` */
+  url: string;
+  /** Shared secret sent as a bearer token, if the server requires one */
+  token?: string;
+}
+
+export interface PushResponse {
+  /** Server revision after the changes were applied */
+  revision: number;
+}
+
+export interface PullResponse {
+  /** Revision to pass as `since` next time */
+  revision: number;
+  /** Every entity with a field changed after `since`, with all its fields */
+  records: SyncRecord[];
+}
+
+/** Requests slower than this count as offline */
+const REQUEST_TIMEOUT_MS = 15000;
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Calls one endpoint of the sync API (see `server/README.md`), turning
+ * network failures, timeouts and error responses into readable errors
+ */
+const request = async <T>(server: SyncServer, path: string, body?: unknown): Promise<T> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${server.url.replace(/\/+$/, '')}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(server.token && { Authorization: `Bearer ${server.token}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    }).catch(() => {
+      throw new Error(controller.signal.aborted ? 'Sync server timed out' : "Can't reach the sync server");
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      throw new Error(error ?? `Sync server responded with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Uploads queued field changes; the server keeps whichever value of each
+ * field has the newer stamp
+ */
+export const pushChanges = (server: SyncServer, changes: FieldChange[]): Promise<PushResponse> =>
+  request(server, '/sync/push', { changes });
+
+/**
+ * Downloads every entity changed after revision `since`
+ */
+export const pullChanges = (server: SyncServer, since: number): Promise<PullResponse> =>
+  request(server, `/sync/pull?since=${since}`);
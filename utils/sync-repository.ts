@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { SyncMeta } from '@/utils/sync';
+
+const STORAGE_KEY = '@taskmanager/sync';
+
+/**
+ * Random id for this install, used to break ties between equal timestamps
+ */
+const createDeviceId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Bookkeeping for a server this install hasn't synced with yet
+ */
+export const emptySyncMeta = (deviceId: string, serverUrl: string): SyncMeta => ({
+  deviceId,
+  serverUrl,
+  cursor: 0,
+  outbox: [],
+  clocks: {},
+});
+
+/**
+ * Loads the outbox, clocks and cursor, creating a device id on first run
+ */
+export const loadSyncMeta = async (): Promise<SyncMeta> => {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  const stored = raw === null ? null : (JSON.parse(raw) as Partial<SyncMeta>);
+
+  if (!stored || typeof stored.deviceId !== 'string') return emptySyncMeta(createDeviceId(), '');
+  return {
+    ...emptySyncMeta(stored.deviceId, typeof stored.serverUrl === 'string' ? stored.serverUrl : ''),
+    ...(typeof stored.cursor === 'number' && { cursor: stored.cursor }),
+    ...(Array.isArray(stored.outbox) && { outbox: stored.outbox }),
+    ...(typeof stored.clocks === 'object' && stored.clocks !== null && { clocks: stored.clocks }),
+  };
+};
+
+export const saveSyncMeta = async (meta: SyncMeta): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(meta));
+};
@@ -0,0 +1,346 @@
+import type { Task, TaskList } from '@/types/task';
+import { isValidListField, isValidTaskField } from '@/utils/task-repository';
+import type { TaskState } from '@/utils/task-store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncCollection = 'tasks' | 'lists';
+
+/**
+ * Where a synced entity lives. Lists are only ever active or deleted.
+ */
+export type EntityLocation = 'active' | 'trashed' | 'archived' | 'deleted';
+
+/**
+ * When and where a field was last written; the newer stamp wins a conflict
+ */
+export interface FieldStamp {
+  updatedAt: number;
+  deviceId: string;
+}
+
+/**
+ * One field of one task or list set to a new value. `null` removes an
+ * optional field.
+ */
+export interface FieldChange extends FieldStamp {
+  collection: SyncCollection;
+  id: string;
+  field: string;
+  value: unknown;
+}
+
+/**
+ * The server's copy of an entity, every field with its stamp
+ */
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  fields: Record<string, FieldStamp & { value: unknown }>;
+}
+
+/**
+ * Sync bookkeeping persisted next to the tasks
+ */
+export interface SyncMeta {
+  /** Random id naming this install in field stamps */
+  deviceId: string;
+  /** Server the cursor and clocks belong to */
+  serverUrl: string;
+  /** Server revision everything up to which has been pulled */
+  cursor: number;
+  /** Local changes not yet accepted by the server, one per field */
+  outbox: FieldChange[];
+  /** Stamp of the value each field currently holds, keyed by `entityKey` */
+  clocks: Record<string, Record<string, FieldStamp>>;
+}
+
+/**
+ * A task or list flattened to fields, plus `LOCATION_FIELD`
+ */
+export interface SyncEntity {
+  collection: SyncCollection;
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+type SyncedState = Pick<TaskState, 'tasks' | 'lists' | 'trash' | 'archive'>;
+
+/** Synthetic field recording which array a task is in, or that it's gone */
+export const LOCATION_FIELD = '_location';
+
+const TASK_LOCATIONS: Record<Exclude<EntityLocation, 'deleted'>, 'tasks' | 'trash' | 'archive'> = {
+  active: 'tasks',
+  trashed: 'trash',
+  archived: 'archive',
+};
+
+export const entityKey = (collection: SyncCollection, id: string): string => `${collection}/${id}`;
+
+/**
+ * Whether stamp `a` beats `b`: later writes win, and the device id breaks
+ * ties so every replica picks the same value
+ */
+export const isNewer = (a: FieldStamp, b?: FieldStamp): boolean =>
+  !b || a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+// ============================================================================
+// Snapshots & Diffs
+// ============================================================================
+
+/**
+ * Flattens tasks (wherever they live) and lists into entities keyed by `entityKey`
+ */
+export const snapshotEntities = (state: SyncedState): Map<string, SyncEntity> => {
+  const entities = new Map<string, SyncEntity>();
+  const add = (collection: SyncCollection, item: Task | TaskList, location: EntityLocation) =>
+    entities.set(entityKey(collection, item.id), {
+      collection,
+      id: item.id,
+      fields: { ...item, [LOCATION_FIELD]: location },
+    });
+
+  state.tasks.forEach((task) => add('tasks', task, 'active'));
+  state.trash.forEach((task) => add('tasks', task, 'trashed'));
+  state.archive.forEach((task) => add('tasks', task, 'archived'));
+  state.lists.forEach((list) => add('lists', list, 'active'));
+  return entities;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field changes turning `previous` into `next`, all with the same stamp.
+ * Entities that disappeared (purged tasks, deleted lists) become deleted.
+ */
+export const diffEntities = (
+  previous: Map<string, SyncEntity>,
+  next: Map<string, SyncEntity>,
+  stamp: FieldStamp
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  for (const [key, entity] of next) {
+    const before = previous.get(key)?.fields ?? {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(entity.fields)]);
+    for (const field of fields) {
+      if (sameValue(before[field], entity.fields[field])) continue;
+      changes.push({ collection: entity.collection, id: entity.id, field, value: entity.fields[field] ?? null, ...stamp });
+    }
+  }
+
+  for (const [key, entity] of previous) {
+    if (next.has(key)) continue;
+    changes.push({ collection: entity.collection, id: entity.id, field: LOCATION_FIELD, value: 'deleted', ...stamp });
+  }
+
+  return changes;
+};
+
+/**
+ * Queues local changes, replacing older queued values of the same field
+ */
+export const recordLocalChanges = (meta: SyncMeta, changes: FieldChange[]): SyncMeta => {
+  if (changes.length === 0) return meta;
+
+  const changed = new Set(changes.map((change) => `${entityKey(change.collection, change.id)}#${change.field}`));
+  const clocks = { ...meta.clocks };
+  for (const { collection, id, field, updatedAt, deviceId } of changes) {
+    const key = entityKey(collection, id);
+    clocks[key] = { ...clocks[key], [field]: { updatedAt, deviceId } };
+  }
+
+  return {
+    ...meta,
+    outbox: [
+      ...meta.outbox.filter((change) => !changed.has(`${entityKey(change.collection, change.id)}#${change.field}`)),
+      ...changes,
+    ],
+    clocks,
+  };
+};
+
+/**
+ * Changes uploading every field of entities the server has never seen, e.g.
+ * tasks created before sync was set up. They're stamped with their last
+ * edit so newer copies elsewhere still win.
+ */
+export const seedUnsyncedEntities = (meta: SyncMeta, entities: Map<string, SyncEntity>): FieldChange[] =>
+  [...entities]
+    .filter(([key]) => !meta.clocks[key])
+    .flatMap(([, entity]) => {
+      const { updatedAt, createdAt } = entity.fields;
+      const stamp: FieldStamp = {
+        updatedAt: typeof updatedAt === 'number' ? updatedAt : typeof createdAt === 'number' ? createdAt : 0,
+        deviceId: meta.deviceId,
+      };
+      return diffEntities(new Map(), new Map([[entityKey(entity.collection, entity.id), entity]]), stamp);
+    });
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+const REQUIRED_FIELDS: Record<SyncCollection, string[]> = {
+  tasks: ['id', 'title', 'description', 'completed', 'priority', 'listId', 'tags', 'subtasks', 'order', 'createdAt'],
+  lists: ['id', 'name', 'color', 'icon'],
+};
+
+const LOCATIONS: Record<SyncCollection, EntityLocation[]> = {
+  tasks: ['active', 'trashed', 'archived', 'deleted'],
+  lists: ['active', 'deleted'],
+};
+
+/**
+ * Whether a pulled field value is one the app can hold. Only optional
+ * fields may be removed, and values get the same checks as stored data.
+ */
+const isValidRemoteField = (collection: SyncCollection, id: string, field: string, value: unknown): boolean => {
+  if (!Object.hasOwn(LOCATIONS, collection)) return false;
+  if (field === LOCATION_FIELD) return LOCATIONS[collection].includes(value as EntityLocation);
+  if (field === 'id') return value === id;
+  if (value === null) return !REQUIRED_FIELDS[collection].includes(field);
+  return collection === 'tasks' ? isValidTaskField(field, value) : isValidListField(field, value);
+};
+
+/**
+ * Picks the pulled fields that beat both the local value and any queued
+ * local change, and records their stamps. An entity missing locally is
+ * only recreated when its location wins too, and then takes every field
+ * it can so it arrives whole. Invalid values are dropped without
+ * touching the clocks, so the local value stands.
+ */
+export const mergeRemote = (
+  meta: SyncMeta,
+  records: SyncRecord[],
+  entities: Map<string, SyncEntity>
+): { meta: SyncMeta; changes: FieldChange[] } => {
+  const clocks = { ...meta.clocks };
+  const queued = new Map(meta.outbox.map((change) => [`${entityKey(change.collection, change.id)}#${change.field}`, change]));
+  const changes: FieldChange[] = [];
+
+  for (const record of records) {
+    const key = entityKey(record.collection, record.id);
+    const beatsQueued = ([field, stamp]: [string, FieldStamp]) => {
+      const pending = queued.get(`${key}#${field}`);
+      return !pending || isNewer(stamp, pending);
+    };
+    const valid = Object.entries(record.fields).filter(([field, { value }]) =>
+      isValidRemoteField(record.collection, record.id, field, value)
+    );
+    const accepted = valid.filter((entry) => isNewer(entry[1], clocks[key]?.[entry[0]]) && beatsQueued(entry));
+    if (accepted.length === 0) continue;
+
+    const missing = !entities.has(key);
+    if (missing && !accepted.some(([field]) => field === LOCATION_FIELD)) continue;
+
+    const fields = missing ? valid.filter(beatsQueued) : accepted;
+    clocks[key] = { ...clocks[key] };
+    for (const [field, { value, updatedAt, deviceId }] of fields) {
+      clocks[key][field] = { updatedAt, deviceId };
+      changes.push({ collection: record.collection, id: record.id, field, value, updatedAt, deviceId });
+    }
+  }
+
+  return { meta: { ...meta, clocks }, changes };
+};
+
+/**
+ * Applies changes to an entity's fields. Returns undefined when a new
+ * entity is still missing required fields, so it isn't half-created.
+ */
+const mergeEntity = (
+  collection: SyncCollection,
+  current: Record<string, unknown> | undefined,
+  changes: FieldChange[]
+): Record<string, unknown> | undefined => {
+  const fields = { ...current };
+  for (const { field, value } of changes) {
+    if (value === null) delete fields[field];
+    else fields[field] = value;
+  }
+
+  const complete = REQUIRED_FIELDS[collection].every((field) => fields[field] !== undefined);
+  return current || complete || fields[LOCATION_FIELD] === 'deleted' ? fields : undefined;
+};
+
+/**
+ * Groups changes by entity, dropping any whose value the app can't hold
+ */
+const groupByEntity = (changes: FieldChange[]): Map<string, FieldChange[]> => {
+  const groups = new Map<string, FieldChange[]>();
+  for (const change of changes) {
+    if (!isValidRemoteField(change.collection, change.id, change.field, change.value)) continue;
+    const key = entityKey(change.collection, change.id);
+    groups.set(key, [...(groups.get(key) ?? []), change]);
+  }
+  return groups;
+};
+
+/**
+ * `applyRemoteChanges` for a snapshot, keeping it in step with the state
+ */
+export const applyEntityChanges = (
+  entities: Map<string, SyncEntity>,
+  changes: FieldChange[]
+): Map<string, SyncEntity> => {
+  const next = new Map(entities);
+  for (const [key, group] of groupByEntity(changes)) {
+    const { collection, id } = group[0];
+    const fields = mergeEntity(collection, entities.get(key)?.fields, group);
+    if (!fields) continue;
+
+    if (fields[LOCATION_FIELD] === 'deleted') next.delete(key);
+    else next.set(key, { collection, id, fields });
+  }
+  return next;
+};
+
+/**
+ * Applies pulled changes to the state, moving tasks between the list,
+ * trash and archive as their location changes. Updated items keep their
+ * place; new or moved ones go to the front. Invalid values are dropped
+ * and new items are only added once whole, so the casts below hold.
+ */
+export const applyRemoteChanges = <S extends SyncedState>(state: S, changes: FieldChange[]): S => {
+  const entities = snapshotEntities(state);
+  let { tasks, lists, trash, archive } = state;
+
+  for (const [key, group] of groupByEntity(changes)) {
+    const { collection, id } = group[0];
+    const current = entities.get(key)?.fields;
+    const merged = mergeEntity(collection, current, group);
+    if (!merged) continue;
+
+    const { [LOCATION_FIELD]: location, ...item } = merged;
+
+    if (collection === 'lists') {
+      const list = location === 'deleted' ? undefined : (item as unknown as TaskList);
+      lists = current ? placeItem(lists, id, list) : list ? [...lists, list] : lists;
+      continue;
+    }
+
+    const arrays = { tasks, trash, archive };
+    const from = current && TASK_LOCATIONS[current[LOCATION_FIELD] as keyof typeof TASK_LOCATIONS];
+    const to = location === 'deleted' ? undefined : TASK_LOCATIONS[location as keyof typeof TASK_LOCATIONS] ?? 'tasks';
+    const task = item as unknown as Task;
+
+    if (from && from === to) {
+      arrays[from] = placeItem(arrays[from], id, task);
+    } else {
+      if (from) arrays[from] = placeItem(arrays[from], id, undefined);
+      if (to) arrays[to] = [task, ...arrays[to]];
+    }
+    ({ tasks, trash, archive } = arrays);
+  }
+
+  return { ...state, tasks, lists, trash, archive };
+};
+
+/**
+ * Replaces the item with the given id in place, or removes it when `item` is undefined
+ */
+const placeItem = <T extends { id: string }>(items: T[], id: string, item: T | undefined): T[] =>
+  item ? items.map((existing) => (existing.id === id ? item : existing)) : items.filter((existing) => existing.id !== id);
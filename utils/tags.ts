@@ -0,0 +1,85 @@
+import { TAG_COLORS } from '@/constants/tags';
+import type { Task } from '@/types/task';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How a multi-tag filter combines: tasks must match any or all selected tags
+ */
+export type TagMatchMode = 'any' | 'all';
+
+export interface TagSummary {
+  name: string;
+  count: number;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g;
+
+/**
+ * Canonical form for tag names: lowercase, no leading `#`, no whitespace
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+/**
+ * Splits `#tag` tokens out of a title, e.g. "Buy milk #home" →
+ * { title: "Buy milk", tags: ["home"] }
+ */
+export const extractTags = (input: string): { title: string; tags: string[] } => {
+  const tags: string[] = [];
+  const title = input
+    .replace(TAG_PATTERN, (_match, leading: string, tag: string) => {
+      tags.push(normalizeTag(tag));
+      return leading;
+    })
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return { title, tags: uniqueTags(tags) };
+};
+
+/**
+ * Normalizes and de-duplicates tags, preserving first-seen order
+ */
+export const uniqueTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+// ============================================================================
+// Filtering & Display
+// ============================================================================
+
+/**
+ * Keeps tasks tagged with any/all of `selected`; no selection keeps everything
+ */
+export const filterByTags = <T extends Pick<Task, 'tags'>>(
+  tasks: T[],
+  selected: string[],
+  mode: TagMatchMode
+): T[] => {
+  if (selected.length === 0) return tasks;
+
+  return tasks.filter(task =>
+    mode === 'all'
+      ? selected.every(tag => task.tags.includes(tag))
+      : selected.some(tag => task.tags.includes(tag))
+  );
+};
+
+/**
+ * Colour for a tag: the user's choice, or a stable pick from the palette
+ */
+export const getTagColor = (tag: string, tagColors: Record<string, string>): string => {
+  if (tagColors[tag]) return tagColors[tag];
+
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+};
@@ -0,0 +1,197 @@
+import { initialTaskState, taskReducer, type TaskAction, type TaskState } from '@/utils/task-store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The undoable part of the task state
+ */
+type TaskSnapshot = Pick<TaskState, 'tasks' | 'lists' | 'tagColors' | 'trash' | 'archive'>;
+
+interface HistoryEntry {
+  snapshot: TaskSnapshot;
+  /** What the change did, e.g. "Task deleted" */
+  label: string;
+}
+
+/**
+ * Message offering to undo the latest destructive change. `id` changes with
+ * every notice so repeated identical messages still show.
+ */
+export interface UndoNotice {
+  id: number;
+  message: string;
+}
+
+export interface TaskHistory {
+  past: HistoryEntry[];
+  present: TaskState;
+  future: HistoryEntry[];
+  notice: UndoNotice | null;
+  /** Counter for notice ids */
+  changes: number;
+}
+
+export type HistoryAction = TaskAction | { type: 'history/undo' } | { type: 'history/redo' };
+
+export const HISTORY_LIMIT = 50;
+
+export const initialTaskHistory: TaskHistory = {
+  past: [],
+  present: initialTaskState,
+  future: [],
+  notice: null,
+  changes: 0,
+};
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+// Changes that are easy to make by accident, so they get an undo notice
+const DESTRUCTIVE_LABELS: Partial<Record<TaskAction['type'], string>> = {
+  'task/deleted': 'Moved to trash',
+  'trash/purged': 'Deleted permanently',
+  'task/priorityChanged': 'Priority changed',
+  'tasks/priorityChanged': 'Priority changed',
+  'tasks/shuffled': 'Tasks shuffled',
+  'list/deleted': 'List deleted',
+};
+
+/**
+ * Describes an action against the state it is applied to, and whether it
+ * warrants an undo notice
+ */
+const describeAction = (action: TaskAction, state: TaskState): { label: string; destructive: boolean } => {
+  if (action.type === 'task/toggled') {
+    const task = state.tasks.find(t => t.id === action.id);
+    return { label: task?.completed ? 'Task reopened' : 'Task completed', destructive: true };
+  }
+  if (action.type === 'tasks/completionSet') {
+    const count = action.ids.length;
+    const verb = action.completed ? 'completed' : 'reopened';
+    return { label: count === 1 ? `Task ${verb}` : `${count} tasks ${verb}`, destructive: true };
+  }
+  if (action.type === 'tasks/deleted') {
+    const count = action.ids.length;
+    return { label: count === 1 ? 'Moved to trash' : `${count} tasks moved to trash`, destructive: true };
+  }
+  if (action.type === 'tasks/imported') {
+    const count = action.tasks.length;
+    return { label: count === 1 ? 'Task imported' : `${count} tasks imported`, destructive: true };
+  }
+  if (action.type === 'tasks/archived') {
+    const count = state.tasks.filter(task => task.completed && action.ids.includes(task.id)).length;
+    return { label: count === 1 ? 'Task archived' : `${count} tasks archived`, destructive: true };
+  }
+  if (action.type === 'tags/merged') {
+    // Renaming is a merge into a tag nobody uses yet
+    const merging = state.tasks.some(task => task.tags.includes(action.target));
+    return { label: merging ? 'Tags merged' : 'Tag renamed', destructive: true };
+  }
+
+  const label = DESTRUCTIVE_LABELS[action.type];
+  return label ? { label, destructive: true } : { label: 'Edit', destructive: false };
+};
+
+const takeSnapshot = ({ tasks, lists, tagColors, trash, archive }: TaskState): TaskSnapshot => ({
+  tasks,
+  lists,
+  tagColors,
+  trash,
+  archive,
+});
+
+/**
+ * Replays an unrecorded action on a stored snapshot, so undoing a local
+ * edit later doesn't also revert it
+ */
+const rebaseEntry = (entry: HistoryEntry, action: TaskAction, present: TaskState): HistoryEntry => ({
+  ...entry,
+  snapshot: takeSnapshot(taskReducer({ ...present, ...entry.snapshot }, action)),
+});
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+/**
+ * Wraps `taskReducer` with snapshot-based undo and redo. Loading replaces
+ * the history; automatic purging and archiving, changes pulled from the
+ * sync server and cleanup after a teammate leaves aren't undoable steps,
+ * but are replayed on every stored snapshot; and every other task action
+ * that changes something is one undoable step.
+ */
+export const historyReducer = (history: TaskHistory, action: HistoryAction): TaskHistory => {
+  switch (action.type) {
+    case 'history/undo': {
+      const previous = history.past[history.past.length - 1];
+      if (!previous) return history;
+      return {
+        ...history,
+        past: history.past.slice(0, -1),
+        present: { ...history.present, ...previous.snapshot },
+        future: [{ snapshot: takeSnapshot(history.present), label: previous.label }, ...history.future],
+        notice: null,
+      };
+    }
+
+    case 'history/redo': {
+      const [next, ...future] = history.future;
+      if (!next) return history;
+      return {
+        ...history,
+        past: [...history.past, { snapshot: takeSnapshot(history.present), label: next.label }],
+        present: { ...history.present, ...next.snapshot },
+        future,
+        notice: null,
+      };
+    }
+
+    case 'tasks/loaded':
+      return { ...initialTaskHistory, present: taskReducer(history.present, action) };
+
+    case 'trash/expired':
+    case 'tasks/autoArchived':
+    case 'sync/applied':
+    case 'member/removed':
+      return {
+        ...history,
+        past: history.past.map(entry => rebaseEntry(entry, action, history.present)),
+        present: taskReducer(history.present, action),
+        future: history.future.map(entry => rebaseEntry(entry, action, history.present)),
+      };
+
+    default: {
+      const present = taskReducer(history.present, action);
+      // Refused or empty actions aren't steps, and mustn't clear the redo stack
+      if (present === history.present) return history;
+
+      const { label, destructive } = describeAction(action, history.present);
+      const changes = history.changes + 1;
+      return {
+        past: [...history.past, { snapshot: takeSnapshot(history.present), label }].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        notice: destructive ? { id: changes, message: label } : null,
+        changes,
+      };
+    }
+  }
+};
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/**
+ * Label of the change undo would revert, if any
+ */
+export const selectUndoLabel = (history: TaskHistory): string | undefined =>
+  history.past[history.past.length - 1]?.label;
+
+/**
+ * Label of the change redo would reapply, if any
+ */
+export const selectRedoLabel = (history: TaskHistory): string | undefined => history.future[0]?.label;
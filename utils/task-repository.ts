@@ -0,0 +1,339 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { INBOX_LIST } from '@/constants/lists';
+import type { Priority, Task, TaskList } from '@/types/task';
+import { isRecurrence } from '@/utils/recurrence';
+import { isReminder } from '@/utils/reminders';
+import { uniqueTags } from '@/utils/tags';
+
+// ============================================================================
+// Storage Format
+// ============================================================================
+
+const STORAGE_KEY = '@taskmanager/tasks';
+
+/**
+ * Current version of the persisted task schema. Bump this whenever the
+ * `Task` shape changes and register a matching entry in `MIGRATIONS`.
+ */
+export const SCHEMA_VERSION = 14;
+
+interface StoredTasks {
+  version: number;
+  tasks: unknown[];
+  lists?: unknown[];
+  tagColors?: Record<string, string>;
+  trash?: unknown[];
+  archive?: unknown[];
+}
+
+/**
+ * Everything the repository persists
+ */
+export interface TaskData {
+  tasks: Task[];
+  lists: TaskList[];
+  /** User-chosen colours keyed by tag name */
+  tagColors: Record<string, string>;
+  /** Soft-deleted tasks, kept until restored or purged */
+  trash: Task[];
+  /** Completed tasks taken out of the list */
+  archive: Task[];
+}
+
+type StoredTask = Record<string, unknown>;
+
+/**
+ * Upgrades raw tasks from `version - 1` to `version`
+ */
+type Migration = (tasks: StoredTask[]) => StoredTask[];
+
+const PRIORITY_VALUES: Priority[] = ['low', 'normal', 'high', 'urgent'];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_KEY_PATTERN = /^\d{2}:\d{2}$/;
+
+// ============================================================================
+// Field Checks
+// ============================================================================
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isFilledString: FieldCheck = (value) => typeof value === 'string' && value.length > 0;
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isStringArray: FieldCheck = (value) => Array.isArray(value) && value.every(isString);
+const isSubtask: FieldCheck = (value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  isString((value as StoredTask).id) &&
+  isString((value as StoredTask).title) &&
+  typeof (value as StoredTask).completed === 'boolean';
+
+/**
+ * What a well-formed value of each task field looks like
+ */
+const TASK_FIELD_CHECKS: Record<keyof Task, FieldCheck> = {
+  id: isFilledString,
+  title: isString,
+  description: isString,
+  completed: (value) => typeof value === 'boolean',
+  priority: (value) => PRIORITY_VALUES.includes(value as Priority),
+  listId: isString,
+  tags: isStringArray,
+  subtasks: (value) => Array.isArray(value) && value.every(isSubtask),
+  dueDate: (value) => typeof value === 'string' && DATE_KEY_PATTERN.test(value),
+  dueTime: (value) => typeof value === 'string' && TIME_KEY_PATTERN.test(value),
+  recurrence: isRecurrence,
+  reminder: isReminder,
+  assignee: isFilledString,
+  contexts: isStringArray,
+  extensions: (value) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isString),
+  order: isNumber,
+  createdAt: isNumber,
+  updatedAt: isNumber,
+  completedAt: isNumber,
+  archivedAt: isNumber,
+  deletedAt: isNumber,
+};
+
+const LIST_FIELD_CHECKS: Record<keyof TaskList, FieldCheck> = {
+  id: isString,
+  name: isString,
+  color: isString,
+  icon: isString,
+  memberIds: isStringArray,
+};
+
+/**
+ * Whether `value` may be stored in the task field, e.g. when pulled from a
+ * sync server. Unknown fields are rejected.
+ */
+export const isValidTaskField = (field: string, value: unknown): boolean =>
+  Object.hasOwn(TASK_FIELD_CHECKS, field) && TASK_FIELD_CHECKS[field as keyof Task](value);
+
+/**
+ * `isValidTaskField` for list fields
+ */
+export const isValidListField = (field: string, value: unknown): boolean =>
+  Object.hasOwn(LIST_FIELD_CHECKS, field) && LIST_FIELD_CHECKS[field as keyof TaskList](value);
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Migrations keyed by the schema version they produce. Version 0 is the
+ * unversioned bare array format.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0 had no trash or archive, so the index keeps generated ids unique
+  1: (tasks) =>
+    tasks.map((task, index) => ({
+      id: String(task.id ?? `${Date.now()}-${index}`),
+      title: typeof task.title === 'string' ? task.title : '',
+      description: typeof task.description === 'string' ? task.description : '',
+      completed: task.completed === true,
+      priority: TASK_FIELD_CHECKS.priority(task.priority) ? task.priority : 'normal',
+    })),
+  2: (tasks) =>
+    tasks.map(({ dueDate, dueTime, ...task }) => {
+      const hasDate = TASK_FIELD_CHECKS.dueDate(dueDate);
+      const hasTime = hasDate && TASK_FIELD_CHECKS.dueTime(dueTime);
+      return {
+        ...task,
+        ...(hasDate && { dueDate }),
+        ...(hasTime && { dueTime }),
+      };
+    }),
+  3: (tasks) =>
+    tasks.map(({ updatedAt, ...task }) => ({
+      ...task,
+      ...(typeof updatedAt === 'number' && { updatedAt }),
+    })),
+  4: (tasks) =>
+    tasks.map((task) => ({
+      ...task,
+      subtasks: Array.isArray(task.subtasks) ? task.subtasks : [],
+    })),
+  5: (tasks) =>
+    tasks.map(({ recurrence, ...task }) => ({
+      ...task,
+      ...(TASK_FIELD_CHECKS.recurrence(recurrence) && { recurrence }),
+    })),
+  6: (tasks) =>
+    tasks.map((task) => ({
+      ...task,
+      listId: typeof task.listId === 'string' ? task.listId : INBOX_LIST.id,
+    })),
+  7: (tasks) =>
+    tasks.map((task) => ({
+      ...task,
+      tags: Array.isArray(task.tags)
+        ? uniqueTags(task.tags.filter((tag): tag is string => typeof tag === 'string'))
+        : [],
+    })),
+  8: (tasks) =>
+    tasks.map((task) => {
+      // Task ids have always been creation timestamps, so use them when present
+      const idTime = Number(task.id);
+      return {
+        ...task,
+        createdAt:
+          typeof task.createdAt === 'number'
+            ? task.createdAt
+            : Number.isFinite(idTime) && idTime > 0
+              ? idTime
+              : Date.now(),
+      };
+    }),
+  // Stored order was the display order (newest first)
+  9: (tasks) =>
+    tasks.map((task, index) => ({
+      ...task,
+      order: typeof task.order === 'number' ? task.order : index,
+    })),
+  10: (tasks) =>
+    tasks.map(({ deletedAt, ...task }) => ({
+      ...task,
+      ...(typeof deletedAt === 'number' && { deletedAt }),
+    })),
+  // Completion wasn't timed before, so the last known activity stands in for it
+  11: (tasks) =>
+    tasks.map(({ completedAt, archivedAt, ...task }) => ({
+      ...task,
+      ...(task.completed === true && {
+        completedAt:
+          typeof completedAt === 'number'
+            ? completedAt
+            : typeof task.updatedAt === 'number'
+              ? task.updatedAt
+              : task.createdAt,
+      }),
+      ...(typeof archivedAt === 'number' && { archivedAt }),
+    })),
+  12: (tasks) =>
+    tasks.map(({ contexts, extensions, ...task }) => {
+      const validContexts = Array.isArray(contexts)
+        ? contexts.filter((context): context is string => typeof context === 'string')
+        : [];
+      const validExtensions =
+        typeof extensions === 'object' && extensions !== null
+          ? Object.entries(extensions).filter(([, value]) => typeof value === 'string')
+          : [];
+      return {
+        ...task,
+        ...(validContexts.length > 0 && { contexts: validContexts }),
+        ...(validExtensions.length > 0 && { extensions: Object.fromEntries(validExtensions) }),
+      };
+    }),
+  13: (tasks) =>
+    tasks.map(({ reminder, ...task }) => ({
+      ...task,
+      ...(TASK_FIELD_CHECKS.reminder(reminder) && { reminder }),
+    })),
+  14: (tasks) =>
+    tasks.map(({ assignee, ...task }) => ({
+      ...task,
+      ...(TASK_FIELD_CHECKS.assignee(assignee) && { assignee }),
+    })),
+};
+
+/**
+ * Keeps well-formed lists and guarantees the inbox exists
+ */
+const normalizeLists = (lists: unknown[] = []): TaskList[] => {
+  const valid = lists
+    .filter(
+      (list): list is TaskList =>
+        typeof list === 'object' &&
+        list !== null &&
+        (['id', 'name', 'color', 'icon'] as const).every((key) => LIST_FIELD_CHECKS[key]((list as StoredTask)[key]))
+    )
+    .map(({ memberIds, ...list }) => {
+      const members = Array.isArray(memberIds) ? memberIds.filter((id) => typeof id === 'string') : [];
+      return members.length > 0 ? { ...list, memberIds: members } : list;
+    });
+
+  return valid.some((list) => list.id === INBOX_LIST.id) ? valid : [INBOX_LIST, ...valid];
+};
+
+/**
+ * Brings stored data of any known version up to `SCHEMA_VERSION`
+ */
+export const migrateTaskData = (data: unknown): TaskData => {
+  const stored: StoredTasks = Array.isArray(data)
+    ? { version: 0, tasks: data }
+    : (data as StoredTasks);
+
+  if (!stored || typeof stored.version !== 'number' || !Array.isArray(stored.tasks)) {
+    throw new Error('Stored tasks are not in a recognised format');
+  }
+
+  if (stored.version > SCHEMA_VERSION) {
+    throw new Error(
+      `Stored tasks use schema v${stored.version}, but this build only supports up to v${SCHEMA_VERSION}`
+    );
+  }
+
+  const migrateTasks = (raw: unknown[]): StoredTask[] => {
+    let tasks = raw.filter((task): task is StoredTask => typeof task === 'object' && task !== null);
+    for (let version = stored.version + 1; version <= SCHEMA_VERSION; version++) {
+      tasks = MIGRATIONS[version](tasks);
+    }
+    return tasks;
+  };
+
+  const tasks = migrateTasks(stored.tasks);
+  // Restoring falls back to the inbox, so trashed tasks keep their list id
+  const trash = migrateTasks(Array.isArray(stored.trash) ? stored.trash : []).map((task) =>
+    typeof task.deletedAt === 'number' ? task : { ...task, deletedAt: Date.now() }
+  );
+  const archive = migrateTasks(Array.isArray(stored.archive) ? stored.archive : []).map((task) =>
+    typeof task.archivedAt === 'number' ? task : { ...task, archivedAt: Date.now() }
+  );
+
+  const lists = normalizeLists(stored.lists);
+  const listIds = new Set(lists.map((list) => list.id));
+
+  // Orphaned tasks fall back to the inbox
+  const placed = tasks.map((task) =>
+    listIds.has(task.listId as string) ? task : { ...task, listId: INBOX_LIST.id }
+  );
+
+  const tagColors = Object.fromEntries(
+    Object.entries(stored.tagColors ?? {}).filter(([, color]) => typeof color === 'string')
+  );
+
+  return {
+    tasks: placed as unknown as Task[],
+    lists,
+    tagColors,
+    trash: trash as unknown as Task[],
+    archive: archive as unknown as Task[],
+  };
+};
+
+// ============================================================================
+// Repository API
+// ============================================================================
+
+/**
+ * Loads persisted tasks and lists, migrating older schemas. Returns just the
+ * inbox when nothing has been saved yet.
+ */
+export const loadTaskData = async (): Promise<TaskData> => {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (raw === null) return { tasks: [], lists: [INBOX_LIST], tagColors: {}, trash: [], archive: [] };
+
+  return migrateTaskData(JSON.parse(raw));
+};
+
+/**
+ * Persists all tasks, lists, the trash and the archive under the current
+ * schema version
+ */
+export const saveTaskData = async ({ tasks, lists, tagColors, trash, archive }: TaskData): Promise<void> => {
+  const payload: StoredTasks = { version: SCHEMA_VERSION, tasks, lists, tagColors, trash, archive };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+};
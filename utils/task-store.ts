@@ -0,0 +1,979 @@
+import { INBOX_LIST } from '@/constants/lists';
+import type { Priority, Recurrence, Reminder, Subtask, Task, TaskList } from '@/types/task';
+import { compareDue, fromDateKey, toDateKey } from '@/utils/due-date';
+import { anchorRecurrence, getNextOccurrence } from '@/utils/recurrence';
+import { SNOOZE_MINUTES } from '@/utils/reminders';
+import { applyRemoteChanges, type FieldChange } from '@/utils/sync';
+import { uniqueTags, type TagSummary } from '@/utils/tags';
+
+// ============================================================================
+// State & Actions
+// ============================================================================
+
+export interface TaskState {
+  tasks: Task[];
+  lists: TaskList[];
+  tagColors: Record<string, string>;
+  /** Deleted tasks, newest first, until restored or purged */
+  trash: Task[];
+  /** Completed tasks taken out of the list, most recently archived first */
+  archive: Task[];
+  loaded: boolean;
+}
+
+/**
+ * What happens to a deleted list's tasks
+ */
+export type ListDeletionMode = 'delete' | 'move';
+
+/**
+ * A task before the reducer places it at the top of the manual order
+ */
+export type NewTask = Omit<Task, 'order'>;
+
+/**
+ * A task read from an import, before it has been given an id. Ids and
+ * creation times are kept when the source has them.
+ */
+export type ImportedTask = Omit<NewTask, 'id' | 'createdAt'> & Partial<Pick<NewTask, 'id' | 'createdAt'>>;
+
+export type TaskAction =
+  | {
+      type: 'tasks/loaded';
+      tasks: Task[];
+      lists: TaskList[];
+      tagColors: Record<string, string>;
+      trash: Task[];
+      archive: Task[];
+    }
+  | { type: 'task/added'; task: NewTask }
+  | { type: 'task/toggled'; id: string; completedAt: number; nextOccurrence?: NewTask }
+  | { type: 'task/deleted'; id: string; deletedAt: number }
+  | {
+      type: 'tasks/completionSet';
+      ids: string[];
+      completed: boolean;
+      completedAt: number;
+      /** Next occurrences of completed recurring tasks, keyed by the completed task's id */
+      nextOccurrences: Record<string, NewTask>;
+    }
+  | { type: 'tasks/deleted'; ids: string[]; deletedAt: number }
+  | { type: 'tasks/imported'; tasks: NewTask[] }
+  | { type: 'tasks/priorityChanged'; ids: string[]; priority: Priority }
+  | { type: 'task/restored'; id: string }
+  | { type: 'trash/purged'; ids: string[] }
+  | { type: 'trash/expired'; before: number }
+  | { type: 'tasks/archived'; ids: string[]; archivedAt: number }
+  | { type: 'tasks/autoArchived'; completedBefore: number; archivedAt: number }
+  | { type: 'task/unarchived'; id: string }
+  | { type: 'task/edited'; id: string; title: string; description: string; updatedAt: number }
+  | { type: 'task/priorityChanged'; id: string; priority: Priority }
+  | { type: 'task/dueChanged'; id: string; dueDate?: string; dueTime?: string }
+  | { type: 'task/recurrenceChanged'; id: string; recurrence?: Recurrence }
+  | { type: 'task/reminderChanged'; id: string; reminder?: Reminder }
+  | { type: 'task/reminderSnoozed'; id: string; until: number }
+  | { type: 'task/moved'; id: string; listId: string }
+  | { type: 'task/assigned'; id: string; assignee?: string }
+  | { type: 'member/removed'; id: string }
+  | { type: 'task/tagsChanged'; id: string; tags: string[] }
+  | { type: 'tasks/shuffled'; order: string[] }
+  | { type: 'tasks/reordered'; ids: string[] }
+  | { type: 'subtask/added'; taskId: string; subtask: Subtask }
+  | {
+      type: 'subtask/toggled';
+      taskId: string;
+      subtaskId: string;
+      /** Set when checking the last open subtask completes the task too */
+      completion?: { completedAt: number; nextOccurrence?: NewTask };
+    }
+  | { type: 'subtask/moved'; taskId: string; subtaskId: string; offset: number }
+  | { type: 'subtask/deleted'; taskId: string; subtaskId: string }
+  | { type: 'list/added'; list: TaskList }
+  | { type: 'list/updated'; list: TaskList }
+  | { type: 'list/deleted'; id: string; mode: ListDeletionMode; deletedAt: number }
+  | { type: 'tags/merged'; sources: string[]; target: string }
+  | { type: 'tag/recoloured'; tag: string; color: string }
+  | { type: 'sync/applied'; changes: FieldChange[] };
+
+export const initialTaskState: TaskState = {
+  tasks: [],
+  lists: [INBOX_LIST],
+  tagColors: {},
+  trash: [],
+  archive: [],
+  loaded: false,
+};
+
+// ============================================================================
+// Action Creators
+// ============================================================================
+
+/**
+ * Builds actions for the task reducer. Anything impure (ids, randomness)
+ * happens here so the reducer itself stays deterministic.
+ */
+export const taskActions = {
+  loaded: (
+    tasks: Task[],
+    lists: TaskList[],
+    tagColors: Record<string, string>,
+    trash: Task[],
+    archive: Task[]
+  ): TaskAction => ({
+    type: 'tasks/loaded',
+    tasks,
+    lists,
+    tagColors,
+    trash,
+    archive,
+  }),
+
+  add: (
+    input: Pick<Task, 'title' | 'description' | 'priority' | 'listId' | 'tags' | 'dueDate' | 'dueTime' | 'recurrence'>
+  ): TaskAction => ({
+    type: 'task/added',
+    task: {
+      id: Date.now().toString(),
+      createdAt: Date.now(),
+      title: input.title,
+      description: input.description,
+      completed: false,
+      priority: input.priority,
+      listId: input.listId,
+      tags: uniqueTags(input.tags),
+      subtasks: [],
+      ...(input.dueDate && { dueDate: input.dueDate }),
+      ...(input.dueDate && input.dueTime && { dueTime: input.dueTime }),
+      ...(input.recurrence && {
+        recurrence: anchorRecurrence(input.recurrence, input.dueDate ?? toDateKey(new Date())),
+      }),
+    },
+  }),
+
+  /**
+   * Completing a recurring task also schedules its next occurrence
+   */
+  toggle: (task: Task): TaskAction => ({
+    type: 'task/toggled',
+    id: task.id,
+    completedAt: Date.now(),
+    nextOccurrence: task.completed ? undefined : createNextOccurrence(task),
+  }),
+
+  /**
+   * Moves a task to the trash
+   */
+  remove: (id: string): TaskAction => ({ type: 'task/deleted', id, deletedAt: Date.now() }),
+
+  /**
+   * Completes or reopens several tasks at once. Tasks already in that state
+   * are skipped, and completed recurring tasks schedule their next occurrence.
+   */
+  setCompleted: (tasks: Task[], completed: boolean): TaskAction => {
+    const changed = tasks.filter(task => task.completed !== completed);
+    const nextOccurrences: Record<string, NewTask> = {};
+    if (completed) {
+      changed.forEach((task, index) => {
+        const next = createNextOccurrence(task, `${Date.now()}-${index}`);
+        if (next) nextOccurrences[task.id] = next;
+      });
+    }
+    return {
+      type: 'tasks/completionSet',
+      ids: changed.map(task => task.id),
+      completed,
+      completedAt: Date.now(),
+      nextOccurrences,
+    };
+  },
+
+  removeMany: (ids: string[]): TaskAction => ({ type: 'tasks/deleted', ids, deletedAt: Date.now() }),
+
+  /**
+   * Adds imported tasks at the top of the list, in their original order.
+   * Tasks completed at an unknown time count as completed now.
+   */
+  importTasks: (tasks: ImportedTask[]): TaskAction => ({
+    type: 'tasks/imported',
+    tasks: tasks.map((task, index) => ({
+      ...task,
+      id: task.id ?? `${Date.now()}-${index}`,
+      createdAt: task.createdAt ?? Date.now(),
+      ...(task.completed && task.completedAt === undefined && { completedAt: Date.now() }),
+    })),
+  }),
+
+  changePriorityMany: (ids: string[], priority: Priority): TaskAction => ({
+    type: 'tasks/priorityChanged',
+    ids,
+    priority,
+  }),
+
+  restore: (id: string): TaskAction => ({ type: 'task/restored', id }),
+
+  /**
+   * Permanently deletes trashed tasks
+   */
+  purge: (ids: string[]): TaskAction => ({ type: 'trash/purged', ids }),
+
+  /**
+   * Purges tasks that have been in the trash longer than `retentionDays`
+   */
+  purgeExpired: (retentionDays: number): TaskAction => ({
+    type: 'trash/expired',
+    before: Date.now() - retentionDays * 24 * 60 * 60 * 1000,
+  }),
+
+  /**
+   * Takes completed tasks out of the list; pending ones are left alone
+   */
+  archive: (ids: string[]): TaskAction => ({ type: 'tasks/archived', ids, archivedAt: Date.now() }),
+
+  /**
+   * Archives tasks completed more than `afterDays` ago
+   */
+  archiveCompleted: (afterDays: number): TaskAction => ({
+    type: 'tasks/autoArchived',
+    completedBefore: Date.now() - afterDays * 24 * 60 * 60 * 1000,
+    archivedAt: Date.now(),
+  }),
+
+  unarchive: (id: string): TaskAction => ({ type: 'task/unarchived', id }),
+
+  edit: (id: string, changes: Pick<Task, 'title' | 'description'>): TaskAction => ({
+    type: 'task/edited',
+    id,
+    title: changes.title,
+    description: changes.description,
+    updatedAt: Date.now(),
+  }),
+
+  changePriority: (id: string, priority: Priority): TaskAction => ({
+    type: 'task/priorityChanged',
+    id,
+    priority,
+  }),
+
+  changeDue: (id: string, dueDate?: string, dueTime?: string): TaskAction => ({
+    type: 'task/dueChanged',
+    id,
+    dueDate,
+    dueTime,
+  }),
+
+  changeRecurrence: (id: string, recurrence?: Recurrence): TaskAction => ({
+    type: 'task/recurrenceChanged',
+    id,
+    recurrence,
+  }),
+
+  changeReminder: (id: string, reminder?: Reminder): TaskAction => ({
+    type: 'task/reminderChanged',
+    id,
+    reminder,
+  }),
+
+  /**
+   * Fires the task's reminder again `minutes` from now
+   */
+  snoozeReminder: (id: string, minutes: number = SNOOZE_MINUTES): TaskAction => ({
+    type: 'task/reminderSnoozed',
+    id,
+    until: Date.now() + minutes * 60 * 1000,
+  }),
+
+  moveToList: (id: string, listId: string): TaskAction => ({ type: 'task/moved', id, listId }),
+
+  assign: (id: string, assignee?: string): TaskAction => ({ type: 'task/assigned', id, assignee }),
+
+  /**
+   * Unassigns a teammate who left the team and stops sharing lists with them
+   */
+  removeMember: (id: string): TaskAction => ({ type: 'member/removed', id }),
+
+  setTags: (id: string, tags: string[]): TaskAction => ({
+    type: 'task/tagsChanged',
+    id,
+    tags: uniqueTags(tags),
+  }),
+
+  shuffle: (tasks: Task[]): TaskAction => ({
+    type: 'tasks/shuffled',
+    order: shuffleIds(tasks.map(task => task.id)),
+  }),
+
+  /**
+   * Moves the task at `from` to `to` within `tasks` (the list as displayed).
+   * Only those tasks are renumbered, so hidden tasks keep their places.
+   */
+  reorder: (tasks: Task[], from: number, to: number): TaskAction => {
+    const ids = tasks.map(task => task.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    return { type: 'tasks/reordered', ids };
+  },
+
+  addSubtask: (taskId: string, title: string): TaskAction => ({
+    type: 'subtask/added',
+    taskId,
+    subtask: { id: Date.now().toString(), title, completed: false },
+  }),
+
+  /**
+   * Checking the last open subtask completes the task in the same step
+   */
+  toggleSubtask: (task: Task, subtaskId: string): TaskAction => {
+    const completesTask =
+      !task.completed &&
+      task.subtasks.some(subtask => subtask.id === subtaskId && !subtask.completed) &&
+      task.subtasks.every(subtask => subtask.id === subtaskId || subtask.completed);
+    return {
+      type: 'subtask/toggled',
+      taskId: task.id,
+      subtaskId,
+      ...(completesTask && {
+        completion: { completedAt: Date.now(), nextOccurrence: createNextOccurrence(task) },
+      }),
+    };
+  },
+
+  moveSubtask: (taskId: string, subtaskId: string, offset: number): TaskAction => ({
+    type: 'subtask/moved',
+    taskId,
+    subtaskId,
+    offset,
+  }),
+
+  removeSubtask: (taskId: string, subtaskId: string): TaskAction => ({
+    type: 'subtask/deleted',
+    taskId,
+    subtaskId,
+  }),
+
+  addList: (input: Omit<TaskList, 'id'>): TaskAction => ({
+    type: 'list/added',
+    list: { id: Date.now().toString(), ...input },
+  }),
+
+  updateList: (list: TaskList): TaskAction => ({ type: 'list/updated', list }),
+
+  removeList: (id: string, mode: ListDeletionMode): TaskAction => ({
+    type: 'list/deleted',
+    id,
+    mode,
+    deletedAt: Date.now(),
+  }),
+
+  /**
+   * Renaming is a merge of one tag into a (possibly new) name
+   */
+  renameTag: (from: string, to: string): TaskAction => ({
+    type: 'tags/merged',
+    sources: uniqueTags([from]),
+    target: uniqueTags([to])[0] ?? '',
+  }),
+
+  mergeTags: (sources: string[], target: string): TaskAction => ({
+    type: 'tags/merged',
+    sources: uniqueTags(sources),
+    target: uniqueTags([target])[0] ?? '',
+  }),
+
+  recolourTag: (tag: string, color: string): TaskAction => ({ type: 'tag/recoloured', tag, color }),
+};
+
+/**
+ * Fisher–Yates shuffle, so every order is equally likely
+ */
+function shuffleIds(ids: string[]): string[] {
+  const shuffled = [...ids];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Moves a custom reminder by as many days as the task moved, so it keeps
+ * its place relative to the due date instead of staying in the past
+ */
+function shiftReminder(reminder: Reminder, fromDate: string, toDate: string): Reminder {
+  if (reminder.timing !== 'custom' || reminder.at === undefined) return reminder;
+  const days = Math.round((fromDateKey(toDate).getTime() - fromDateKey(fromDate).getTime()) / (24 * 60 * 60 * 1000));
+  const at = new Date(reminder.at);
+  at.setDate(at.getDate() + days);
+  return { ...reminder, at: at.getTime() };
+}
+
+/**
+ * Builds a fresh copy of a recurring task due on the rule's next date, or
+ * undefined when the task doesn't repeat or its rule has ended
+ */
+function createNextOccurrence(
+  { order, completedAt, ...task }: Task,
+  id: string = Date.now().toString()
+): NewTask | undefined {
+  if (!task.recurrence) return undefined;
+
+  // Rules from before monthly ones stored their day are pinned on first use
+  const fromDate = task.dueDate ?? toDateKey(new Date());
+  const recurrence = anchorRecurrence(task.recurrence, fromDate);
+  const dueDate = getNextOccurrence(recurrence, fromDate);
+  if (!dueDate) return undefined;
+
+  const { reminder, ...rest } = clearSnooze(task);
+  return {
+    ...rest,
+    ...(reminder && { reminder: shiftReminder(reminder, fromDate, dueDate) }),
+    recurrence,
+    id,
+    createdAt: Date.now(),
+    completed: false,
+    subtasks: task.subtasks.map((subtask, index) => ({
+      ...subtask,
+      id: `${Date.now()}-${index}`,
+      completed: false,
+    })),
+    dueDate,
+  };
+}
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+/**
+ * Applies `update` to the task with the given id
+ */
+const updateTask = (tasks: Task[], id: string, update: (task: Task) => Task): Task[] =>
+  tasks.map(task => (task.id === id ? update(task) : task));
+
+/**
+ * Returns a task to its list, or to the inbox if that list has since been deleted
+ */
+const placeInList = <T extends Pick<Task, 'listId'>>(lists: TaskList[], task: T): T =>
+  lists.some(list => list.id === task.listId) ? task : { ...task, listId: INBOX_LIST.id };
+
+/**
+ * Drops a pending snooze so the reminder goes back to its planned time
+ */
+const clearSnooze = <T extends Pick<Task, 'reminder'>>(task: T): T => {
+  if (task.reminder?.snoozedUntil === undefined) return task;
+  const { snoozedUntil, ...reminder } = task.reminder;
+  return { ...task, reminder };
+};
+
+/**
+ * Completes or reopens a task, adding the next occurrence of a completed
+ * recurring one. Toggling either way ends a snooze, so reopening reminds
+ * on plan.
+ */
+const toggleTask = (state: TaskState, id: string, completedAt: number, nextOccurrence?: NewTask): TaskState => {
+  const tasks = updateTask(state.tasks, id, ({ recurrence, completedAt: _completedAt, ...task }) => ({
+    ...clearSnooze(task),
+    completed: !task.completed,
+    ...(!task.completed && { completedAt }),
+    // The series continues on the next occurrence
+    ...(!nextOccurrence && recurrence && { recurrence }),
+  }));
+  return { ...state, tasks: nextOccurrence ? prependTask(tasks, nextOccurrence) : tasks };
+};
+
+/**
+ * Moves the completed tasks matching `shouldArchive` to the front of the archive
+ */
+const archiveTasks = (
+  state: TaskState,
+  shouldArchive: (task: Task) => boolean,
+  archivedAt: number
+): TaskState => {
+  const archived = state.tasks.filter(task => task.completed && shouldArchive(task));
+  if (archived.length === 0) return state;
+
+  return {
+    ...state,
+    tasks: state.tasks.filter(task => !archived.includes(task)),
+    archive: [...archived.map(task => ({ ...task, archivedAt })), ...state.archive],
+  };
+};
+
+/**
+ * Whether a task with `id` is anywhere in the state: the list, the trash or
+ * the archive. Ids must stay unique across all three so tasks can move between them.
+ */
+const hasTaskId = (state: TaskState, id: string): boolean =>
+  [state.tasks, state.trash, state.archive].some(tasks => tasks.some(task => task.id === id));
+
+/**
+ * Adds a task above every other in the manual order
+ */
+const prependTask = (tasks: Task[], task: NewTask): Task[] => [
+  { ...task, order: tasks.reduce((min, other) => Math.min(min, other.order), 0) - 1 },
+  ...tasks,
+];
+
+export const taskReducer = (state: TaskState, action: TaskAction): TaskState => {
+  switch (action.type) {
+    case 'tasks/loaded':
+      return {
+        tasks: action.tasks,
+        lists: action.lists,
+        tagColors: action.tagColors,
+        trash: action.trash,
+        archive: action.archive,
+        loaded: true,
+      };
+
+    case 'task/added':
+      if (hasTaskId(state, action.task.id)) return state;
+      return { ...state, tasks: prependTask(state.tasks, action.task) };
+
+    case 'task/toggled':
+      return toggleTask(state, action.id, action.completedAt, action.nextOccurrence);
+
+    case 'task/deleted': {
+      const task = state.tasks.find(t => t.id === action.id);
+      if (!task) return state;
+      return {
+        ...state,
+        tasks: state.tasks.filter(t => t.id !== action.id),
+        trash: [{ ...task, deletedAt: action.deletedAt }, ...state.trash],
+      };
+    }
+
+    case 'tasks/completionSet': {
+      const ids = new Set(action.ids);
+      if (!state.tasks.some(task => ids.has(task.id))) return state;
+      const tasks = state.tasks.map(task => {
+        if (!ids.has(task.id)) return task;
+        const { recurrence, completedAt, ...rest } = task;
+        return {
+          ...clearSnooze(rest),
+          completed: action.completed,
+          ...(action.completed && { completedAt: action.completedAt }),
+          // The series continues on the next occurrence
+          ...(!(task.id in action.nextOccurrences) && recurrence && { recurrence }),
+        };
+      });
+      return {
+        ...state,
+        tasks: Object.values(action.nextOccurrences).reduce(prependTask, tasks),
+      };
+    }
+
+    case 'tasks/deleted': {
+      const ids = new Set(action.ids);
+      if (!state.tasks.some(task => ids.has(task.id))) return state;
+      return {
+        ...state,
+        tasks: state.tasks.filter(task => !ids.has(task.id)),
+        trash: [
+          ...state.tasks.filter(task => ids.has(task.id)).map(task => ({ ...task, deletedAt: action.deletedAt })),
+          ...state.trash,
+        ],
+      };
+    }
+
+    case 'tasks/imported': {
+      const fresh = action.tasks.filter(
+        (task, index) => !hasTaskId(state, task.id) && action.tasks.findIndex(t => t.id === task.id) === index
+      );
+      if (fresh.length === 0) return state;
+      return {
+        ...state,
+        tasks: fresh.reverse().reduce((tasks, task) => prependTask(tasks, placeInList(state.lists, task)), state.tasks),
+      };
+    }
+
+    case 'tasks/priorityChanged': {
+      const ids = new Set(action.ids);
+      if (!state.tasks.some(task => ids.has(task.id))) return state;
+      return {
+        ...state,
+        tasks: state.tasks.map(task => (ids.has(task.id) ? { ...task, priority: action.priority } : task)),
+      };
+    }
+
+    case 'task/restored': {
+      const trashed = state.trash.find(task => task.id === action.id);
+      // Never restore over a task that has taken the same id since
+      if (!trashed || state.tasks.some(task => task.id === action.id)) return state;
+
+      const { deletedAt, ...task } = trashed;
+      return {
+        ...state,
+        tasks: [...state.tasks, placeInList(state.lists, task)],
+        trash: state.trash.filter(t => t.id !== action.id),
+      };
+    }
+
+    case 'trash/purged':
+      return { ...state, trash: state.trash.filter(task => !action.ids.includes(task.id)) };
+
+    case 'trash/expired':
+      return { ...state, trash: state.trash.filter(task => (task.deletedAt ?? 0) >= action.before) };
+
+    case 'tasks/archived':
+      return archiveTasks(state, task => action.ids.includes(task.id), action.archivedAt);
+
+    case 'tasks/autoArchived':
+      return archiveTasks(state, task => (task.completedAt ?? 0) < action.completedBefore, action.archivedAt);
+
+    case 'task/unarchived': {
+      const archived = state.archive.find(task => task.id === action.id);
+      if (!archived || state.tasks.some(task => task.id === action.id)) return state;
+
+      const { archivedAt, ...task } = archived;
+      return {
+        ...state,
+        tasks: [...state.tasks, placeInList(state.lists, task)],
+        archive: state.archive.filter(t => t.id !== action.id),
+      };
+    }
+
+    case 'task/edited':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, task => ({
+          ...task,
+          title: action.title,
+          description: action.description,
+          updatedAt: action.updatedAt,
+        })),
+      };
+
+    case 'task/priorityChanged':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, task => ({ ...task, priority: action.priority })),
+      };
+
+    case 'task/dueChanged':
+      return {
+        ...state,
+        // A new due moment replaces any snoozed reminder
+        tasks: updateTask(state.tasks, action.id, ({ dueDate, dueTime, ...task }) => ({
+          ...clearSnooze(task),
+          ...(action.dueDate && { dueDate: action.dueDate }),
+          ...(action.dueDate && action.dueTime && { dueTime: action.dueTime }),
+        })),
+      };
+
+    case 'task/recurrenceChanged':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, ({ recurrence, ...task }) => ({
+          ...task,
+          ...(action.recurrence && {
+            recurrence: task.dueDate ? anchorRecurrence(action.recurrence, task.dueDate) : action.recurrence,
+          }),
+        })),
+      };
+
+    case 'task/reminderChanged':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, ({ reminder, ...task }) => ({
+          ...task,
+          ...(action.reminder && { reminder: action.reminder }),
+        })),
+      };
+
+    case 'task/assigned':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, ({ assignee, ...task }) => ({
+          ...task,
+          ...(action.assignee && { assignee: action.assignee }),
+        })),
+      };
+
+    case 'member/removed': {
+      // Trashed and archived tasks can come back, so they lose the assignee too
+      const unassign = (tasks: Task[]) =>
+        tasks.map(task => {
+          if (task.assignee !== action.id) return task;
+          const { assignee, ...rest } = task;
+          return rest;
+        });
+      return {
+        ...state,
+        tasks: unassign(state.tasks),
+        trash: unassign(state.trash),
+        archive: unassign(state.archive),
+        lists: state.lists.map(({ memberIds, ...list }) => {
+          const remaining = memberIds?.filter(id => id !== action.id) ?? [];
+          return remaining.length > 0 ? { ...list, memberIds: remaining } : list;
+        }),
+      };
+    }
+
+    case 'task/reminderSnoozed':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, task =>
+          task.reminder ? { ...task, reminder: { ...task.reminder, snoozedUntil: action.until } } : task
+        ),
+      };
+
+    case 'task/moved':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, task => ({ ...task, listId: action.listId })),
+      };
+
+    case 'task/tagsChanged':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.id, task => ({ ...task, tags: action.tags })),
+      };
+
+    case 'tasks/shuffled': {
+      const position = new Map(action.order.map((id, index) => [id, index]));
+      return {
+        ...state,
+        tasks: state.tasks.map(task => ({ ...task, order: position.get(task.id) ?? task.order })),
+      };
+    }
+
+    case 'tasks/reordered': {
+      // Reuse the moved tasks' existing slots so tasks outside the view stay put
+      const slots = state.tasks
+        .filter(task => action.ids.includes(task.id))
+        .map(task => task.order)
+        .sort((a, b) => a - b);
+      const position = new Map(action.ids.map((id, index) => [id, slots[index]]));
+      return {
+        ...state,
+        tasks: state.tasks.map(task =>
+          position.has(task.id) ? { ...task, order: position.get(task.id) ?? task.order } : task
+        ),
+      };
+    }
+
+    case 'subtask/added':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.taskId, task => ({
+          ...task,
+          subtasks: [...task.subtasks, action.subtask],
+        })),
+      };
+
+    case 'subtask/toggled': {
+      const toggled = {
+        ...state,
+        tasks: updateTask(state.tasks, action.taskId, task => ({
+          ...task,
+          subtasks: task.subtasks.map(subtask =>
+            subtask.id === action.subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+          ),
+        })),
+      };
+      const { completion } = action;
+      return completion
+        ? toggleTask(toggled, action.taskId, completion.completedAt, completion.nextOccurrence)
+        : toggled;
+    }
+
+    case 'subtask/moved':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.taskId, task => {
+          const from = task.subtasks.findIndex(subtask => subtask.id === action.subtaskId);
+          const to = from + action.offset;
+          if (from === -1 || to < 0 || to >= task.subtasks.length) return task;
+
+          const subtasks = [...task.subtasks];
+          const [moved] = subtasks.splice(from, 1);
+          subtasks.splice(to, 0, moved);
+          return { ...task, subtasks };
+        }),
+      };
+
+    case 'subtask/deleted':
+      return {
+        ...state,
+        tasks: updateTask(state.tasks, action.taskId, task => ({
+          ...task,
+          subtasks: task.subtasks.filter(subtask => subtask.id !== action.subtaskId),
+        })),
+      };
+
+    case 'list/added':
+      return { ...state, lists: [...state.lists, action.list] };
+
+    case 'list/updated':
+      return {
+        ...state,
+        lists: state.lists.map(list => (list.id === action.list.id ? action.list : list)),
+      };
+
+    case 'list/deleted':
+      // The inbox is the fallback for moved tasks and can't be removed
+      if (action.id === INBOX_LIST.id) return state;
+
+      if (action.mode === 'delete') {
+        return {
+          ...state,
+          lists: state.lists.filter(list => list.id !== action.id),
+          tasks: state.tasks.filter(task => task.listId !== action.id),
+          trash: [
+            ...state.tasks
+              .filter(task => task.listId === action.id)
+              .map(task => ({ ...task, deletedAt: action.deletedAt })),
+            ...state.trash,
+          ],
+        };
+      }
+
+      return {
+        ...state,
+        lists: state.lists.filter(list => list.id !== action.id),
+        tasks: state.tasks.map(task =>
+          task.listId === action.id ? { ...task, listId: INBOX_LIST.id } : task
+        ),
+      };
+
+    case 'tags/merged': {
+      if (!action.target) return state;
+      const sources = new Set(action.sources);
+
+      // The target keeps its own colour, or inherits the first source's
+      const { [action.target]: targetColor, ...otherColors } = state.tagColors;
+      const inherited = targetColor ?? action.sources.map(tag => state.tagColors[tag]).find(Boolean);
+      const tagColors = Object.fromEntries(
+        Object.entries(otherColors).filter(([tag]) => !sources.has(tag))
+      );
+
+      return {
+        ...state,
+        tagColors: inherited ? { ...tagColors, [action.target]: inherited } : tagColors,
+        tasks: state.tasks.map(task =>
+          task.tags.some(tag => sources.has(tag))
+            ? { ...task, tags: uniqueTags(task.tags.map(tag => (sources.has(tag) ? action.target : tag))) }
+            : task
+        ),
+      };
+    }
+
+    case 'tag/recoloured':
+      return { ...state, tagColors: { ...state.tagColors, [action.tag]: action.color } };
+
+    case 'sync/applied':
+      return applyRemoteChanges(state, action.changes);
+
+    default:
+      return state;
+  }
+};
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/**
+ * Memoizes a derived value on the identity of its input, so selectors
+ * only recompute when the task list actually changes.
+ */
+const createSelector = <Input, Output>(
+  selectInput: (state: TaskState) => Input,
+  compute: (input: Input) => Output
+) => {
+  let lastInput: Input | undefined;
+  let lastOutput: Output;
+  let initialized = false;
+
+  return (state: TaskState): Output => {
+    const input = selectInput(state);
+    if (!initialized || input !== lastInput) {
+      lastInput = input;
+      lastOutput = compute(input);
+      initialized = true;
+    }
+    return lastOutput;
+  };
+};
+
+export const PRIORITY_ORDER: Record<Priority, number> = {
+  urgent: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+const selectTasks = (state: TaskState) => state.tasks;
+
+/**
+ * Manual order, as arranged by drag and drop
+ */
+export const compareOrder = (a: Task, b: Task): number => a.order - b.order;
+
+/**
+ * Orders tasks by priority (urgent → low), then by deadline, then by manual
+ * order, so dragging only rearranges tasks tied on both
+ */
+export const compareTasks = (a: Task, b: Task): number =>
+  PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || compareDue(a, b) || compareOrder(a, b);
+
+/**
+ * Tasks sorted by priority, deadline and manual order
+ */
+export const selectSortedTasks = createSelector(selectTasks, tasks =>
+  [...tasks].sort(compareTasks)
+);
+
+/**
+ * Count of pending (incomplete) tasks
+ */
+export const selectPendingCount = createSelector(
+  selectTasks,
+  tasks => tasks.filter(task => !task.completed).length
+);
+
+/**
+ * Count of completed tasks
+ */
+export const selectCompletedCount = createSelector(
+  selectTasks,
+  tasks => tasks.filter(task => task.completed).length
+);
+
+/**
+ * Completed and total subtask counts for a task
+ */
+export const getSubtaskProgress = (task: Task): { done: number; total: number } => ({
+  done: task.subtasks.filter(subtask => subtask.completed).length,
+  total: task.subtasks.length,
+});
+
+/**
+ * Number of pending tasks in each list, keyed by list id
+ */
+export const selectPendingCountByList = createSelector(selectTasks, tasks => {
+  const counts: Record<string, number> = {};
+  for (const task of tasks) {
+    if (!task.completed) counts[task.listId] = (counts[task.listId] ?? 0) + 1;
+  }
+  return counts;
+});
+
+/**
+ * Every tag in use with how many tasks carry it, most used first
+ */
+export const selectTagSummaries = createSelector(selectTasks, (tasks): TagSummary[] => {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+});
+
+export const selectListById = (state: TaskState, id: string): TaskList | undefined =>
+  state.lists.find(list => list.id === id);
+
+export const selectTaskById = (state: TaskState, id: string): Task | undefined =>
+  state.tasks.find(task => task.id === id);
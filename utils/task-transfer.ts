@@ -0,0 +1,458 @@
+import type { Priority, Subtask, Task, TaskList } from '@/types/task';
+import { extractTags, uniqueTags } from '@/utils/tags';
+import { isValidTaskField, migrateTaskData, SCHEMA_VERSION, type TaskData } from '@/utils/task-repository';
+import type { ImportedTask } from '@/utils/task-store';
+import { parseTodoTxt, serializeTodoTxt } from '@/utils/todo-txt';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TransferFormat = 'json' | 'csv' | 'markdown' | 'todotxt';
+
+export const TRANSFER_FORMATS: { key: TransferFormat; label: string }[] = [
+  { key: 'json', label: 'JSON' },
+  { key: 'csv', label: 'CSV' },
+  { key: 'markdown', label: 'Markdown' },
+  { key: 'todotxt', label: 'todo.txt' },
+];
+
+export interface ParsedImport {
+  tasks: ImportedTask[];
+  /** Problems with the input; entries or fields they mention are skipped */
+  errors: string[];
+}
+
+/**
+ * Where imported tasks land when the source doesn't name a known list
+ */
+export interface ImportContext {
+  lists: TaskList[];
+  defaultListId: string;
+}
+
+export type DuplicateReason = 'id' | 'title';
+
+export interface ImportPlan {
+  /** Tasks that don't match anything already in the app */
+  fresh: ImportedTask[];
+  /** Matches by id lose their id, so importing them anyway creates copies */
+  duplicates: { task: ImportedTask; reason: DuplicateReason }[];
+}
+
+const PRIORITY_VALUES: Priority[] = ['low', 'normal', 'high', 'urgent'];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_KEY_PATTERN = /^\d{2}:\d{2}$/;
+
+const CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'list',
+  'tags',
+  'dueDate',
+  'dueTime',
+  'createdAt',
+  'completedAt',
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const CHECKLIST_ITEM_PATTERN = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+const DUE_MARKER_PATTERN = /\s*📅\s*(\d{4}-\d{2}-\d{2})(?:\s+(\d{2}:\d{2}))?/;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const listName = (lists: TaskList[], listId: string): string =>
+  lists.find((list) => list.id === listId)?.name ?? '';
+
+const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toIsoString = (time?: number): string => (time === undefined ? '' : new Date(time).toISOString());
+
+const toCsv = (tasks: Task[], lists: TaskList[]): string => {
+  const rows = tasks.map((task) => {
+    const values: Record<CsvColumn, string> = {
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      completed: String(task.completed),
+      priority: task.priority,
+      list: listName(lists, task.listId),
+      tags: task.tags.join(' '),
+      dueDate: task.dueDate ?? '',
+      dueTime: task.dueTime ?? '',
+      createdAt: toIsoString(task.createdAt),
+      completedAt: toIsoString(task.completedAt),
+    };
+    return CSV_COLUMNS.map((column) => escapeCsv(values[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+const toChecklistItem = (title: string, completed: boolean, indent = ''): string =>
+  `${indent}- [${completed ? 'x' : ' '}] ${title}`;
+
+/**
+ * One heading per list, then a checklist item per task with its tags, due
+ * date and subtasks
+ */
+const toMarkdown = (tasks: Task[], lists: TaskList[]): string => {
+  const byList = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const group = byList.get(task.listId);
+    if (group) group.push(task);
+    else byList.set(task.listId, [task]);
+  }
+
+  return [...byList.entries()]
+    .map(([listId, listTasks]) => {
+      const items = listTasks.flatMap((task) => {
+        const due = task.dueDate ? ` 📅 ${[task.dueDate, task.dueTime].filter(Boolean).join(' ')}` : '';
+        const tags = task.tags.map((tag) => ` #${tag}`).join('');
+        return [
+          toChecklistItem(`${task.title}${tags}${due}`, task.completed),
+          ...task.subtasks.map((subtask) => toChecklistItem(subtask.title, subtask.completed, '  ')),
+        ];
+      });
+      return [`## ${listName(lists, listId) || 'Tasks'}`, '', ...items].join('\n');
+    })
+    .join('\n\n');
+};
+
+/**
+ * Serializes tasks for sharing. JSON keeps every field and can be imported
+ * without loss; CSV, Markdown and todo.txt are for other tools.
+ */
+export const serializeTasks = (tasks: Task[], format: TransferFormat, lists: TaskList[]): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ version: SCHEMA_VERSION, lists, tasks }, null, 2);
+    case 'csv':
+      return toCsv(tasks, lists);
+    case 'markdown':
+      return toMarkdown(tasks, lists);
+    case 'todotxt':
+      return serializeTodoTxt(tasks);
+  }
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Finds the list an imported task belongs to: by id, then by name, else the default
+ */
+const resolveListId = (context: ImportContext, listId?: string, name?: string): string => {
+  const trimmed = name?.trim().toLowerCase();
+  return (
+    context.lists.find((list) => list.id === listId)?.id ??
+    (trimmed ? context.lists.find((list) => list.name.toLowerCase() === trimmed)?.id : undefined) ??
+    context.defaultListId
+  );
+};
+
+const isSubtask = (value: unknown): value is Subtask =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Subtask).id === 'string' &&
+  typeof (value as Subtask).title === 'string' &&
+  typeof (value as Subtask).completed === 'boolean';
+
+/**
+ * Runs the data through the storage migrations, so exports from older
+ * versions import too. A bare array is read as tasks in the current schema.
+ */
+const parseJson = (text: string, context: ImportContext): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { tasks: [], errors: ['This is not valid JSON'] };
+  }
+
+  let migrated: TaskData;
+  try {
+    migrated = migrateTaskData(Array.isArray(data) ? { version: SCHEMA_VERSION, tasks: data } : data);
+  } catch (error) {
+    return { tasks: [], errors: [`Couldn't read the tasks: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors: string[] = [];
+  const tasks = migrated.tasks.flatMap(({ order, archivedAt, deletedAt, ...task }, index): ImportedTask[] => {
+    // Data already at the current version skips the migrations, so check it here
+    const { id, createdAt, title, description, completed, priority, listId, tags, subtasks, ...optional } =
+      task as unknown as Record<string, unknown>;
+    if (typeof title !== 'string' || title.trim() === '') {
+      errors.push(`Task ${index + 1} has no title`);
+      return [];
+    }
+
+    const invalid = Object.keys(optional).filter((field) => !isValidTaskField(field, optional[field]));
+    if (invalid.length > 0) errors.push(`Task ${index + 1}: ignored invalid ${invalid.join(', ')}`);
+    const { dueTime, ...fields }: Partial<Task> = Object.fromEntries(
+      Object.entries(optional).filter(([field]) => !invalid.includes(field))
+    );
+
+    const sourceList = migrated.lists.find((list) => list.id === listId);
+    return [
+      {
+        ...fields,
+        ...(fields.dueDate && dueTime && { dueTime }),
+        ...(isValidTaskField('id', id) && { id: id as string }),
+        ...(isValidTaskField('createdAt', createdAt) && { createdAt: createdAt as number }),
+        title: title.trim(),
+        description: typeof description === 'string' ? description : '',
+        completed: completed === true,
+        priority: PRIORITY_VALUES.includes(priority as Priority) ? (priority as Priority) : 'normal',
+        listId: resolveListId(context, listId as string | undefined, sourceList?.name),
+        tags: Array.isArray(tags) ? uniqueTags(tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+        subtasks: Array.isArray(subtasks) ? subtasks.filter(isSubtask) : [],
+      },
+    ];
+  });
+
+  return { tasks, errors };
+};
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const parseBoolean = (value: string): boolean | undefined => {
+  const normalized = value.trim().toLowerCase();
+  if (['', 'false', '0', 'no'].includes(normalized)) return false;
+  if (['true', '1', 'yes', 'x'].includes(normalized)) return true;
+  return undefined;
+};
+
+const parseTime = (value: string): number | undefined => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Reads a CSV with a header row. Only `title` is required; columns are
+ * matched case-insensitively and unknown ones ignored.
+ */
+const parseCsv = (text: string, context: ImportContext): ParsedImport => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { tasks: [], errors: ['The CSV is empty'] };
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('title')) {
+    return { tasks: [], errors: ['The CSV needs a "title" column'] };
+  }
+
+  const errors: string[] = [];
+  const tasks = rows.flatMap((cells, index): ImportedTask[] => {
+    const cell = (column: CsvColumn) => cells[columns.indexOf(column.toLowerCase())]?.trim() ?? '';
+    const problems: string[] = [];
+
+    const title = cell('title');
+    if (!title) problems.push('no title');
+
+    const completed = parseBoolean(cell('completed'));
+    if (completed === undefined) problems.push(`"${cell('completed')}" is not true or false`);
+
+    const priority = (cell('priority').toLowerCase() || 'normal') as Priority;
+    if (!PRIORITY_VALUES.includes(priority)) problems.push(`unknown priority "${cell('priority')}"`);
+
+    const dueDate = cell('dueDate');
+    const dueTime = cell('dueTime');
+    if (dueDate && !DATE_KEY_PATTERN.test(dueDate)) problems.push(`due date "${dueDate}" is not YYYY-MM-DD`);
+    if (dueTime && !TIME_KEY_PATTERN.test(dueTime)) problems.push(`due time "${dueTime}" is not HH:mm`);
+
+    const createdAt = cell('createdAt') ? parseTime(cell('createdAt')) : undefined;
+    const completedAt = cell('completedAt') ? parseTime(cell('completedAt')) : undefined;
+    if (cell('createdAt') && createdAt === undefined) problems.push(`"${cell('createdAt')}" is not a date`);
+    if (cell('completedAt') && completedAt === undefined) problems.push(`"${cell('completedAt')}" is not a date`);
+
+    if (problems.length > 0) {
+      errors.push(`Row ${index + 2}: ${problems.join(', ')}`);
+      return [];
+    }
+
+    const id = cell('id');
+    return [
+      {
+        ...(id && { id }),
+        ...(createdAt !== undefined && { createdAt }),
+        title,
+        description: cell('description'),
+        completed: completed === true,
+        ...(completed && completedAt !== undefined && { completedAt }),
+        priority,
+        listId: resolveListId(context, undefined, cell('list')),
+        tags: uniqueTags(cell('tags').split(/[\s,;]+/)),
+        subtasks: [],
+        ...(dueDate && { dueDate }),
+        ...(dueDate && dueTime && { dueTime }),
+      },
+    ];
+  });
+
+  return { tasks, errors };
+};
+
+/**
+ * Reads `- [ ]` / `- [x]` checklist items. Headings pick the list for the
+ * items below them, indented items become subtasks, and `#tags` and
+ * `📅 YYYY-MM-DD` markers are picked out of titles.
+ */
+const parseMarkdown = (text: string, context: ImportContext): ParsedImport => {
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+  let listId = context.defaultListId;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      listId = resolveListId(context, undefined, heading[1]);
+      return;
+    }
+
+    const item = CHECKLIST_ITEM_PATTERN.exec(line);
+    if (!item) return;
+
+    const [, indent, mark, content] = item;
+    const completed = mark !== ' ';
+    const parent = tasks[tasks.length - 1];
+
+    if (indent.length > 0 && parent) {
+      parent.subtasks.push({ id: String(index), title: content.trim(), completed });
+      return;
+    }
+
+    const due = DUE_MARKER_PATTERN.exec(content);
+    const { title, tags } = extractTags(content.replace(DUE_MARKER_PATTERN, ''));
+    if (!title) {
+      errors.push(`Line ${index + 1} has no title`);
+      return;
+    }
+
+    tasks.push({
+      title,
+      description: '',
+      completed,
+      priority: 'normal',
+      listId,
+      tags,
+      subtasks: [],
+      ...(due && { dueDate: due[1] }),
+      ...(due?.[2] && { dueTime: due[2] }),
+    });
+  });
+
+  if (tasks.length === 0 && errors.length === 0) {
+    errors.push('No checklist items like "- [ ] title" were found');
+  }
+  return { tasks, errors };
+};
+
+/**
+ * Best guess at the format of pasted text. A CSV header names a title
+ * column; any other plain lines are read as todo.txt.
+ */
+export const detectFormat = (text: string): TransferFormat => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+
+  const lines = trimmed.split(/\r?\n/);
+  if (lines.some((line) => CHECKLIST_ITEM_PATTERN.test(line))) return 'markdown';
+  return /(^|,)\s*"?title"?\s*(,|$)/i.test(lines[0]) ? 'csv' : 'todotxt';
+};
+
+/**
+ * Parses exported text back into tasks, collecting a message for every entry
+ * that can't be read
+ */
+export const parseTasks = (text: string, format: TransferFormat, context: ImportContext): ParsedImport => {
+  if (text.trim() === '') return { tasks: [], errors: [] };
+
+  switch (format) {
+    case 'json':
+      return parseJson(text, context);
+    case 'csv':
+      return parseCsv(text, context);
+    case 'markdown':
+      return parseMarkdown(text, context);
+    case 'todotxt':
+      return parseTodoTxt(text, context);
+  }
+};
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase();
+
+/**
+ * Separates imported tasks that already exist, matching by id or by title
+ * (ignoring case), including repeats within the import itself
+ */
+export const planImport = (imported: ImportedTask[], existing: Task[]): ImportPlan => {
+  const ids = new Set(existing.map((task) => task.id));
+  const titles = new Set(existing.map((task) => normalizeTitle(task.title)));
+  const plan: ImportPlan = { fresh: [], duplicates: [] };
+
+  for (const task of imported) {
+    const title = normalizeTitle(task.title);
+    if (task.id !== undefined && ids.has(task.id)) {
+      const { id, ...copy } = task;
+      plan.duplicates.push({ task: copy, reason: 'id' });
+    } else if (titles.has(title)) {
+      plan.duplicates.push({ task, reason: 'title' });
+    } else {
+      plan.fresh.push(task);
+      if (task.id !== undefined) ids.add(task.id);
+    }
+    titles.add(title);
+  }
+
+  return plan;
+};
@@ -0,0 +1,128 @@
+import type { Priority, Task } from '@/types/task';
+import { compareDue } from '@/utils/due-date';
+import { isAssignedTo } from '@/utils/members';
+import { compareOrder, compareTasks, PRIORITY_ORDER } from '@/utils/task-store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TaskSortKey = 'priority' | 'created' | 'due' | 'title' | 'manual';
+
+export type TaskStatusFilter = 'all' | 'pending' | 'completed';
+
+/**
+ * How completed tasks appear: inline, hidden, or in a collapsible section
+ */
+export type CompletedDisplay = 'show' | 'hide' | 'collapse';
+
+export interface TaskViewOptions {
+  sortBy: TaskSortKey;
+  status: TaskStatusFilter;
+  /** Priorities to include; empty means all */
+  priorities: Priority[];
+  completed: CompletedDisplay;
+  /** Only tasks assigned to the current user */
+  assignedToMe: boolean;
+}
+
+export const DEFAULT_VIEW_OPTIONS: TaskViewOptions = {
+  sortBy: 'priority',
+  status: 'all',
+  priorities: [],
+  completed: 'show',
+  assignedToMe: false,
+};
+
+export const SORT_OPTIONS: { key: TaskSortKey; label: string }[] = [
+  { key: 'priority', label: 'Priority' },
+  { key: 'created', label: 'Newest' },
+  { key: 'due', label: 'Due date' },
+  { key: 'title', label: 'Title' },
+  { key: 'manual', label: 'Manual' },
+];
+
+export const STATUS_OPTIONS: { key: TaskStatusFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'pending', label: 'Pending' },
+  { key: 'completed', label: 'Completed' },
+];
+
+export const COMPLETED_OPTIONS: { key: CompletedDisplay; label: string }[] = [
+  { key: 'show', label: 'Show' },
+  { key: 'collapse', label: 'Collapse' },
+  { key: 'hide', label: 'Hide' },
+];
+
+// ============================================================================
+// Sorting & Filtering
+// ============================================================================
+
+// Ties fall back to the manual order so equal tasks never jump around
+const SORT_COMPARATORS: Record<TaskSortKey, (a: Task, b: Task) => number> = {
+  priority: compareTasks,
+  created: (a, b) => b.createdAt - a.createdAt || compareOrder(a, b),
+  due: (a, b) =>
+    compareDue(a, b) || PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || compareOrder(a, b),
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) || compareOrder(a, b),
+  manual: compareOrder,
+};
+
+/**
+ * Sorts a copy of `tasks`
+ */
+export const sortTasks = (tasks: Task[], sortBy: TaskSortKey): Task[] =>
+  [...tasks].sort(SORT_COMPARATORS[sortBy]);
+
+/**
+ * Sorts that can be rearranged by hand: manual order everywhere, or within
+ * a priority and due date when sorting by priority
+ */
+export const isReorderableSort = (sortBy: TaskSortKey): boolean =>
+  sortBy === 'manual' || sortBy === 'priority';
+
+/**
+ * Inclusive range the task at `index` of the displayed `tasks` may be dragged
+ * within, or null when it has nowhere to go
+ */
+export const getReorderBounds = (
+  tasks: Task[],
+  index: number,
+  sortBy: TaskSortKey
+): [number, number] | null => {
+  if (!isReorderableSort(sortBy) || tasks.length < 2) return null;
+  if (sortBy === 'manual') return [0, tasks.length - 1];
+
+  // Sorted by priority and deadline: only within the run of tasks tied on both
+  const task = tasks[index];
+  const tied = (other: Task) => other.priority === task.priority && compareDue(other, task) === 0;
+  let min = index;
+  let max = index;
+  while (min > 0 && tied(tasks[min - 1])) min--;
+  while (max < tasks.length - 1 && tied(tasks[max + 1])) max++;
+  return min === max ? null : [min, max];
+};
+
+/**
+ * Applies the status, priority and assignee filters. "Assigned to me"
+ * matches nothing until the current user is known.
+ */
+export const filterTasks = (tasks: Task[], options: TaskViewOptions, currentUserId?: string): Task[] =>
+  tasks.filter(
+    task =>
+      (options.status === 'all' || task.completed === (options.status === 'completed')) &&
+      (options.priorities.length === 0 || options.priorities.includes(task.priority)) &&
+      (!options.assignedToMe || (currentUserId !== undefined && isAssignedTo(task, currentUserId))) &&
+      // Hiding completed tasks only applies when both statuses are shown
+      (options.status !== 'all' || options.completed !== 'hide' || !task.completed)
+  );
+
+/**
+ * Whether the view differs from the defaults, for an "active filters" hint
+ */
+export const isCustomView = (options: TaskViewOptions): boolean =>
+  options.sortBy !== DEFAULT_VIEW_OPTIONS.sortBy ||
+  options.status !== DEFAULT_VIEW_OPTIONS.status ||
+  options.priorities.length > 0 ||
+  options.completed !== DEFAULT_VIEW_OPTIONS.completed ||
+  options.assignedToMe;
@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { CURRENT_USER, MEMBER_COLORS } from '@/constants/members';
+import type { Member } from '@/types/task';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where the team roster lives. The app only talks to this interface, so a
+ * real server can replace the mock without touching the screens.
+ */
+export interface TeamBackend {
+  /** The signed-in member */
+  getCurrentUser: () => Promise<Member>;
+  /** Everyone on the team, the current user included */
+  listMembers: () => Promise<Member[]>;
+  inviteMember: (name: string) => Promise<Member>;
+  removeMember: (id: string) => Promise<void>;
+}
+
+interface MockTeamOptions {
+  /** Simulated network delay per call */
+  latencyMs?: number;
+  /** Teammates on first run */
+  seed?: Member[];
+  /** AsyncStorage key to keep the roster under; omit to keep it in memory */
+  storageKey?: string;
+}
+
+const DEMO_TEAM: Member[] = [
+  { id: 'member-ada', name: 'Ada Lovelace', color: MEMBER_COLORS[0] },
+  { id: 'member-grace', name: 'Grace Hopper', color: MEMBER_COLORS[1] },
+  { id: 'member-alan', name: 'Alan Turing', color: MEMBER_COLORS[2] },
+];
+
+// ============================================================================
+// Mock Backend
+// ============================================================================
+
+/**
+ * In-process stand-in for a team server: a roster with the current user and
+ * some demo teammates, with a short delay on every call so loading states
+ * show up as they would against a network
+ */
+export const createMockTeamBackend = ({
+  latencyMs = 150,
+  seed = DEMO_TEAM,
+  storageKey,
+}: MockTeamOptions = {}): TeamBackend => {
+  let roster: Member[] | null = null;
+
+  const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+  const load = async (): Promise<Member[]> => {
+    if (roster) return roster;
+    const raw = storageKey ? await AsyncStorage.getItem(storageKey) : null;
+    roster = raw ? (JSON.parse(raw) as Member[]) : seed;
+    return roster;
+  };
+
+  const save = async (members: Member[]) => {
+    roster = members;
+    if (storageKey) await AsyncStorage.setItem(storageKey, JSON.stringify(members));
+  };
+
+  return {
+    getCurrentUser: async () => {
+      await delay();
+      return CURRENT_USER;
+    },
+
+    listMembers: async () => {
+      await delay();
+      return [CURRENT_USER, ...(await load())];
+    },
+
+    inviteMember: async (name) => {
+      await delay();
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error('Enter a name to invite');
+
+      const members = await load();
+      if (members.some((member) => member.name.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`${trimmed} is already on the team`);
+      }
+      const member: Member = {
+        id: `member-${Date.now()}`,
+        name: trimmed,
+        color: MEMBER_COLORS[members.length % MEMBER_COLORS.length],
+      };
+      await save([...members, member]);
+      return member;
+    },
+
+    removeMember: async (id) => {
+      await delay();
+      if (id === CURRENT_USER.id) throw new Error("You can't remove yourself");
+      await save((await load()).filter((member) => member.id !== id));
+    },
+  };
+};
+
+/**
+ * The backend the app uses; swap for a real client once a team server exists
+ */
+export const teamBackend: TeamBackend = createMockTeamBackend({ storageKey: '@taskmanager/mock-team' });
@@ -0,0 +1,192 @@
+import { HIGH_CONTRAST_THEME, SYSTEM_THEMES, TIME_OF_DAY_THEMES, type TimeOfDay } from '@/constants/themes';
+import type { Theme } from '@/types/theme';
+import { getSunPosition, SUN_ANGLES, type GeoPoint } from '@/utils/solar';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a theme may depend on when it is resolved
+ */
+export interface ThemeContext {
+  now: Date;
+  /** The device's light/dark mode */
+  colorScheme: 'light' | 'dark';
+  /** Where the sun is followed; without it clock-driven themes use fixed hours */
+  location?: GeoPoint | null;
+  /** Blend between palettes; otherwise switch to the nearer one */
+  smooth?: boolean;
+}
+
+/**
+ * A theme that can be chosen in settings. `resolve` turns it into concrete
+ * colours for the moment and device it is shown on.
+ */
+export interface ThemeDefinition {
+  key: string;
+  label: string;
+  description: string;
+  /** Changes with the clock, so it is resolved again periodically */
+  dynamic?: boolean;
+  resolve: (context: ThemeContext) => Theme;
+}
+
+export const DEFAULT_THEME_KEY = 'time';
+
+// ============================================================================
+// Time of Day
+// ============================================================================
+
+/**
+ * Part of the day by the clock: morning from 6, afternoon from 12, evening
+ * from 18 and night from 22. Used when no location is known.
+ */
+export const getTimeOfDay = (now: Date): TimeOfDay => {
+  const hour = now.getHours();
+  if (hour >= 6 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 18) return 'afternoon';
+  if (hour >= 18 && hour < 22) return 'evening';
+  return 'night';
+};
+
+/** Degrees of hour angle either side of solar noon over which morning turns into afternoon */
+const MIDDAY_BLEND = 15; // 1 hour
+
+/**
+ * Time-of-day palette that follows the sun at `location`: night fades into
+ * morning between nautical dawn and sunrise, morning turns into afternoon
+ * around solar noon, afternoon warms into evening through the golden hour,
+ * and evening fades into night between sunset and nautical dusk. Polar days
+ * and nights simply never reach some of the stops. Unless `smooth`, each
+ * blend snaps to whichever palette is nearer.
+ */
+export const getSolarTheme = (now: Date, location: GeoPoint, smooth = true): Theme => {
+  const { morning, afternoon, evening, night } = TIME_OF_DAY_THEMES;
+  const { altitude, hourAngle } = getSunPosition(now, location);
+  const beforeNoon = hourAngle < 0;
+  const blend = (from: Theme, to: Theme, amount: number) =>
+    mixThemes(from, to, smooth ? amount : Math.round(clamp(amount)));
+
+  const midday = (hourAngle + MIDDAY_BLEND) / (2 * MIDDAY_BLEND);
+  const daylight = blend(morning, afternoon, midday);
+
+  if (altitude >= SUN_ANGLES.goldenHour) return daylight;
+  if (altitude >= SUN_ANGLES.sunrise) {
+    if (beforeNoon) return daylight;
+    const golden = (altitude - SUN_ANGLES.sunrise) / (SUN_ANGLES.goldenHour - SUN_ANGLES.sunrise);
+    return blend(evening, daylight, golden);
+  }
+  if (altitude > SUN_ANGLES.night) {
+    const twilight = (altitude - SUN_ANGLES.night) / (SUN_ANGLES.sunrise - SUN_ANGLES.night);
+    return blend(night, beforeNoon ? morning : evening, twilight);
+  }
+  return night;
+};
+
+// ============================================================================
+// Blending
+// ============================================================================
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const parseHex = (hex: string): number[] => {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? [...digits].map((digit) => digit + digit).join('') : digits;
+  return [0, 2, 4].map((start) => parseInt(full.slice(start, start + 2), 16));
+};
+
+/**
+ * Colour `amount` of the way from hex colour `from` to `to`
+ */
+export const mixColors = (from: string, to: string, amount: number): string => {
+  if (from === to) return from;
+  const a = parseHex(from);
+  const b = parseHex(to);
+  const t = clamp(amount);
+  return `#${a
+    .map((channel, index) => Math.round(channel + (b[index] - channel) * t).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+/**
+ * Theme `amount` of the way from `from` to `to`. Gradients and accents blend;
+ * text and surface colours switch at the halfway point so they stay readable.
+ */
+export const mixThemes = (from: Theme, to: Theme, amount: number): Theme => {
+  const t = clamp(amount);
+  if (t === 0) return from;
+  if (t === 1) return to;
+
+  const nearest = t < 0.5 ? from : to;
+  const stops = Math.max(from.colors.length, to.colors.length);
+  const colorAt = (colors: string[], index: number) => colors[Math.min(index, colors.length - 1)];
+  const [first, second, ...rest] = Array.from({ length: stops }, (_, index) =>
+    mixColors(colorAt(from.colors, index), colorAt(to.colors, index), t)
+  );
+
+  return {
+    ...nearest,
+    colors: [first, second, ...rest],
+    accent: mixColors(from.accent, to.accent, t),
+    modal: { ...nearest.modal, accent: mixColors(from.modal.accent, to.modal.accent, t) },
+  };
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Map<string, ThemeDefinition>();
+
+/**
+ * Adds a theme to the choices in settings, replacing one with the same key
+ */
+export const registerTheme = (definition: ThemeDefinition): void => {
+  registry.set(definition.key, definition);
+};
+
+/**
+ * Every registered theme, in registration order
+ */
+export const getThemes = (): ThemeDefinition[] => [...registry.values()];
+
+/**
+ * The theme stored under `key`, or the default when it is no longer registered
+ */
+export const getThemeDefinition = (key: string): ThemeDefinition =>
+  registry.get(key) ?? (registry.get(DEFAULT_THEME_KEY) as ThemeDefinition);
+
+registerTheme({
+  key: DEFAULT_THEME_KEY,
+  label: 'Time of Day',
+  description: 'Morning, afternoon, evening and night palettes that follow sunrise and sunset',
+  dynamic: true,
+  resolve: ({ now, location, smooth }) =>
+    location ? getSolarTheme(now, location, smooth) : TIME_OF_DAY_THEMES[getTimeOfDay(now)],
+});
+
+registerTheme({
+  key: 'system',
+  label: 'Follow System',
+  description: "Light or dark to match the device's appearance",
+  resolve: ({ colorScheme }) => SYSTEM_THEMES[colorScheme],
+});
+
+registerTheme({
+  key: 'high-contrast',
+  label: 'High Contrast',
+  description: 'White on black with a bright accent',
+  resolve: () => HIGH_CONTRAST_THEME,
+});
+
+// Each time-of-day palette can also be kept all day
+(Object.keys(TIME_OF_DAY_THEMES) as TimeOfDay[]).forEach((timeOfDay) => {
+  const theme = TIME_OF_DAY_THEMES[timeOfDay];
+  registerTheme({
+    key: `fixed-${timeOfDay}`,
+    label: theme.name,
+    description: `The ${theme.name.toLowerCase()} palette all day`,
+    resolve: () => theme,
+  });
+});
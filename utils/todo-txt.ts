@@ -0,0 +1,222 @@
+import type { Priority, Recurrence, RecurrenceFrequency, Task } from '@/types/task';
+import { fromDateKey, toDateKey } from '@/utils/due-date';
+import { parseRRule, toRRule } from '@/utils/recurrence';
+import { uniqueTags } from '@/utils/tags';
+import type { ImportedTask } from '@/utils/task-store';
+import type { ImportContext, ParsedImport } from '@/utils/task-transfer';
+
+// ============================================================================
+// Priorities
+// ============================================================================
+
+/**
+ * todo.txt priority letters for each app priority. Normal tasks are written
+ * without a letter.
+ */
+const PRIORITY_LETTERS: Record<Priority, string | undefined> = {
+  urgent: 'A',
+  high: 'B',
+  normal: undefined,
+  low: 'D',
+};
+
+/**
+ * App priority for a todo.txt letter: A–D map onto urgent–low, and anything
+ * below D counts as low
+ */
+export const fromPriorityLetter = (letter: string): Priority => {
+  switch (letter.toUpperCase()) {
+    case 'A':
+      return 'urgent';
+    case 'B':
+      return 'high';
+    case 'C':
+      return 'normal';
+    default:
+      return 'low';
+  }
+};
+
+// ============================================================================
+// Recurrence
+// ============================================================================
+
+/** Units of the short `rec:` form other todo.txt apps use, e.g. `rec:2w` */
+const REC_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'd',
+  weekly: 'w',
+  monthly: 'm',
+  yearly: 'y',
+};
+
+const REC_PATTERN = /^\+?(\d+)([dwmy])$/;
+
+/**
+ * `rec:` value for a rule: the short form when it is only an interval,
+ * otherwise the RRULE so weekdays, month days and end dates survive
+ */
+const toRec = (rule: Recurrence): string =>
+  rule.weekdays?.length || rule.monthDay || rule.yearDate || rule.until
+    ? toRRule(rule)
+    : `${rule.interval}${REC_UNITS[rule.frequency]}`;
+
+/**
+ * Rule for a `rec:` value in either form, or undefined when it isn't one
+ */
+const fromRec = (value: string): Recurrence | undefined => {
+  const short = REC_PATTERN.exec(value);
+  if (short) {
+    const interval = Number(short[1]);
+    const frequency = (Object.keys(REC_UNITS) as RecurrenceFrequency[]).find((key) => REC_UNITS[key] === short[2]);
+    return frequency && interval >= 1 ? { frequency, interval } : undefined;
+  }
+
+  try {
+    return parseRRule(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const PRIORITY_PATTERN = /^\(([A-Z])\)$/;
+/**
+ * `key:value` with no spaces. Keys start with a letter so times like `10:30`
+ * stay in the title; values starting with `/` are URLs, not extensions.
+ */
+const EXTENSION_PATTERN = /^([A-Za-z][\w-]*):([^\s/]\S*)$/;
+
+const toTime = (dateKey: string): number => fromDateKey(dateKey).getTime();
+
+/**
+ * Parses one todo.txt line, e.g.
+ * `x 2026-10-19 2026-10-01 Call mum +family @phone due:2026-10-20`.
+ * Projects become tags, `due:` and `due-time:` the deadline, `rec:` the
+ * repeat rule, and completed tasks keep their priority in `pri:`. Returns
+ * null for blank lines.
+ */
+export const parseTodoTxtLine = (line: string, listId: string): ImportedTask | null => {
+  const tokens = line.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const completed = tokens[0] === 'x';
+  if (completed) tokens.shift();
+
+  let priority: Priority = 'normal';
+  const letter = !completed && PRIORITY_PATTERN.exec(tokens[0] ?? '');
+  if (letter) {
+    priority = fromPriorityLetter(letter[1]);
+    tokens.shift();
+  }
+
+  // Completed tasks list the completion date first, then the creation date
+  const dates: string[] = [];
+  while (dates.length < (completed ? 2 : 1) && DATE_PATTERN.test(tokens[0] ?? '')) {
+    dates.push(tokens.shift() as string);
+  }
+  const [completedOn, createdOn] = completed ? dates : [undefined, dates[0]];
+
+  const words: string[] = [];
+  const projects: string[] = [];
+  const contexts: string[] = [];
+  const extensions: Record<string, string> = {};
+  let dueDate: string | undefined;
+  let dueTime: string | undefined;
+  let recurrence: Recurrence | undefined;
+
+  for (const token of tokens) {
+    const extension = EXTENSION_PATTERN.exec(token);
+    if (token.length > 1 && token.startsWith('+')) {
+      projects.push(token.slice(1));
+    } else if (token.length > 1 && token.startsWith('@')) {
+      contexts.push(token.slice(1));
+    } else if (extension && extension[1] === 'due' && DATE_PATTERN.test(extension[2])) {
+      dueDate = extension[2];
+    } else if (extension && extension[1] === 'due-time' && TIME_PATTERN.test(extension[2])) {
+      dueTime = extension[2];
+    } else if (extension && extension[1] === 'rec' && fromRec(extension[2])) {
+      recurrence = fromRec(extension[2]);
+    } else if (extension && extension[1] === 'pri' && completed && /^[A-Z]$/.test(extension[2])) {
+      priority = fromPriorityLetter(extension[2]);
+    } else if (extension) {
+      extensions[extension[1]] = extension[2];
+    } else {
+      words.push(token);
+    }
+  }
+
+  return {
+    title: words.join(' '),
+    description: '',
+    completed,
+    priority,
+    listId,
+    tags: uniqueTags(projects),
+    subtasks: [],
+    ...(createdOn && { createdAt: toTime(createdOn) }),
+    ...(completedOn && { completedAt: toTime(completedOn) }),
+    ...(dueDate && { dueDate }),
+    ...(dueDate && dueTime && { dueTime }),
+    ...(recurrence && { recurrence }),
+    ...(contexts.length > 0 && { contexts: [...new Set(contexts)] }),
+    ...(Object.keys(extensions).length > 0 && { extensions }),
+  };
+};
+
+/**
+ * Parses a todo.txt file, one task per line. Every task goes to the
+ * context's default list, since todo.txt has no lists.
+ */
+export const parseTodoTxt = (text: string, context: ImportContext): ParsedImport => {
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const task = parseTodoTxtLine(line, context.defaultListId);
+    if (!task) return;
+
+    if (task.title === '') {
+      errors.push(`Line ${index + 1} has no description`);
+    } else {
+      tasks.push(task);
+    }
+  });
+
+  return { tasks, errors };
+};
+
+// ============================================================================
+// Serializing
+// ============================================================================
+
+/**
+ * Formats a task as a todo.txt line, the inverse of `parseTodoTxtLine`
+ */
+export const serializeTodoTxtLine = (task: Task): string => {
+  const letter = PRIORITY_LETTERS[task.priority];
+  const created = toDateKey(new Date(task.createdAt));
+
+  // A creation date may only follow a completion date on completed tasks
+  const prefix = task.completed
+    ? ['x', ...(task.completedAt !== undefined ? [toDateKey(new Date(task.completedAt)), created] : [])]
+    : [...(letter ? [`(${letter})`] : []), created];
+
+  return [
+    ...prefix,
+    task.title,
+    ...task.tags.map((tag) => `+${tag}`),
+    ...(task.contexts ?? []).map((context) => `@${context}`),
+    ...(task.dueDate ? [`due:${task.dueDate}`] : []),
+    ...(task.dueDate && task.dueTime ? [`due-time:${task.dueTime}`] : []),
+    ...(task.recurrence ? [`rec:${toRec(task.recurrence)}`] : []),
+    ...(task.completed && letter ? [`pri:${letter}`] : []),
+    ...Object.entries(task.extensions ?? {}).map(([key, value]) => `${key}:${value}`),
+  ].join(' ');
+};
+
+export const serializeTodoTxt = (tasks: Task[]): string => tasks.map(serializeTodoTxtLine).join('\n');